@@ -256,6 +256,43 @@ function checkToolCompatibility() {
     };
   }
 }
+function checkModelHealth() {
+  const healthPath = path.join(process.cwd(), ".omc", "model-health.json");
+  if (!fs.existsSync(healthPath)) {
+    return {
+      status: "OK",
+      message: "No model health data recorded",
+      details: "Recorded once delegated agents run in this project"
+    };
+  }
+  try {
+    const { models = {} } = JSON.parse(fs.readFileSync(healthPath, "utf-8"));
+    const records = Object.values(models);
+    const describe = (r) => `${r.model}: ${r.status}${r.reason ? ` (${r.reason})` : ""}${r.lastError ? ` - last error: ${r.lastError}` : ""}`;
+    const unhealthy = records.filter((r) => r.status === "unhealthy");
+    const degraded = records.filter((r) => r.status === "degraded");
+    const asOf = records.length > 0 ? new Date(Math.max(...records.map((r) => r.updatedAt))).toISOString() : "never";
+    if (unhealthy.length > 0) {
+      return {
+        status: "WARN",
+        message: `${unhealthy.length} of ${records.length} models unhealthy (as of ${asOf})`,
+        details: [...unhealthy, ...degraded].map(describe).join("; "),
+        fix: "Check provider status and credentials, or configure model_mapping.alternates in omco.json"
+      };
+    }
+    return {
+      status: "OK",
+      message: `${records.length} models tracked, ${degraded.length} degraded (as of ${asOf})`,
+      details: degraded.length > 0 ? degraded.map(describe).join("; ") : undefined
+    };
+  } catch (e) {
+    return {
+      status: "WARN",
+      message: `Failed to read model health: ${e.message}`,
+      details: healthPath
+    };
+  }
+}
 function runDiagnostics() {
   const checks = {
     pluginInstalled: checkPluginInstalled(),
@@ -264,7 +301,8 @@ function runDiagnostics() {
     packageDependency: checkPackageDependency(),
     omcoConfigValid: checkOmcoConfig(),
     versionUpdate: checkVersionUpdate(),
-    toolCompatibility: checkToolCompatibility()
+    toolCompatibility: checkToolCompatibility(),
+    modelHealth: checkModelHealth()
   };
   const values = Object.values(checks);
   const summary = {
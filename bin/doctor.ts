@@ -30,6 +30,7 @@ interface DiagnosticReport {
     omcoConfigValid: CheckResult;
     versionUpdate: CheckResult;
     toolCompatibility: CheckResult;
+    modelHealth: CheckResult;
   };
   summary: {
     total: number;
@@ -351,6 +352,52 @@ function checkToolCompatibility(): CheckResult {
   }
 }
 
+// ============================================================
+// CHECK 8: Model Health
+// ============================================================
+function checkModelHealth(): CheckResult {
+  const healthPath = path.join(process.cwd(), '.omc', 'model-health.json');
+
+  if (!fs.existsSync(healthPath)) {
+    return {
+      status: 'OK',
+      message: 'No model health data recorded',
+      details: 'Recorded once delegated agents run in this project'
+    };
+  }
+
+  try {
+    const { models = {} } = JSON.parse(fs.readFileSync(healthPath, 'utf-8'));
+    const records = Object.values(models) as Array<{ model: string; status: string; reason?: string; lastError?: string; updatedAt: number }>;
+    const describe = (r: typeof records[number]) =>
+      `${r.model}: ${r.status}${r.reason ? ` (${r.reason})` : ''}${r.lastError ? ` - last error: ${r.lastError}` : ''}`;
+    const unhealthy = records.filter(r => r.status === 'unhealthy');
+    const degraded = records.filter(r => r.status === 'degraded');
+    const asOf = records.length > 0 ? new Date(Math.max(...records.map(r => r.updatedAt))).toISOString() : 'never';
+
+    if (unhealthy.length > 0) {
+      return {
+        status: 'WARN',
+        message: `${unhealthy.length} of ${records.length} models unhealthy (as of ${asOf})`,
+        details: [...unhealthy, ...degraded].map(describe).join('; '),
+        fix: 'Check provider status and credentials, or configure model_mapping.alternates in omco.json'
+      };
+    }
+
+    return {
+      status: 'OK',
+      message: `${records.length} models tracked, ${degraded.length} degraded (as of ${asOf})`,
+      details: degraded.length > 0 ? degraded.map(describe).join('; ') : undefined
+    };
+  } catch (e) {
+    return {
+      status: 'WARN',
+      message: `Failed to read model health: ${(e as Error).message}`,
+      details: healthPath
+    };
+  }
+}
+
 // ============================================================
 // MAIN
 // ============================================================
@@ -363,6 +410,7 @@ function runDiagnostics(): DiagnosticReport {
     omcoConfigValid: checkOmcoConfig(),
     versionUpdate: checkVersionUpdate(),
     toolCompatibility: checkToolCompatibility(),
+    modelHealth: checkModelHealth(),
   };
 
   const values = Object.values(checks);
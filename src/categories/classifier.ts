@@ -0,0 +1,138 @@
+import { DEFAULT_CATEGORIES, CATEGORY_DESCRIPTIONS } from "./constants";
+import { getAvailableCategories } from "./resolver";
+import type { CategoriesConfig } from "./types";
+
+/**
+ * Category name that asks call_omco_agent to classify the prompt itself.
+ */
+export const AUTO_CATEGORY = "auto";
+
+/**
+ * Keyword signals for the default categories. Multi-word entries match as phrases.
+ */
+export const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  "visual-engineering": [
+    "ui", "ux", "css", "tailwind", "style", "styling", "layout", "component", "frontend",
+    "animation", "responsive", "design", "color", "theme", "button", "modal", "page", "icon",
+  ],
+  ultrabrain: [
+    "architecture", "architect", "design decision", "trade-off", "tradeoff", "algorithm",
+    "concurrency", "race condition", "deadlock", "distributed", "scalability", "optimize",
+    "root cause", "prove", "complexity", "migration strategy",
+  ],
+  artistry: [
+    "creative", "novel", "brainstorm", "story", "poem", "slogan", "naming ideas", "unconventional",
+    "artistic", "imaginative",
+  ],
+  quick: [
+    "typo", "rename", "one-line", "single line", "bump", "trivial", "small fix", "simple change",
+    "update the version", "remove unused", "fix import", "comment out", "change the text",
+  ],
+  writing: [
+    "readme", "documentation", "docs", "changelog", "blog", "article", "prose", "release notes",
+    "tutorial", "guide", "docstring", "jsdoc",
+  ],
+};
+
+// Words too common to count as description overlap (compared after plural folding)
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "into", "is", "it", "of",
+  "on", "or", "that", "the", "this", "to", "with", "task", "required", "requiring",
+  "don't", "fit", "other", "category", "effort", "change", "simple",
+]);
+
+// Prompts at most this long with no heavier signal are treated as small edits
+const SHORT_PROMPT_CHARS = 280;
+// Prompts at least this long (or with many steps) need a high-effort fallback
+const LONG_PROMPT_CHARS = 1500;
+const MANY_STEPS = 5;
+
+export interface CategoryClassification {
+  category: string;
+  /** Why this category won, for task metadata and logs */
+  rationale: string;
+  scores: Record<string, number>;
+}
+
+/**
+ * Crude plural folding so "indexes" matches "index" and "queries" matches "query"
+ */
+function stem(word: string): string {
+  if (word.length <= 3) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (/(x|ch|sh|ss)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9'-]*/g) ?? []).map(stem);
+}
+
+function countSteps(prompt: string): number {
+  return prompt.split("\n").filter((line) => /^\s*(\d+[.)]|[-*])\s+\S/.test(line)).length;
+}
+
+/**
+ * Pick the best category for a prompt from keyword hits and overlap with category
+ * descriptions (defaults plus user categories). Without a clear signal, prompt size decides
+ * between quick, unspecified-low and unspecified-high.
+ */
+export function classifyCategory(prompt: string, userCategories?: CategoriesConfig): CategoryClassification {
+  const text = prompt.toLowerCase();
+  const words = new Set(tokenize(prompt));
+  const candidates = getAvailableCategories(userCategories).filter((name) => name !== AUTO_CATEGORY);
+  const scores: Record<string, number> = {};
+  const reasons: Record<string, string[]> = {};
+
+  for (const name of candidates) {
+    let score = 0;
+    const matched: string[] = [];
+
+    for (const keyword of CATEGORY_KEYWORDS[name] ?? []) {
+      const hit = keyword.includes(" ") || keyword.includes("-") ? text.includes(keyword) : words.has(stem(keyword));
+      if (hit) {
+        score += 2;
+        matched.push(keyword);
+      }
+    }
+
+    const description = userCategories?.[name]?.description ?? CATEGORY_DESCRIPTIONS[name] ??
+      DEFAULT_CATEGORIES[name]?.description ?? "";
+    const descriptionWords = [...new Set([...tokenize(description), ...tokenize(name.replace(/-/g, " "))])]
+      .filter((word) => !STOPWORDS.has(word) && word.length > 2 && !matched.some((m) => stem(m) === word));
+    for (const word of descriptionWords) {
+      if (words.has(word)) {
+        score += 1;
+        matched.push(word);
+      }
+    }
+
+    // The catch-all categories are only chosen by the size fallback below
+    if (name.startsWith("unspecified-")) score = 0;
+
+    scores[name] = score;
+    reasons[name] = matched;
+  }
+
+  const steps = countSteps(prompt);
+  const isLong = prompt.length >= LONG_PROMPT_CHARS || steps >= MANY_STEPS;
+  const isShort = prompt.length <= SHORT_PROMPT_CHARS && steps <= 1;
+
+  // Small edits lean quick unless something heavier clearly matched
+  if (isShort && scores.quick !== undefined) {
+    scores.quick += 1;
+    reasons.quick.push(`short prompt (${prompt.length} chars)`);
+  }
+
+  const [best, bestScore] = Object.entries(scores).sort((a, b) => b[1] - a[1])[0] ?? ["", 0];
+  if (best && bestScore >= 2) {
+    return { category: best, rationale: `matched ${reasons[best].join(", ")}`, scores };
+  }
+
+  const fallback = isLong ? "unspecified-high" : isShort && candidates.includes("quick") ? "quick" : "unspecified-low";
+  const size = isLong
+    ? `long prompt (${prompt.length} chars, ${steps} steps)`
+    : `${isShort ? "short" : "medium"} prompt (${prompt.length} chars)`;
+  return { category: fallback, rationale: `no strong keyword match; ${size}`, scores };
+}
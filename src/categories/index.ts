@@ -11,7 +11,7 @@
  * worrying about technical model selection details.
  */
 
-export type { CategoryConfig, CategoriesConfig } from "./types";
+export type { CategoryConfig, CategoriesConfig, CategoryToolsConfig } from "./types";
 
 export {
   DEFAULT_CATEGORIES,
@@ -29,5 +29,19 @@ export {
 export type { ResolvedCategory } from "./resolver";
 export {
   resolveCategoryConfig,
+  getCategoryChain,
   getAvailableCategories
 } from "./resolver";
+
+export {
+  buildToolPermissions,
+  isToolAllowed,
+  getCategoryAgentName
+} from "./tool-policy";
+
+export type { CategoryClassification } from "./classifier";
+export {
+  AUTO_CATEGORY,
+  CATEGORY_KEYWORDS,
+  classifyCategory
+} from "./classifier";
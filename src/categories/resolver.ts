@@ -8,45 +8,72 @@ export interface ResolvedCategory {
   model: string | undefined;
 }
 
+/**
+ * Walk a category's `extends` chain. Returns the category names from the root ancestor down
+ * to `categoryName`, null when the category does not exist, or an error for an unknown
+ * parent or an inheritance cycle.
+ */
+export function getCategoryChain(
+  categoryName: string,
+  userCategories?: CategoriesConfig
+): string[] | { error: string } | null {
+  // Walked child first; reversed on return
+  const visited: string[] = [];
+  let current: string | undefined = categoryName;
+
+  while (current !== undefined) {
+    if (visited.includes(current)) {
+      const cycle = [...visited.slice(visited.indexOf(current)), current];
+      return { error: `Category inheritance cycle: ${cycle.join(" -> ")}` };
+    }
+    if (!DEFAULT_CATEGORIES[current] && !userCategories?.[current]) {
+      if (visited.length === 0) return null;
+      return { error: `Category "${visited[visited.length - 1]}" extends unknown category "${current}"` };
+    }
+
+    visited.push(current);
+    current = userCategories?.[current]?.extends ?? DEFAULT_CATEGORIES[current]?.extends;
+  }
+
+  return visited.reverse();
+}
+
 /**
  * Resolve a category name to its configuration.
- * Priority: user override > default category
+ * Priority: user override > default category > parent category (via `extends`)
  *
- * Model resolution priority:
- * 1. userConfig.model (user override)
- * 2. defaultConfig.model (category default)
+ * Each category in the `extends` chain contributes its default and user fields, with
+ * descendants overriding ancestors. Prompt appends are concatenated from the root ancestor
+ * down, each level's default append before its user append.
+ *
+ * @throws Error for an unknown parent or an inheritance cycle (the config schema rejects both)
  */
 export function resolveCategoryConfig(
   categoryName: string,
   userCategories?: CategoriesConfig
 ): ResolvedCategory | null {
-  const defaultConfig = DEFAULT_CATEGORIES[categoryName];
-  const userConfig = userCategories?.[categoryName];
-  const defaultPromptAppend = CATEGORY_PROMPT_APPENDS[categoryName] ?? "";
-
-  if (!defaultConfig && !userConfig) {
+  const chain = getCategoryChain(categoryName, userCategories);
+  if (!chain) {
     return null;
   }
+  if ("error" in chain) {
+    throw new Error(`[OMCO] Invalid categories config: ${chain.error}`);
+  }
+
+  let config: CategoryConfig = {};
+  const promptAppends: string[] = [];
+
+  for (const name of chain) {
+    // Merge configs: user overrides default, each level overrides its parent
+    config = { ...config, ...DEFAULT_CATEGORIES[name], ...userCategories?.[name] };
 
-  // Model priority: user override > category default
-  const model = userConfig?.model ?? defaultConfig?.model;
-
-  // Merge configs: user overrides default
-  const config: CategoryConfig = {
-    ...defaultConfig,
-    ...userConfig,
-    model,
-  };
-
-  // Combine prompt appends
-  let promptAppend = defaultPromptAppend;
-  if (userConfig?.prompt_append) {
-    promptAppend = defaultPromptAppend
-      ? defaultPromptAppend + "\n\n" + userConfig.prompt_append
-      : userConfig.prompt_append;
+    const defaultPromptAppend = CATEGORY_PROMPT_APPENDS[name];
+    if (defaultPromptAppend) promptAppends.push(defaultPromptAppend);
+    const userPromptAppend = userCategories?.[name]?.prompt_append;
+    if (userPromptAppend) promptAppends.push(userPromptAppend);
   }
 
-  return { config, promptAppend, model };
+  return { config, promptAppend: promptAppends.join("\n\n"), model: config.model };
 }
 
 /**
@@ -0,0 +1,50 @@
+import type { CategoryToolsConfig } from "./types";
+
+/**
+ * Convert a category's tools allow/deny lists into the per-prompt tool map OpenCode accepts.
+ * An allow list disables every other tool ("*": false); deny entries always win.
+ */
+export function buildToolPermissions(tools?: CategoryToolsConfig): Record<string, boolean> | undefined {
+  if (!tools?.allow?.length && !tools?.deny?.length) return undefined;
+
+  const permissions: Record<string, boolean> = {};
+  if (tools.allow?.length) {
+    permissions["*"] = false;
+    for (const name of tools.allow) permissions[name] = true;
+  }
+  for (const name of tools.deny ?? []) permissions[name] = false;
+  return permissions;
+}
+
+function matches(pattern: string, tool: string): boolean {
+  if (!pattern.includes("*")) return pattern === tool;
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`).test(tool);
+}
+
+/**
+ * Check a tool against a permission map. The most specific (longest) matching pattern
+ * decides; tools matching no pattern are allowed.
+ */
+export function isToolAllowed(tool: string, permissions?: Record<string, boolean>): boolean {
+  if (!permissions) return true;
+
+  let decision = true;
+  let specificity = -1;
+  for (const [pattern, allowed] of Object.entries(permissions)) {
+    if (!matches(pattern, tool)) continue;
+    const length = pattern.replace(/\*/g, "").length;
+    if (length > specificity || (length === specificity && !allowed)) {
+      decision = allowed;
+      specificity = length;
+    }
+  }
+  return decision;
+}
+
+/**
+ * OpenCode agent registered for a category that sets a temperature or tool lists
+ */
+export function getCategoryAgentName(category: string): string {
+  return `category-${category}`;
+}
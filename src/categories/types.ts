@@ -3,6 +3,8 @@
  * Categories determine which model tier and behavior profile to use for delegated tasks.
  */
 export interface CategoryConfig {
+  /** Category (built-in or user-defined) this one inherits fields and prompt_append from */
+  extends?: string;
   /** Abstract model tier name (haiku/sonnet/opus) - resolved by model resolution service */
   model?: string;
   /** Model variant for extended thinking budget */
@@ -13,6 +15,23 @@ export interface CategoryConfig {
   prompt_append?: string;
   /** Flag indicating this agent configuration is experimental/unstable */
   is_unstable_agent?: boolean;
+  /** Agent whose system prompt (and, without a model, tier) the category uses */
+  agent?: string;
+  /** Tools the delegated session may use; deny wins over allow */
+  tools?: CategoryToolsConfig;
+  /** Sampling temperature for the delegated session */
+  temperature?: number;
+  /** Default wall-clock timeout for tasks in this category */
+  timeout_ms?: number;
+  /** Max background tasks of this category running at once */
+  max_concurrency?: number;
+}
+
+export interface CategoryToolsConfig {
+  /** Only these tools (wildcards allowed) are available */
+  allow?: string[];
+  /** These tools (wildcards allowed) are never available */
+  deny?: string[];
 }
 
 /**
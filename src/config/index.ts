@@ -1,6 +1,7 @@
 import { existsSync, readFileSync } from "node:fs";
 import { join } from "node:path";
 import { z } from "zod";
+import { getCategoryChain } from "../categories/resolver";
 
 const AgentConfigSchema = z.object({
   model: z.string().optional(),
@@ -10,6 +11,8 @@ const AgentConfigSchema = z.object({
   disable: z.boolean().optional(),
   enabled: z.boolean().optional(),
   prompt_append: z.string().optional(),
+  timeout_ms: z.number().min(1000).optional(),
+  priority: z.enum(["low", "normal", "high"]).optional(),
 });
 
 // Features configuration
@@ -77,17 +80,89 @@ const ModelMappingConfigSchema = z.object({
     opus: z.string().optional(),
   }).optional(),
   debugLogging: z.boolean().optional(),
+  alternates: z.object({
+    haiku: z.array(z.string()).optional(),
+    sonnet: z.array(z.string()).optional(),
+    opus: z.array(z.string()).optional(),
+  }).optional(),
+  health: z.object({
+    failureThreshold: z.number().int().min(1).optional(),
+    rateLimitThreshold: z.number().int().min(1).optional(),
+    windowMs: z.number().min(1000).optional(),
+    slowLatencyMs: z.number().min(0).optional(),
+  }).optional(),
+});
+
+const RetryPolicyConfigSchema = z.object({
+  maxAttempts: z.number().min(1).max(10).optional(),
+  backoffMs: z.number().min(0).optional(),
+  maxBackoffMs: z.number().min(0).optional(),
+  fallbackModels: z.array(z.string()).optional(),
+});
+
+// USD per million tokens, keyed by "provider/model" or model ID
+const ModelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+  cacheRead: z.number().min(0).optional(),
+  cacheWrite: z.number().min(0).optional(),
 });
 
+const ModelPricingConfigSchema = z.record(z.string(), ModelPriceSchema);
+
 const BackgroundTaskConfigSchema = z.object({
   defaultConcurrency: z.number().min(1).max(20).optional(),
   providerConcurrency: z.record(z.string(), z.number()).optional(),
   modelConcurrency: z.record(z.string(), z.number()).optional(),
+  persistTasks: z.boolean().optional(),
+  retry: RetryPolicyConfigSchema.optional(),
+  pricing: ModelPricingConfigSchema.optional(),
+  conflictPolicy: z.enum(["off", "report", "block"]).optional(),
+  preemptLowPriority: z.boolean().optional(),
+  notifyParent: z.enum(["off", "silent", "wake"]).optional(),
+  notifyBatchMs: z.number().min(0).optional(),
+});
+
+const BudgetConfigSchema = z.object({
+  maxTokensPerSession: z.number().int().min(1).optional(),
+  maxCostPerSession: z.number().min(0).optional(),
+  maxBackgroundTasks: z.number().int().min(1).optional(),
+});
+
+const RalphVerificationConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  max_attempts: z.number().min(1).max(10).optional(),
+  build_command: z.string().optional(),
+  test_command: z.string().optional(),
+  lint_command: z.string().optional(),
+  command_timeout_ms: z.number().min(1000).optional(),
+  max_output_chars: z.number().min(200).optional(),
+  reviewers: z.array(z.string()).optional(),
+  quorum: z.enum(['unanimous', 'majority', 'any-reject-blocks']).optional(),
+  reviewer_timeout_ms: z.number().min(1000).optional(),
+});
+
+const RalphPrdGenerationConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  planner: z.string().optional(),
+  reviewer: z.string().nullable().optional(),
+  require_approval: z.boolean().optional(),
+  timeout_ms: z.number().min(1000).optional(),
+});
+
+const RalphParallelStoriesConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  max_parallel: z.number().int().min(1).max(20).optional(),
+  executor: z.string().optional(),
+  timeout_ms: z.number().min(1000).optional(),
 });
 
 const RalphLoopConfigSchema = z.object({
   enabled: z.boolean().optional(),
   default_max_iterations: z.number().min(1).max(1000).optional(),
+  verification: RalphVerificationConfigSchema.optional(),
+  prd_generation: RalphPrdGenerationConfigSchema.optional(),
+  parallel_stories: RalphParallelStoriesConfigSchema.optional(),
 });
 
 const AutopilotConfigSchema = z.object({
@@ -97,14 +172,30 @@ const AutopilotConfigSchema = z.object({
 });
 
 export const CategoryConfigSchema = z.object({
+  extends: z.string().optional(),
   model: z.string().optional(),
   variant: z.enum(["low", "medium", "high", "max", "xhigh"]).optional(),
   description: z.string().optional(),
   prompt_append: z.string().optional(),
   is_unstable_agent: z.boolean().optional(),
+  agent: z.string().optional(),
+  tools: z.object({
+    allow: z.array(z.string()).optional(),
+    deny: z.array(z.string()).optional(),
+  }).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  timeout_ms: z.number().min(1000).optional(),
+  max_concurrency: z.number().int().min(1).optional(),
 });
 
-export const CategoriesConfigSchema = z.record(z.string(), CategoryConfigSchema);
+export const CategoriesConfigSchema = z.record(z.string(), CategoryConfigSchema).superRefine((categories, ctx) => {
+  for (const name of Object.keys(categories)) {
+    const chain = getCategoryChain(name, categories);
+    if (chain && "error" in chain) {
+      ctx.addIssue({ code: "custom", path: [name, "extends"], message: chain.error });
+    }
+  }
+});
 
 const UltraQAConfigSchema = z.object({
   enabled: z.boolean().optional(),
@@ -158,6 +249,7 @@ const OmoOmcsConfigSchema = z.object({
   disabled_skills: z.array(z.string()).optional(),
   disabled_mcps: z.array(z.string()).optional(),
   background_task: BackgroundTaskConfigSchema.optional(),
+  budget: BudgetConfigSchema.optional(),
   ralph_loop: RalphLoopConfigSchema.optional(),
   autopilot: AutopilotConfigSchema.optional(),
   ultraqa: UltraQAConfigSchema.optional(),
@@ -178,6 +270,9 @@ export type OmoOmcsConfig = z.infer<typeof OmoOmcsConfigSchema>;
 export type AgentConfig = z.infer<typeof AgentConfigSchema>;
 export type ModelMappingConfig = z.infer<typeof ModelMappingConfigSchema>;
 export type BackgroundTaskConfig = z.infer<typeof BackgroundTaskConfigSchema>;
+export type RetryPolicyConfig = z.infer<typeof RetryPolicyConfigSchema>;
+export type ModelPricingConfig = z.infer<typeof ModelPricingConfigSchema>;
+export type BudgetConfig = z.infer<typeof BudgetConfigSchema>;
 export type RalphLoopConfig = z.infer<typeof RalphLoopConfigSchema>;
 export type AutopilotConfig = z.infer<typeof AutopilotConfigSchema>;
 export type UltraQAConfig = z.infer<typeof UltraQAConfigSchema>;
@@ -294,7 +389,7 @@ export function loadConfig(directory: string): OmoOmcsConfig {
       ultrathink: ['ultrathink', 'think', 'reason', 'ponder'],
     },
     routing: {
-      enabled: true,
+      enabled: false,
       defaultTier: 'MEDIUM',
       escalationEnabled: true,
       maxEscalations: 2,
@@ -1,4 +1,5 @@
 import { log, warn } from "../shared/logger";
+import type { ModelHealthConfig } from "../tools/model-health";
 
 export type ModelTier = "haiku" | "sonnet" | "opus";
 export type ConcreteModel = string;
@@ -18,6 +19,13 @@ export interface ModelMappingConfig {
    * When enabled, opus tier agents with readOnly=true will use sonnet instead.
    */
   opusReadOnlyFallbackToSonnet?: boolean;
+  /**
+   * Ordered "provider/model" alternates per tier. When the tier's model is unhealthy,
+   * resolution uses the first healthy alternate.
+   */
+  alternates?: Partial<Record<ModelTier, ConcreteModel[]>>;
+  /** Thresholds for marking a model unhealthy */
+  health?: ModelHealthConfig;
 }
 
 export interface AgentModelConfig {
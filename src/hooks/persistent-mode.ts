@@ -25,6 +25,7 @@ import {
 } from "../state/ralph-state";
 import { getContinuationMessage } from "./continuation-messages";
 import { formatNotepadContext, pruneOldEntries } from "./notepad";
+import type { BudgetViolation } from "../tools/budget-guard";
 
 // ============================================================================
 // Types
@@ -54,6 +55,8 @@ export interface PersistentModeOptions {
   injectNotepadContext?: boolean;
   /** Whether to prune old entries on session start */
   pruneOnStart?: boolean;
+  /** Session budget check; an exhausted budget stops all continuation */
+  checkBudget?: (sessionId: string) => BudgetViolation | undefined;
 }
 
 // ============================================================================
@@ -108,6 +111,11 @@ function checkRalphLoop(
     return null;
   }
 
+  // Iteration 1 waits for the generated PRD to be approved
+  if (state.prd_phase) {
+    return null;
+  }
+
   // Check max iterations
   if (state.iteration >= state.max_iterations) {
     clearRalphState(projectDir);
@@ -223,6 +231,38 @@ Original task: ${state.original_prompt}
   };
 }
 
+/**
+ * Stop continuation because the session budget is exhausted, deactivating ultrawork
+ */
+function stopForBudget(
+  ctx: PluginInput,
+  sessionId: string,
+  violation: BudgetViolation
+): PersistentModeResult {
+  const state = readUltraworkState(ctx.directory);
+  if (state?.active && (!state.session_id || state.session_id === sessionId)) {
+    clearUltraworkState(ctx.directory, true);
+    log(`Ultrawork stopped - session budget exhausted`, { sessionId, limit: violation.limit });
+
+    ctx.client.tui
+      .showToast({
+        body: {
+          title: "Ultrawork Stopped: Budget Exhausted",
+          message: violation.message,
+          variant: "warning" as const,
+          duration: 5000,
+        },
+      })
+      .catch(() => {});
+  }
+
+  return {
+    shouldContinue: false,
+    message: `[BUDGET EXHAUSTED] ${violation.message}. Continuation stopped.`,
+    mode: "none",
+  };
+}
+
 /**
  * Check for incomplete todos (baseline enforcement)
  */
@@ -310,6 +350,11 @@ export async function checkPersistentModes(
     pruneOldEntries(projectDir);
   }
 
+  const budgetViolation = options?.checkBudget?.(sessionId);
+  if (budgetViolation) {
+    return stopForBudget(ctx, sessionId, budgetViolation);
+  }
+
   // Get todos
   let todos: Array<{ status: string; content?: string }> = [];
   try {
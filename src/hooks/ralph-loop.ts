@@ -2,6 +2,10 @@ import type { PluginInput } from "@opencode-ai/plugin";
 import { log } from "../shared/logger";
 import type { RalphLoopConfig } from "../config";
 import type { ActiveMode } from "./system-prompt-injector";
+import type { BudgetViolation } from "../tools/budget-guard";
+import type { BackgroundManager, BackgroundTask } from "../tools/background-manager";
+import { formatSchemaInstructions, resolveOutputSchema } from "../tools/output-schemas";
+import { getAgent } from "../agents";
 import { getContinuationMessage } from "./continuation-messages";
 import {
   readRalphState,
@@ -14,13 +18,21 @@ import {
 import {
   readPrd as readPrdFromManager,
   writePrd as writePrdFromManager,
+  updatePrd,
   createPrdFromTask,
   getNextStory,
+  getReadyStories,
   getPrdStatus,
   generateStoryContextPrompt,
+  generateParallelStoryPrompt,
+  formatOutstandingCriteria,
+  formatPrdOutline,
+  type CriterionEvidence,
   type PRD,
   type UserStory,
 } from "../prd/prd-manager";
+import { verifyClaimedStories } from "../prd/criteria-checker";
+import { generatePrd } from "../prd/prd-generator";
 import { initializeProgress, formatProgressContext } from "../prd/progress-tracker";
 import * as path from "path";
 
@@ -37,21 +49,58 @@ interface RalphLoopState {
   startedAt: number;
   mode: "ralph-loop" | "ultrawork-ralph";
   prdPath?: string;
+  /** Set until the generated PRD is approved; no iteration runs meanwhile */
+  prdPhase?: "generating" | "awaiting_approval";
+  /** Planner or reviewer task drafting the PRD while prdPhase is "generating" */
+  prdTask?: string;
+  /** ultrawork-ralph: stories delegated to executor agents, story ID -> task ID */
+  storyTasks: Map<string, string>;
+  /** Stories whose executor failed or gave up; the session implements them itself */
+  failedStories: Set<string>;
+}
+
+/**
+ * Result of an executor agent implementing one story (`story-result` output schema)
+ */
+interface StoryResult {
+  storyId: string;
+  passes: boolean;
+  summary: string;
+  criteria: Array<{ id: string; evidence: CriterionEvidence }>;
 }
 
 interface RalphLoopOptions {
   config?: RalphLoopConfig;
   onModeChange?: (sessionID: string, mode: ActiveMode, task?: string) => void;
+  checkBudget?: (sessionID: string) => BudgetViolation | undefined;
+  /** Budget check before each background agent the loop launches (PRD drafting, parallel stories) */
+  checkNewWork?: (sessionID: string, background: boolean) => BudgetViolation | undefined;
+  /**
+   * Set when a verifier checks completion claims: a claim no longer ends the loop (call
+   * completeLoop once it is verified), and no continuation is injected while it is pending
+   */
+  isVerificationPending?: (sessionID: string) => boolean;
+  /**
+   * Runs the planner/reviewer agents that draft the PRD when the loop starts without one, and
+   * the executors of parallel stories in ultrawork-ralph mode
+   */
+  manager?: BackgroundManager;
 }
 
 const states = new Map<string, RalphLoopState>();
 const COMPLETION_PROMISE = "<promise>TASK_COMPLETE</promise>";
 const LEGACY_COMPLETION_PROMISE = "<promise>DONE</promise>";
 const PRD_FILENAME = "prd.json";
+// Only a bare approval starts iteration 1; "approve, but ..." asks for changes first
+const PRD_APPROVAL = /^\s*(approve|approved|lgtm)\s*[.!]?\s*$/i;
 
 export function createRalphLoopHook(ctx: PluginInput, options: RalphLoopOptions = {}) {
   const maxIterations = options.config?.default_max_iterations ?? 50;
   const isEnabled = options.config?.enabled !== false;
+  const prdGeneration = options.config?.prd_generation;
+  const pendingPrds = new Map<string, Promise<void>>();
+  const parallelStories = options.config?.parallel_stories;
+  const storyMerges = new Map<string, Set<Promise<void>>>();
 
   const getSisyphusDir = (): string => {
     return path.join(ctx.directory, ".omc");
@@ -89,8 +138,16 @@ export function createRalphLoopHook(ctx: PluginInput, options: RalphLoopOptions
         startedAt: new Date(persistedState.started_at).getTime(),
         mode: persistedState.prd_mode ? "ralph-loop" : "ralph-loop",
         prdPath: getPrdPath(),
+        // A generation cut off by a restart leaves the placeholder PRD to review
+        prdPhase: persistedState.prd_phase ? "awaiting_approval" : undefined,
+        storyTasks: new Map(),
+        failedStories: new Set(),
       };
 
+      if (persistedState.prd_phase && !readPrd()) {
+        writePrd(createPrdFromTask(persistedState.prompt));
+      }
+
       states.set(persistedState.session_id, state);
     }
   };
@@ -118,10 +175,11 @@ export function createRalphLoopHook(ctx: PluginInput, options: RalphLoopOptions
 
     const mode = opts?.mode ?? "ralph-loop";
 
-    let prd = readPrd();
-    if (!prd) {
-      prd = createPrdFromTask(prompt);
-      writePrd(prd);
+    // Without a PRD, agents draft one and iteration 1 waits for the user's approval
+    const hasPrd = readPrd() !== null;
+    const generatePrdFirst = !hasPrd && prdGeneration?.enabled !== false && options.manager !== undefined;
+    if (!hasPrd && !generatePrdFirst) {
+      writePrd(createPrdFromTask(prompt));
       log(`Created initial PRD`, { sessionID });
     }
     initializeProgress(ctx.directory, prompt);
@@ -136,6 +194,9 @@ export function createRalphLoopHook(ctx: PluginInput, options: RalphLoopOptions
       startedAt: Date.now(),
       mode,
       prdPath: getPrdPath(),
+      prdPhase: generatePrdFirst ? "generating" : undefined,
+      storyTasks: new Map(),
+      failedStories: new Set(),
     };
 
     states.set(sessionID, state);
@@ -147,7 +208,7 @@ export function createRalphLoopHook(ctx: PluginInput, options: RalphLoopOptions
       state.maxIterations,
       true // prd_mode
     );
-    writeRalphState(ctx.directory, persistedState);
+    writeRalphState(ctx.directory, { ...persistedState, prd_phase: state.prdPhase });
 
     options.onModeChange?.(sessionID, mode, prompt);
 
@@ -162,16 +223,145 @@ export function createRalphLoopHook(ctx: PluginInput, options: RalphLoopOptions
       .showToast({
         body: {
           title: mode === "ultrawork-ralph" ? "Ultrawork-Ralph Activated" : "Ralph Loop Started",
-          message: `Task: ${prompt.substring(0, 50)}...`,
+          message: generatePrdFirst
+            ? `Drafting the PRD for: ${prompt.substring(0, 50)}...`
+            : `Task: ${prompt.substring(0, 50)}...`,
           variant: "success" as const,
           duration: 3000,
         },
       })
       .catch(() => {});
 
+    if (generatePrdFirst) {
+      pendingPrds.set(sessionID, generateInitialPrd(state).finally(() => pendingPrds.delete(sessionID)));
+    }
+
     return true;
   };
 
+  const setPrdPhase = (state: RalphLoopState, phase: RalphLoopState["prdPhase"]): void => {
+    state.prdPhase = phase;
+    const persisted = readRalphState(ctx.directory);
+    if (persisted?.session_id === state.sessionID) {
+      writeRalphState(ctx.directory, { ...persisted, prd_phase: phase, last_activity_at: new Date().toISOString() });
+    }
+  };
+
+  /**
+   * Draft the PRD with the planner and reviewer agents, then post it for the user's approval.
+   * A failed draft falls back to the single-story placeholder PRD.
+   */
+  const generateInitialPrd = async (state: RalphLoopState): Promise<void> => {
+    const { sessionID } = state;
+    const planner = prdGeneration?.planner ?? "planner";
+    const result = await generatePrd(options.manager!, sessionID, state.prompt, {
+      planner,
+      reviewer: prdGeneration?.reviewer,
+      timeoutMs: prdGeneration?.timeout_ms,
+      checkNewWork: () => options.checkNewWork?.(sessionID, true),
+      onTask: (taskId) => {
+        state.prdTask = taskId;
+        // The review can start after the loop was cancelled
+        if (states.get(sessionID) !== state) options.manager?.cancelTask(taskId);
+      },
+    });
+    state.prdTask = undefined;
+
+    // Cancelled while the agents were working
+    if (states.get(sessionID) !== state) return;
+
+    const prd = "error" in result ? createPrdFromTask(state.prompt) : result.prd;
+    writePrd(prd);
+
+    let summary: string;
+    if ("error" in result) {
+      summary = `[PRD GENERATION FAILED] ${result.error}\nA single-story placeholder PRD was written to .omc/prd.json instead.`;
+    } else {
+      const review = result.reviewedBy
+        ? ` and ${result.reviewedBy} reviewed it`
+        : result.reviewError ? ` (the review failed: ${result.reviewError})` : "";
+      summary = `[PRD READY FOR REVIEW] ${planner} drafted .omc/prd.json${review}.`;
+    }
+
+    if (prdGeneration?.require_approval === false) {
+      setPrdPhase(state, undefined);
+      log(`Ralph loop PRD ready, starting without approval`, { sessionID, stories: prd.userStories.length });
+      await runIteration(sessionID, state);
+      return;
+    }
+
+    setPrdPhase(state, "awaiting_approval");
+    log(`Ralph loop PRD awaiting approval`, { sessionID, stories: prd.userStories.length });
+
+    try {
+      await ctx.client.session.prompt({
+        path: { id: sessionID },
+        body: {
+          noReply: true,
+          parts: [{
+            type: "text",
+            text: `<prd-review>
+${summary}
+
+${formatPrdOutline(prd)}
+
+Reply "approve" to start iteration 1. To change the plan first, edit .omc/prd.json or describe the changes, then reply "approve". /cancel-ralph stops the loop.
+</prd-review>`,
+          }],
+        },
+        query: { directory: ctx.directory },
+      });
+    } catch (err) {
+      log(`Failed to post PRD for review`, { sessionID, error: String(err) });
+    }
+
+    ctx.client.tui
+      .showToast({
+        body: {
+          title: "PRD Ready for Review",
+          message: `${prd.userStories.length} stories - reply "approve" to start`,
+          variant: "info" as const,
+          duration: 5000,
+        },
+      })
+      .catch(() => {});
+  };
+
+  /**
+   * Start iterating on the PRD as it is now, including the user's edits
+   */
+  const approvePrd = (sessionID: string): boolean => {
+    const state = states.get(sessionID);
+    if (state?.prdPhase !== "awaiting_approval") return false;
+
+    const prd = readPrd();
+    if (!prd) {
+      log(`Cannot approve: .omc/prd.json is missing or invalid`, { sessionID });
+      return false;
+    }
+
+    setPrdPhase(state, undefined);
+    log(`Ralph loop PRD approved`, { sessionID, stories: prd.userStories.length });
+    return true;
+  };
+
+  /**
+   * Wait for a PRD generation started by startLoop
+   */
+  const waitForPrd = async (sessionID: string): Promise<void> => {
+    await pendingPrds.get(sessionID);
+  };
+
+  const cancelStoryTasks = (state: RalphLoopState): void => {
+    for (const taskId of state.storyTasks.values()) {
+      options.manager?.cancelTask(taskId);
+    }
+  };
+
+  const cancelPrdTask = (state: RalphLoopState): void => {
+    if (state.prdTask) options.manager?.cancelTask(state.prdTask);
+  };
+
   const cancelLoop = (sessionID: string): boolean => {
     const state = states.get(sessionID);
     if (!state) {
@@ -180,6 +370,8 @@ export function createRalphLoopHook(ctx: PluginInput, options: RalphLoopOptions
     }
 
     states.delete(sessionID);
+    cancelStoryTasks(state);
+    cancelPrdTask(state);
 
     // Clear persisted state
     clearRalphState(ctx.directory);
@@ -212,112 +404,326 @@ export function createRalphLoopHook(ctx: PluginInput, options: RalphLoopOptions
     return null;
   };
 
+  /**
+   * End the loop as completed
+   */
+  const completeLoop = (sessionID: string): boolean => {
+    const state = states.get(sessionID);
+    if (!state) return false;
+
+    log(`Ralph loop completion detected`, { sessionID });
+    states.delete(sessionID);
+    cancelStoryTasks(state);
+
+    // Mark persisted state as complete
+    markRalphStateComplete(ctx.directory, {
+      active: false,
+      iteration: state.iteration,
+      max_iterations: state.maxIterations,
+      completion_promise: state.completionPromise,
+      started_at: new Date(state.startedAt).toISOString(),
+      prompt: state.prompt,
+      session_id: sessionID,
+      prd_mode: true,
+      current_story_id: null,
+      last_activity_at: new Date().toISOString(),
+    });
+
+    options.onModeChange?.(sessionID, null);
+
+    const duration = Date.now() - state.startedAt;
+    const minutes = Math.floor(duration / 60000);
+    const seconds = Math.floor((duration % 60000) / 1000);
+
+    ctx.client.tui
+      .showToast({
+        body: {
+          title: "Ralph Loop Completed!",
+          message: `Task finished in ${state.iteration} iterations (${minutes}m ${seconds}s)`,
+          variant: "success" as const,
+          duration: 5000,
+        },
+      })
+      .catch(() => {});
+
+    return true;
+  };
+
   const checkCompletionInContent = (content: string): boolean => {
     return (
       content.includes(COMPLETION_PROMISE) || content.includes(LEGACY_COMPLETION_PROMISE)
     );
   };
 
-  const event = async (input: {
-    event: { type: string; properties?: unknown };
-  }): Promise<void> => {
-    const { event } = input;
-    const props = event.properties as Record<string, unknown> | undefined;
+  /**
+   * Merge an executor's story result into prd.json. The story's criteria are checked on the
+   * next iteration like any other claim; a story the executor failed or gave up on is left to
+   * the session.
+   */
+  const mergeStoryResult = (state: RalphLoopState, storyId: string, task: BackgroundTask): void => {
+    state.storyTasks.delete(storyId);
+    const result = task.status === "completed" ? task.output as StoryResult | undefined : undefined;
+    if (!result?.passes) {
+      state.failedStories.add(storyId);
+      log(`Parallel story not completed, left to the session`, {
+        sessionID: state.sessionID,
+        storyId,
+        taskId: task.id,
+        status: task.status,
+        error: task.error,
+      });
+    }
+    if (!result) return;
 
-    if (event.type === "session.idle") {
-      const sessionID = props?.sessionID as string | undefined;
-      if (!sessionID) return;
+    updatePrd(ctx.directory, (prd) => {
+      const story = prd.userStories.find((s) => s.id === storyId);
+      if (!story) return false;
 
-      const state = states.get(sessionID);
-      if (!state || !state.isActive) return;
+      for (const { id, evidence } of result.criteria) {
+        const criterion = story.acceptanceCriteria.find((c) => c.id === id);
+        if (criterion) {
+          criterion.evidence = { ...criterion.evidence, ...evidence };
+        }
+      }
+      if (result.passes) {
+        story.passes = true;
+      }
+      story.notes = result.summary;
+      return true;
+    });
+    log(`Merged parallel story result`, { sessionID: state.sessionID, storyId, taskId: task.id, passes: result.passes });
+  };
 
-      state.iteration++;
+  /**
+   * ultrawork-ralph: the session keeps the highest-priority ready story, and other ready
+   * stories go to executor agents in the background, up to max_parallel at a time
+   */
+  const dispatchReadyStories = async (state: RalphLoopState, prd: PRD): Promise<void> => {
+    const manager = options.manager;
+    if (!manager || state.mode !== "ultrawork-ralph" || parallelStories?.enabled !== true) return;
+
+    const slots = (parallelStories?.max_parallel ?? 3) - state.storyTasks.size;
+    const candidates = getReadyStories(prd)
+      .filter((s) => !state.storyTasks.has(s.id) && !state.failedStories.has(s.id));
+    const stories = candidates.slice(1, 1 + Math.max(0, slots));
+    if (stories.length === 0) return;
+
+    const executor = parallelStories?.executor ?? "executor";
+    const schema = resolveOutputSchema("story-result");
+    if (!getAgent(executor) || "error" in schema) {
+      log(`Cannot dispatch parallel stories`, { sessionID: state.sessionID, executor });
+      return;
+    }
+    const timeoutMs = parallelStories?.timeout_ms ?? 30 * 60 * 1000;
+    const merges = storyMerges.get(state.sessionID) ?? new Set<Promise<void>>();
+    storyMerges.set(state.sessionID, merges);
+
+    for (const story of stories) {
+      const budgetViolation = options.checkNewWork?.(state.sessionID, true);
+      if (budgetViolation) {
+        // Ready stories are offered again next iteration
+        log(`Parallel stories held by session budget`, { sessionID: state.sessionID, limit: budgetViolation.limit });
+        return;
+      }
 
-      // Update persisted state
-      const prd = readPrd();
-      const nextStory = prd ? getNextStory(prd) : null;
-      updateRalphStateIteration(ctx.directory, {
-        active: true,
-        iteration: state.iteration,
-        max_iterations: state.maxIterations,
-        completion_promise: state.completionPromise,
-        started_at: new Date(state.startedAt).toISOString(),
-        prompt: state.prompt,
-        session_id: sessionID,
-        prd_mode: true,
-        current_story_id: nextStory?.id ?? null,
-        last_activity_at: new Date().toISOString(),
-      }, nextStory?.id);
-
-      if (state.iteration >= state.maxIterations) {
-        log(`Ralph loop max iterations reached`, {
-          sessionID,
-          iteration: state.iteration,
-        });
-        states.delete(sessionID);
-        clearRalphState(ctx.directory);
-        options.onModeChange?.(sessionID, null);
-
-        ctx.client.tui
-          .showToast({
-            body: {
-              title: "Ralph Loop Safety Limit",
-              message: `Max iterations (${state.maxIterations}) reached`,
-              variant: "warning" as const,
-              duration: 5000,
-            },
-          })
-          .catch(() => {});
+      let task: BackgroundTask;
+      try {
+        // The manager prepends the executor's system prompt
+        task = await manager.createTask(
+          state.sessionID,
+          `story ${story.id}: ${story.title}`,
+          `${generateParallelStoryPrompt(prd, story, state.prompt)}\n\n${formatSchemaInstructions(schema)}`,
+          executor,
+          undefined,
+          { timeoutMs, outputSchema: schema }
+        );
+      } catch (err) {
+        // Ready stories are offered again next iteration
+        log(`Failed to dispatch parallel story`, { sessionID: state.sessionID, storyId: story.id, error: String(err) });
         return;
       }
 
-      const prdStatus = prd ? getPrdStatus(prd) : null;
-      const progressContext = formatProgressContext(ctx.directory);
+      state.storyTasks.set(story.id, task.id);
+      // Tasks end at their own timeout, or when the loop cancels them
+      const merge: Promise<void> = manager.waitForTask(task.id, Number.POSITIVE_INFINITY)
+        .then((settled) => mergeStoryResult(state, story.id, settled))
+        .catch((err) => log(`Parallel story merge failed`, { storyId: story.id, error: String(err) }))
+        .finally(() => merges.delete(merge));
+      merges.add(merge);
+      log(`Dispatched parallel story`, { sessionID: state.sessionID, storyId: story.id, taskId: task.id });
+    }
+  };
 
-      log(`Ralph loop continuing`, {
+  /**
+   * Wait until the results of the stories dispatched so far are merged
+   */
+  const waitForStories = async (sessionID: string): Promise<void> => {
+    await Promise.all([...(storyMerges.get(sessionID) ?? [])]);
+  };
+
+  /**
+   * Advance the loop by one iteration and inject the continuation prompt
+   */
+  const runIteration = async (sessionID: string, state: RalphLoopState): Promise<void> => {
+    const budgetViolation = options.checkBudget?.(sessionID);
+    if (budgetViolation) {
+      log(`Ralph loop stopped by session budget`, {
         sessionID,
         iteration: state.iteration,
-        maxIterations: state.maxIterations,
-        incompleteStories: prdStatus?.remaining ?? 0,
+        limit: budgetViolation.limit,
       });
+      states.delete(sessionID);
+      cancelStoryTasks(state);
+      clearRalphState(ctx.directory);
+      options.onModeChange?.(sessionID, null);
+
+      ctx.client.tui
+        .showToast({
+          body: {
+            title: "Ralph Loop Stopped: Budget Exhausted",
+            message: budgetViolation.message,
+            variant: "warning" as const,
+            duration: 5000,
+          },
+        })
+        .catch(() => {});
+      return;
+    }
 
-      // Use varied continuation messages
-      const continuePrompt = getContinuationMessage({
-        completedCount: prdStatus?.completed ?? 0,
-        totalCount: prdStatus?.total ?? 1,
-        nextTask: nextStory ? `${nextStory.id} - ${nextStory.title}` : undefined,
+    state.iteration++;
+
+    // Stories marked as passing only count once every criterion is backed by evidence
+    const checks = await verifyClaimedStories(ctx.directory);
+    const reverted = checks.filter((c) => !c.passes).map((c) => c.storyId);
+
+    // Update persisted state
+    const prd = readPrd();
+    let nextStory = prd ? getNextStory(prd, [...state.storyTasks.keys()]) : null;
+    updateRalphStateIteration(ctx.directory, {
+      active: true,
+      iteration: state.iteration,
+      max_iterations: state.maxIterations,
+      completion_promise: state.completionPromise,
+      started_at: new Date(state.startedAt).toISOString(),
+      prompt: state.prompt,
+      session_id: sessionID,
+      prd_mode: true,
+      current_story_id: nextStory?.id ?? null,
+      last_activity_at: new Date().toISOString(),
+    }, nextStory?.id);
+
+    if (state.iteration >= state.maxIterations) {
+      log(`Ralph loop max iterations reached`, {
+        sessionID,
         iteration: state.iteration,
-        maxIterations: state.maxIterations,
-        mode: state.mode,
       });
+      states.delete(sessionID);
+      cancelStoryTasks(state);
+      clearRalphState(ctx.directory);
+      options.onModeChange?.(sessionID, null);
+
+      ctx.client.tui
+        .showToast({
+          body: {
+            title: "Ralph Loop Safety Limit",
+            message: `Max iterations (${state.maxIterations}) reached`,
+            variant: "warning" as const,
+            duration: 5000,
+          },
+        })
+        .catch(() => {});
+      return;
+    }
 
-      // Add PRD context
-      const prdContext = prd ? generateStoryContextPrompt(prd) : "";
-      const fullPrompt = `${continuePrompt}
+    if (prd) {
+      await dispatchReadyStories(state, prd);
+    }
+    const delegated = [...state.storyTasks.keys()];
+    nextStory = prd ? getNextStory(prd, delegated) : null;
+
+    const prdStatus = prd ? getPrdStatus(prd) : null;
+    const progressContext = formatProgressContext(ctx.directory);
+
+    log(`Ralph loop continuing`, {
+      sessionID,
+      iteration: state.iteration,
+      maxIterations: state.maxIterations,
+      incompleteStories: prdStatus?.remaining ?? 0,
+    });
+
+    // Use varied continuation messages
+    const continuePrompt = getContinuationMessage({
+      completedCount: prdStatus?.completed ?? 0,
+      totalCount: prdStatus?.total ?? 1,
+      nextTask: nextStory ? `${nextStory.id} - ${nextStory.title}` : undefined,
+      iteration: state.iteration,
+      maxIterations: state.maxIterations,
+      mode: state.mode,
+    });
+
+    // Add PRD context
+    const prdContext = prd ? generateStoryContextPrompt(prd, delegated) : "";
+    const parallelContext = delegated.length > 0
+      ? `### Parallel Stories
+Executor agents are implementing these stories in the background; leave them alone. Their results are merged into .omc/prd.json when they finish.
+${delegated.map((id) => `- ${id} (${state.storyTasks.get(id)})`).join("\n")}`
+      : "";
+    const outstanding = prd ? formatOutstandingCriteria(prd) : "";
+    const criteriaContext = outstanding
+      ? `### Outstanding Acceptance Criteria
+${reverted.length > 0 ? `Reverted to "passes": false: ${reverted.join(", ")}\n` : ""}${outstanding}`
+      : "";
+    const fullPrompt = `${continuePrompt}
 
 Original task: ${state.prompt}
 
 ${prdContext}
 
+${parallelContext}
+
+${criteriaContext}
+
 ${progressContext}
 
 **REMINDER**:
 - Check .omc/prd.json for user stories
-- Update story "passes" to true when complete
+- Record evidence for every acceptance criterion, then update story "passes" to true
 - Log learnings in .omc/progress.txt
 - Only output the promise tag when ALL stories pass`;
 
-      try {
-        await ctx.client.session.prompt({
-          path: { id: sessionID },
-          body: {
-            parts: [{ type: "text", text: fullPrompt }],
-          },
-          query: { directory: ctx.directory },
-        });
-      } catch (err) {
-        log(`Ralph loop injection failed`, { sessionID, error: String(err) });
-      }
+    try {
+      await ctx.client.session.prompt({
+        path: { id: sessionID },
+        body: {
+          parts: [{ type: "text", text: fullPrompt }],
+        },
+        query: { directory: ctx.directory },
+      });
+    } catch (err) {
+      log(`Ralph loop injection failed`, { sessionID, error: String(err) });
+    }
+  };
+
+  const event = async (input: {
+    event: { type: string; properties?: unknown };
+  }): Promise<void> => {
+    const { event } = input;
+    const props = event.properties as Record<string, unknown> | undefined;
+
+    if (event.type === "session.idle") {
+      const sessionID = props?.sessionID as string | undefined;
+      if (!sessionID) return;
+
+      const state = states.get(sessionID);
+      if (!state || !state.isActive) return;
+
+      // The verifier drives the session until it approves or rejects the claim
+      if (options.isVerificationPending?.(sessionID)) return;
+
+      // Iteration 1 waits for the generated PRD to be approved
+      if (state.prdPhase) return;
+
+      await runIteration(sessionID, state);
     }
 
     if (event.type === "message.updated" || event.type === "message.created") {
@@ -328,7 +734,7 @@ ${progressContext}
       if (!sessionID || role !== "assistant") return;
 
       const state = states.get(sessionID);
-      if (!state || !state.isActive) return;
+      if (!state || !state.isActive || state.prdPhase) return;
 
       try {
         const messagesResp = await ctx.client.session.messages({
@@ -349,40 +755,9 @@ ${progressContext}
           .map((p) => p.text)
           .join("\n");
 
-        if (checkCompletionInContent(content)) {
-          log(`Ralph loop completion detected`, { sessionID });
-          states.delete(sessionID);
-
-          // Mark persisted state as complete
-          markRalphStateComplete(ctx.directory, {
-            active: false,
-            iteration: state.iteration,
-            max_iterations: state.maxIterations,
-            completion_promise: state.completionPromise,
-            started_at: new Date(state.startedAt).toISOString(),
-            prompt: state.prompt,
-            session_id: sessionID,
-            prd_mode: true,
-            current_story_id: null,
-            last_activity_at: new Date().toISOString(),
-          });
-
-          options.onModeChange?.(sessionID, null);
-
-          const duration = Date.now() - state.startedAt;
-          const minutes = Math.floor(duration / 60000);
-          const seconds = Math.floor((duration % 60000) / 1000);
-
-          ctx.client.tui
-            .showToast({
-              body: {
-                title: "Ralph Loop Completed!",
-                message: `Task finished in ${state.iteration} iterations (${minutes}m ${seconds}s)`,
-                variant: "success" as const,
-                duration: 5000,
-              },
-            })
-            .catch(() => {});
+        // With a verifier, the loop ends when the claim is verified
+        if (checkCompletionInContent(content) && !options.isVerificationPending) {
+          completeLoop(sessionID);
         }
       } catch {
       }
@@ -391,9 +766,11 @@ ${progressContext}
     if (event.type === "session.deleted") {
       const sessionInfo = props?.info as { id?: string } | undefined;
       if (sessionInfo?.id) {
-        const hadState = states.has(sessionInfo.id);
+        const state = states.get(sessionInfo.id);
         states.delete(sessionInfo.id);
-        if (hadState) {
+        if (state) {
+          cancelStoryTasks(state);
+          cancelPrdTask(state);
           options.onModeChange?.(sessionInfo.id, null);
           log(`Ralph loop cleared on session delete`, { sessionID: sessionInfo.id });
         }
@@ -401,11 +778,56 @@ ${progressContext}
     }
   };
 
+  const chatMessage = async (
+    input: { sessionID: string },
+    output: { parts: Array<{ type: string; text?: string }> }
+  ): Promise<void> => {
+    const state = states.get(input.sessionID);
+    if (!state?.prdPhase) return;
+
+    if (state.prdPhase === "generating") {
+      output.parts.push({
+        type: "text",
+        text: `\n\n[PRD GENERATION IN PROGRESS]
+The planner is drafting .omc/prd.json for this task. Do not start implementing yet: acknowledge the task briefly and stop. The PRD will be posted for review, and work starts once the user approves it.`,
+      });
+      return;
+    }
+
+    const promptText = output.parts
+      ?.filter((p) => p.type === "text" && p.text)
+      .map((p) => p.text)
+      .join("\n")
+      .trim() || "";
+    if (!PRD_APPROVAL.test(promptText)) {
+      output.parts.push({
+        type: "text",
+        text: `\n\n[PRD AWAITING APPROVAL]
+Do not start implementing yet. Apply any changes the user asks for to .omc/prd.json, then ask them to reply "approve" to start iteration 1.`,
+      });
+      return;
+    }
+
+    output.parts.push({
+      type: "text",
+      text: approvePrd(input.sessionID)
+        ? `\n\n[PRD APPROVED]
+Begin iteration 1 with the highest-priority story in .omc/prd.json.`
+        : `\n\n[PRD APPROVAL FAILED]
+.omc/prd.json is missing or not valid JSON. Fix it, then ask the user to approve again.`,
+    });
+  };
+
   return {
     startLoop,
     cancelLoop,
+    completeLoop,
+    approvePrd,
+    waitForPrd,
+    waitForStories,
     getState,
     event,
+    "chat.message": chatMessage,
     readPrd,
     writePrd,
     checkCompletionInContent,
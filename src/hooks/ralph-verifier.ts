@@ -1,31 +1,114 @@
 import type { PluginInput } from "@opencode-ai/plugin";
 import { log } from "../shared/logger";
+import { getAgent } from "../agents";
+import { generateGroupId, type BackgroundManager, type BackgroundTask } from "../tools/background-manager";
+import { formatSchemaInstructions, resolveOutputSchema } from "../tools/output-schemas";
+import type { BudgetViolation } from "../tools/budget-guard";
 import {
   readVerificationState,
   writeVerificationState,
   clearVerificationState,
   createVerificationState,
   updateVerificationAttempt,
+  type ReviewerVerdict,
   type VerificationState,
 } from "../state/verification-state";
-import { readPrd, getPrdStatus } from "../prd/prd-manager";
+import { readPrd, getPrdStatus, formatOutstandingCriteria } from "../prd/prd-manager";
+import {
+  runVerificationCommands,
+  formatCommandEvidence,
+  type CommandEvidence,
+  type VerificationCommands,
+} from "../shared/verification-commands";
 
 const COMPLETION_PROMISE = "<promise>TASK_COMPLETE</promise>";
 const LEGACY_COMPLETION_PROMISE = "<promise>DONE</promise>";
 const ORACLE_APPROVED = "<oracle-approved>VERIFIED_COMPLETE</oracle-approved>";
 
+/**
+ * How a verification panel's verdicts combine:
+ * - unanimous: every reviewer must approve; a reviewer without a verdict blocks
+ * - majority: more than half of the panel must approve
+ * - any-reject-blocks: one explicit rejection blocks; reviewers without a verdict abstain
+ */
+export type QuorumRule = "unanimous" | "majority" | "any-reject-blocks";
+
+export interface VerificationPanelOptions {
+  /** Agents reviewing each claim in parallel, e.g. architect, code-reviewer, security-reviewer */
+  reviewers: string[];
+  /** Default unanimous */
+  quorum?: QuorumRule;
+  /** Per-reviewer timeout (default 10 minutes) */
+  timeoutMs?: number;
+}
+
 export interface RalphVerifierOptions {
   maxVerificationAttempts?: number;
   oracleModel?: string;
+  /** Review claims with a panel of background agents instead of an in-session Oracle */
+  panel?: VerificationPanelOptions;
+  /** Runs the panel's reviewers; required for `panel` */
+  manager?: BackgroundManager;
+  /** Budget check before each reviewer is launched */
+  checkNewWork?: (sessionID: string, background: boolean) => BudgetViolation | undefined;
+  /** Commands run before every verification; their results are the Oracle's evidence */
+  commands?: VerificationCommands;
+  commandTimeoutMs?: number;
+  maxOutputChars?: number;
+  /** Only claims in sessions for which this returns true are verified (default: all) */
+  isActive?: (sessionID: string) => boolean;
+  getOriginalTask?: (sessionID: string) => string | undefined;
   onVerified?: (sessionID: string) => void;
   onRejected?: (sessionID: string, feedback: string) => void;
 }
 
+/**
+ * Whether a panel's verdicts approve the claim under the quorum rule
+ */
+export function isQuorumApproved(verdicts: ReviewerVerdict[], rule: QuorumRule): boolean {
+  const approvals = verdicts.filter((v) => v.approved === true).length;
+  switch (rule) {
+    case "unanimous":
+      return verdicts.length > 0 && approvals === verdicts.length;
+    case "majority":
+      return approvals > verdicts.length / 2;
+    case "any-reject-blocks":
+      return approvals > 0 && !verdicts.some((v) => v.approved === false);
+  }
+}
+
+/**
+ * One section per reviewer, rejections first
+ */
+export function mergePanelFeedback(verdicts: ReviewerVerdict[]): string {
+  const order = (v: ReviewerVerdict) => (v.approved === false ? 0 : v.approved === null ? 1 : 2);
+  return [...verdicts]
+    .sort((a, b) => order(a) - order(b))
+    .map((v) => {
+      const status = v.approved === true ? "approved" : v.approved === false ? "rejected" : "no verdict";
+      const missing = v.missing?.length ? `\nMissing:\n${v.missing.map((m) => `- ${m}`).join("\n")}` : "";
+      return `### ${v.reviewer} (${status})\n${v.feedback}${missing}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Commands of the evidence that did not exit cleanly
+ */
+function failedCommands(evidence: CommandEvidence[] | undefined): CommandEvidence[] {
+  return (evidence ?? []).filter((e) => !e.passed);
+}
+
 export function createRalphVerifierHook(
   ctx: PluginInput,
   options: RalphVerifierOptions = {}
 ) {
   const maxAttempts = options.maxVerificationAttempts ?? 3;
+  // Messages whose claim or verdict was already handled (message.updated fires repeatedly)
+  const handledMessages = new Set<string>();
+  const inFlight = new Map<string, Promise<void>>();
+  // Rejection feedback sent but not yet answered, by session: the time it was sent
+  const pendingFeedback = new Map<string, number>();
 
   const checkForCompletionClaim = (content: string): string | null => {
     if (content.includes(COMPLETION_PROMISE)) {
@@ -54,15 +137,11 @@ export function createRalphVerifierHook(
     return null;
   };
 
-  const buildVerificationPrompt = (
+  const buildClaimContext = (
     state: VerificationState,
     prdContext: string
   ): string => {
-    return `[ORACLE VERIFICATION REQUEST]
-
-You are the Oracle, tasked with verifying task completion.
-
-## Original Task
+    return `## Original Task
 ${state.original_task}
 
 ## Completion Claim
@@ -71,11 +150,30 @@ ${state.completion_claim}
 ## PRD Status
 ${prdContext}
 
+## Verification Evidence
+The plugin ran these commands in the project directory after the claim was made:
+
+${formatCommandEvidence(state.evidence ?? [])}
+
 ## Verification Checklist
-1. Are ALL acceptance criteria in the PRD met?
-2. Is the implementation complete (not partial)?
-3. Are there any obvious errors or issues?
-4. Would this be considered "done" by professional standards?
+1. Does the evidence above support the claim? A failing build, test or lint command means the task is NOT complete.
+2. Are ALL acceptance criteria in the PRD met?
+3. Is the implementation complete (not partial)?
+4. Are there any obvious errors or issues?
+5. Would this be considered "done" by professional standards?
+
+Base your verdict on the evidence, not on the claim.`;
+  };
+
+  const buildVerificationPrompt = (
+    state: VerificationState,
+    prdContext: string
+  ): string => {
+    return `[ORACLE VERIFICATION REQUEST]
+
+You are the Oracle, tasked with verifying task completion.
+
+${buildClaimContext(state, prdContext)}
 
 ## Your Response
 If APPROVED, output exactly: ${ORACLE_APPROVED}
@@ -88,6 +186,80 @@ If REJECTED, output:
 Be thorough but fair. Only reject if there are genuine issues.`;
   };
 
+  const buildReviewerPrompt = (
+    reviewer: string,
+    reviewers: string[],
+    state: VerificationState,
+    prdContext: string
+  ): string => {
+    return `[VERIFICATION PANEL REVIEW]
+
+You are one of ${reviewers.length} reviewers (${reviewers.join(", ")}) verifying a completion claim. Review it from your own specialty as ${reviewer}; the other reviewers cover theirs.
+
+${buildClaimContext(state, prdContext)}`;
+  };
+
+  /**
+   * Spawn every reviewer as a background task and collect their verdicts
+   */
+  const runPanel = async (
+    sessionID: string,
+    state: VerificationState,
+    prdContext: string,
+    panel: VerificationPanelOptions,
+    manager: BackgroundManager
+  ): Promise<ReviewerVerdict[]> => {
+    const schema = resolveOutputSchema("verification");
+    if ("error" in schema) throw new Error(schema.error);
+
+    const timeoutMs = panel.timeoutMs ?? 10 * 60 * 1000;
+    const groupId = generateGroupId();
+    const launched: Array<{ reviewer: string; task?: BackgroundTask; error?: string }> = [];
+
+    for (const reviewer of panel.reviewers) {
+      // The manager prepends the agent's system prompt
+      if (!getAgent(reviewer)) {
+        launched.push({ reviewer, error: `Unknown agent: ${reviewer}` });
+        continue;
+      }
+      const budgetViolation = options.checkNewWork?.(sessionID, true);
+      if (budgetViolation) {
+        launched.push({ reviewer, error: budgetViolation.message });
+        continue;
+      }
+      const prompt = `${buildReviewerPrompt(reviewer, panel.reviewers, state, prdContext)}\n\n${formatSchemaInstructions(schema)}`;
+      try {
+        const task = await manager.createTask(sessionID, `verify completion: ${reviewer}`, prompt, reviewer, undefined, {
+          groupId,
+          timeoutMs,
+          outputSchema: schema,
+        });
+        launched.push({ reviewer, task });
+      } catch (err) {
+        launched.push({ reviewer, error: String(err) });
+      }
+    }
+
+    log(`Verification panel launched`, { sessionID, groupId, reviewers: panel.reviewers });
+    // Tasks abort themselves at timeoutMs; the margin lets them settle
+    await manager.waitForGroup(groupId, undefined, timeoutMs + 5000);
+
+    return launched.map(({ reviewer, task, error }): ReviewerVerdict => {
+      const settled = task && manager.getTask(task.id);
+      const output = settled?.status === "completed"
+        ? settled.output as { approved: boolean; feedback: string; missing?: string[] } | undefined
+        : undefined;
+      if (output) {
+        return { reviewer, approved: output.approved, feedback: output.feedback, missing: output.missing };
+      }
+      return {
+        reviewer,
+        approved: null,
+        feedback: `No verdict: ${error ?? settled?.error ?? `task ${settled?.status ?? "not started"}`}`,
+      };
+    });
+  };
+
   const spawnOracleVerification = async (
     sessionID: string,
     state: VerificationState
@@ -97,11 +269,38 @@ Be thorough but fair. Only reject if there are genuine issues.`;
       attempt: state.verification_attempts + 1,
     });
 
+    state.evidence = await runVerificationCommands(options.commands ?? {}, ctx.directory, {
+      timeoutMs: options.commandTimeoutMs,
+      maxOutputChars: options.maxOutputChars,
+    });
+    writeVerificationState(ctx.directory, state);
+
     const prd = readPrd(ctx.directory);
+    const outstanding = prd ? formatOutstandingCriteria(prd) : "";
     const prdContext = prd
-      ? `${getPrdStatus(prd).completed}/${getPrdStatus(prd).total} stories complete`
+      ? `${getPrdStatus(prd).completed}/${getPrdStatus(prd).total} stories complete${outstanding ? `\n\nOutstanding acceptance criteria:\n${outstanding}` : ""}`
       : "No PRD found";
 
+    if (options.panel?.reviewers.length && options.manager) {
+      const quorum = options.panel.quorum ?? "unanimous";
+      const verdicts = await runPanel(sessionID, state, prdContext, options.panel, options.manager);
+      state.panel_verdicts = verdicts;
+      writeVerificationState(ctx.directory, state);
+
+      const approved = isQuorumApproved(verdicts, quorum);
+      log(`Verification panel decided`, {
+        sessionID,
+        quorum,
+        approved,
+        verdicts: verdicts.map((v) => `${v.reviewer}:${v.approved}`),
+      });
+      await handleOracleVerdict(sessionID, {
+        approved,
+        feedback: `Verification panel (${quorum}) ${approved ? "approved" : "rejected"} the claim.\n\n${mergePanelFeedback(verdicts)}`,
+      });
+      return;
+    }
+
     const verificationPrompt = buildVerificationPrompt(state, prdContext);
 
     try {
@@ -130,10 +329,16 @@ Be thorough but fair. Only reject if there are genuine issues.`;
   ): Promise<void> => {
     let state = readVerificationState(ctx.directory);
 
-    if (!state) {
+    if (!state || state.session_id !== sessionID) {
       state = createVerificationState(sessionID, originalTask, claim, maxAttempts);
-      writeVerificationState(ctx.directory, state);
+    } else {
+      // A new claim after a rejection keeps the attempt count
+      state.pending = true;
+      state.completion_claim = claim;
+      state.evidence = undefined;
+      state.panel_verdicts = undefined;
     }
+    writeVerificationState(ctx.directory, state);
 
     if (state.verification_attempts >= state.max_verification_attempts) {
       log(`Max verification attempts reached, auto-approving`, { sessionID });
@@ -161,7 +366,22 @@ Be thorough but fair. Only reject if there are genuine issues.`;
     verdict: { approved: boolean; feedback: string }
   ): Promise<void> => {
     const state = readVerificationState(ctx.directory);
-    if (!state) return;
+    if (!state?.pending || state.session_id !== sessionID) return;
+
+    // An approval cannot outvote a failing command
+    const failed = failedCommands(state.evidence);
+    if (verdict.approved && failed.length > 0) {
+      log(`Oracle approval overridden by failing verification commands`, {
+        sessionID,
+        failed: failed.map((e) => e.name),
+      });
+      verdict = {
+        approved: false,
+        feedback: `The completion claim was approved, but these verification commands failed:\n${failed
+          .map((e) => `- ${e.name}: \`${e.command}\` exited ${e.exitCode ?? `without a code${e.timedOut ? " (timed out)" : ""}`}`)
+          .join("\n")}\n\nFix them before claiming completion again.`,
+      };
+    }
 
     updateVerificationAttempt(ctx.directory, state, verdict.feedback, verdict.approved);
 
@@ -182,6 +402,11 @@ Be thorough but fair. Only reject if there are genuine issues.`;
         .catch(() => {});
     } else {
       log(`Oracle rejected completion`, { sessionID, feedback: verdict.feedback });
+      // The next completion claim starts a new verification
+      state.pending = false;
+      writeVerificationState(ctx.directory, state);
+      // The feedback is the session's next prompt; no continuation until the session answers it
+      pendingFeedback.set(sessionID, Date.now());
       options.onRejected?.(sessionID, verdict.feedback);
 
       // Inject feedback as continuation prompt
@@ -204,6 +429,7 @@ Attempt ${state.verification_attempts}/${state.max_verification_attempts}`;
           query: { directory: ctx.directory },
         });
       } catch (err) {
+        pendingFeedback.delete(sessionID);
         log(`Failed to inject Oracle feedback`, {
           sessionID,
           error: String(err),
@@ -236,12 +462,21 @@ Attempt ${state.verification_attempts}/${state.max_verification_attempts}`;
 
       if (!sessionID || role !== "assistant") return;
 
+      // An assistant message started after the feedback answers it
+      const feedbackSentAt = pendingFeedback.get(sessionID);
+      const createdAt = (info?.time as { created?: number } | undefined)?.created;
+      if (feedbackSentAt !== undefined && (createdAt === undefined || createdAt >= feedbackSentAt)) {
+        pendingFeedback.delete(sessionID);
+      }
+
+      if (options.isActive && !options.isActive(sessionID)) return;
+
       try {
         const messagesResp = await ctx.client.session.messages({
           path: { id: sessionID },
         });
         const messages = (messagesResp.data ?? []) as Array<{
-          info?: { role?: string };
+          info?: { id?: string; role?: string };
           parts?: Array<{ type: string; text?: string }>;
         }>;
 
@@ -249,6 +484,7 @@ Attempt ${state.verification_attempts}/${state.max_verification_attempts}`;
           .reverse()
           .find((m) => m.info?.role === "assistant");
         if (!lastAssistant?.parts) return;
+        if (lastAssistant.info?.id && handledMessages.has(lastAssistant.info.id)) return;
 
         const content = lastAssistant.parts
           .filter((p) => p.type === "text" && p.text)
@@ -256,8 +492,10 @@ Attempt ${state.verification_attempts}/${state.max_verification_attempts}`;
           .join("\n");
 
         // Check for Oracle verdict first
-        const verdict = checkForOracleVerdict(content);
+        // A panel's verdict comes from its reviewers, not from the session
+        const verdict = options.panel && options.manager ? null : checkForOracleVerdict(content);
         if (verdict) {
+          if (lastAssistant.info?.id) handledMessages.add(lastAssistant.info.id);
           await handleOracleVerdict(sessionID, verdict);
           return;
         }
@@ -268,9 +506,13 @@ Attempt ${state.verification_attempts}/${state.max_verification_attempts}`;
           const state = readVerificationState(ctx.directory);
           // Only trigger verification if not already pending
           if (!state?.pending) {
-            // Extract original task from ralph state or use a default
-            const originalTask = "Complete the assigned task";
-            await handleCompletionClaim(sessionID, completionClaim, originalTask);
+            if (lastAssistant.info?.id) handledMessages.add(lastAssistant.info.id);
+            const originalTask = options.getOriginalTask?.(sessionID) ?? "Complete the assigned task";
+            // Commands can run for minutes; don't hold up the other event handlers
+            const verification = handleCompletionClaim(sessionID, completionClaim, originalTask)
+              .catch((err) => log(`Verification failed`, { sessionID, error: String(err) }))
+              .finally(() => inFlight.delete(sessionID));
+            inFlight.set(sessionID, verification);
           }
         }
       } catch (err) {
@@ -288,23 +530,37 @@ Attempt ${state.verification_attempts}/${state.max_verification_attempts}`;
         if (state?.session_id === sessionInfo.id) {
           clearVerificationState(ctx.directory);
         }
+        pendingFeedback.delete(sessionInfo.id);
       }
     }
   };
 
-  const isPendingVerification = (): boolean => {
+  /**
+   * A claim is being verified, or the session has not answered its rejection feedback yet
+   */
+  const isPendingVerification = (sessionID?: string): boolean => {
+    if (sessionID ? pendingFeedback.has(sessionID) : pendingFeedback.size > 0) return true;
     const state = readVerificationState(ctx.directory);
-    return state?.pending ?? false;
+    return (state?.pending ?? false) && (!sessionID || state?.session_id === sessionID);
+  };
+
+  /**
+   * Resolves once the commands of a session's current verification have run
+   */
+  const waitForVerification = async (sessionID: string): Promise<void> => {
+    await inFlight.get(sessionID);
   };
 
   const cancelVerification = (): void => {
     clearVerificationState(ctx.directory);
+    pendingFeedback.clear();
     log(`Verification cancelled`);
   };
 
   return {
     event,
     isPendingVerification,
+    waitForVerification,
     cancelVerification,
     checkForCompletionClaim,
     checkForOracleVerdict,
@@ -2,11 +2,17 @@ import type { Plugin, PluginInput } from "@opencode-ai/plugin";
 import { loadConfig } from "./config";
 import { createBackgroundManager } from "./tools/background-manager";
 import { createBackgroundTools } from "./tools/background-tools";
-import { createCallOmcoAgent } from "./tools/call-omco-agent";
+import { createCallOmcoAgent, createCallOmcoAgents } from "./tools/call-omco-agent";
 import { createTestAgentsTool } from "./tools/test-agents";
+import { createUsageTool } from "./tools/usage";
+import { createAgentTurnsTool } from "./tools/agent-turns";
+import { createModelHealthTool } from "./tools/model-health";
+import { createBudgetGuard } from "./tools/budget-guard";
+import { createComplexityRouter } from "./tools/complexity-router";
 import { createModelResolutionService } from "./tools/model-resolution-service";
 import { createConfigHandler } from "./plugin-handlers/config-handler";
 import { createRalphLoopHook } from "./hooks/ralph-loop";
+import { createRalphVerifierHook } from "./hooks/ralph-verifier";
 import { createPersistentModeHook, checkPersistentModes } from "./hooks/persistent-mode";
 import { createSystemPromptInjector, type ActiveMode } from "./hooks/system-prompt-injector";
 import { createRememberTagProcessor } from "./hooks/remember-tag-processor";
@@ -27,17 +33,51 @@ const OmoOmcsPlugin: Plugin = async (ctx: PluginInput) => {
   // Create model resolution service for tier-based model mapping
   const modelService = createModelResolutionService(
     pluginConfig.model_mapping,
-    pluginConfig.agents
+    pluginConfig.agents,
+    ctx.directory
   );
   
   if (modelService.isTierMappingConfigured()) {
     log("[omco] Model tier mapping configured - agents will use tier-specific models");
   }
 
-  const backgroundManager = createBackgroundManager(ctx, pluginConfig.background_task, modelService);
-  const backgroundTools = createBackgroundTools(backgroundManager, ctx.client);
-  const callOmcoAgent = createCallOmcoAgent(ctx, backgroundManager, modelService, pluginConfig.categories);
+  const backgroundManager = createBackgroundManager(
+    ctx,
+    pluginConfig.background_task,
+    modelService,
+    pluginConfig.agents
+  );
+  const budgetGuard = createBudgetGuard(
+    pluginConfig.budget,
+    pluginConfig.background_task?.pricing
+  );
+  const complexityRouter = createComplexityRouter(pluginConfig.routing, modelService, pluginConfig.agents);
+  const backgroundTools = createBackgroundTools(backgroundManager, ctx.client, budgetGuard);
+  const callOmcoAgent = createCallOmcoAgent(
+    ctx,
+    backgroundManager,
+    modelService,
+    pluginConfig.categories,
+    pluginConfig.agents,
+    budgetGuard,
+    complexityRouter
+  );
+  const callOmcoAgents = createCallOmcoAgents(
+    ctx,
+    backgroundManager,
+    modelService,
+    pluginConfig.categories,
+    pluginConfig.agents,
+    budgetGuard,
+    complexityRouter
+  );
   const testAgentsTool = createTestAgentsTool(ctx, backgroundManager);
+  const usageTool = createUsageTool(backgroundManager);
+  const agentTurnsTool = createAgentTurnsTool(ctx, backgroundManager);
+  const modelHealthTool = createModelHealthTool(
+    modelService.getModelHealth(),
+    pluginConfig.model_mapping?.alternates
+  );
 
   // Create system prompt injector for mode tracking
   const systemPromptInjector = createSystemPromptInjector(ctx);
@@ -45,9 +85,47 @@ const OmoOmcsPlugin: Plugin = async (ctx: PluginInput) => {
   // Create skill injector instance
   const skillInjector = createSkillInjector(ctx);
 
+  // Completion claims of ralph-loop and ultrawork-ralph sessions are checked against
+  // build/test/lint evidence before the loop may end
+  const verification = pluginConfig.ralph_loop?.verification;
+  const verificationEnabled = verification?.enabled !== false;
+  const ralphVerifier = createRalphVerifierHook(ctx, {
+    maxVerificationAttempts: verification?.max_attempts,
+    commands: {
+      build: verification?.build_command ?? pluginConfig.ultraqa?.buildCommand,
+      test: verification?.test_command ?? pluginConfig.ultraqa?.testCommand,
+      lint: verification?.lint_command ?? pluginConfig.ultraqa?.lintCommand,
+    },
+    commandTimeoutMs: verification?.command_timeout_ms,
+    maxOutputChars: verification?.max_output_chars,
+    panel: verification?.reviewers?.length
+      ? {
+        reviewers: verification.reviewers,
+        quorum: verification.quorum,
+        timeoutMs: verification.reviewer_timeout_ms,
+      }
+      : undefined,
+    manager: backgroundManager,
+    checkNewWork: budgetGuard.checkNewWork,
+    isActive: (sessionID) => {
+      const state = ralphLoop.getState(sessionID);
+      return state !== null && !state.prdPhase;
+    },
+    getOriginalTask: (sessionID) => ralphLoop.getState(sessionID)?.prompt,
+    onVerified: (sessionID) => {
+      ralphLoop.completeLoop(sessionID);
+    },
+  });
+
   // Create ralph loop hook with mode change callback
   const ralphLoop = createRalphLoopHook(ctx, {
     config: pluginConfig.ralph_loop,
+    checkBudget: budgetGuard.check,
+    checkNewWork: budgetGuard.checkNewWork,
+    manager: backgroundManager,
+    isVerificationPending: verificationEnabled
+      ? (sessionID) => ralphVerifier.isPendingVerification(sessionID)
+      : undefined,
     onModeChange: (sessionID: string, mode: ActiveMode | null, task?: string) => {
       if (mode) {
         systemPromptInjector.setMode(sessionID, mode, task);
@@ -113,8 +191,17 @@ const OmoOmcsPlugin: Plugin = async (ctx: PluginInput) => {
       const { event } = input;
       const props = event.properties as Record<string, unknown> | undefined;
 
+      // Capture streamed output from background task sessions
+      await backgroundManager.event(input);
+
+      // Track session spend before continuation hooks consult the budget
+      await budgetGuard.event(input);
+
       // Handle ralph loop events
       await ralphLoop.event(input);
+      if (verificationEnabled) {
+        await ralphVerifier.event(input);
+      }
 
       // Handle autopilot events
       await autopilot.event(input);
@@ -128,6 +215,7 @@ const OmoOmcsPlugin: Plugin = async (ctx: PluginInput) => {
         if (sessionID) {
           const result = await checkPersistentModes(ctx, sessionID, {
             injectNotepadContext: true,
+            checkBudget: budgetGuard.check,
           });
 
           if (result.shouldContinue && result.message) {
@@ -174,8 +262,14 @@ const OmoOmcsPlugin: Plugin = async (ctx: PluginInput) => {
           sessionID: input.sessionID,
         });
         ralphLoop.cancelLoop(input.sessionID);
+        if (ralphVerifier.isPendingVerification(input.sessionID)) {
+          ralphVerifier.cancelVerification();
+        }
       }
 
+      // Hold a new loop until its PRD is approved; "approve" starts iteration 1
+      await ralphLoop["chat.message"](input, output);
+
       // Detect and inject skills based on context
       const skillInjection = skillInjector.detectAndInject(input.sessionID, promptText);
       if (skillInjection.skill) {
@@ -202,6 +296,9 @@ const OmoOmcsPlugin: Plugin = async (ctx: PluginInput) => {
       input: { tool: string; sessionID: string; callID: string },
       output: { args: Record<string, unknown> }
     ): Promise<void> => {
+      // Track background task file writes; throws when conflictPolicy blocks the write
+      await backgroundManager["tool.execute.before"](input, output);
+
       // Block delegate_task in task tool to prevent infinite delegation loops
       if (input.tool === "task") {
         const tools = output.args?.tools as Record<string, boolean> | undefined;
@@ -221,6 +318,9 @@ const OmoOmcsPlugin: Plugin = async (ctx: PluginInput) => {
       input: { tool: string; sessionID: string; callID: string },
       output: { title: string; output: string; metadata: any }
     ): Promise<void> => {
+      // Record files written by background task sessions and report overlaps
+      await backgroundManager["tool.execute.after"](input, output);
+
       // Process remember tags
       await rememberTagProcessor["tool.execute.after"](input, output);
 
@@ -236,7 +336,11 @@ const OmoOmcsPlugin: Plugin = async (ctx: PluginInput) => {
     tool: {
       ...backgroundTools,
       call_omco_agent: callOmcoAgent,
+      call_omco_agents: callOmcoAgents,
       test_omco_agents: testAgentsTool,
+      omco_usage: usageTool,
+      omco_agent_turns: agentTurnsTool,
+      omco_model_health: modelHealthTool,
     },
   };
 };
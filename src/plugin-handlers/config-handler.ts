@@ -4,6 +4,13 @@ import { agents, type AgentDefinition } from "../agents";
 import { log } from "../shared/logger";
 import { ModelResolver, type AgentModelConfig } from "../config/model-resolver";
 import { getInvocableSkills } from '../skills/index.js';
+import {
+  buildToolPermissions,
+  getAvailableCategories,
+  getCategoryAgentName,
+  resolveCategoryConfig,
+  type CategoriesConfig,
+} from "../categories";
 
 // OpenCode Config types (from SDK)
 interface AgentConfig {
@@ -669,8 +676,17 @@ Create \`.omc/prd.json\` and \`.omc/progress.txt\` based on the task description
       "id": "US-001",
       "title": "[Short title]",
       "description": "As a [user], I want to [action] so that [benefit].",
-      "acceptanceCriteria": ["Criterion 1", "Typecheck passes"],
+      "acceptanceCriteria": [
+        { "id": "AC-1", "description": "Criterion 1", "status": "pending" },
+        {
+          "id": "AC-2",
+          "description": "Typecheck passes",
+          "status": "pending",
+          "assertion": { "type": "command", "command": "npx tsc --noEmit" }
+        }
+      ],
       "priority": 1,
+      "dependsOn": [],
       "passes": false
     }
   ]
@@ -692,8 +708,8 @@ Started: [ISO timestamp]
 ## Guidelines
 
 1. **Right-sized stories**: Each completable in one focused session
-2. **Verifiable criteria**: Include "Typecheck passes", "Tests pass"
-3. **Independent stories**: Minimize dependencies between stories
+2. **Verifiable criteria**: Include "Typecheck passes", "Tests pass"; give checkable criteria an \`assertion\` (\`command\` that must exit 0, or \`file_contains\` with \`path\` and regex \`pattern\`)
+3. **Independent stories**: Minimize dependencies between stories; list the story IDs a story needs in \`dependsOn\`. Independent ready stories can run in parallel in ultrawork-ralph (\`parallel_stories.enabled\`)
 4. **Priority order**: Foundational work (DB, types) before UI
 
 After creating files, report summary and suggest running \`/ralph-loop\` to start.
@@ -980,6 +996,30 @@ function buildSubagentConfigs(
   return result;
 }
 
+// Build agents for categories that need session-level settings (temperature, tool lists).
+// call_omco_agent prompts category sessions with these agents.
+function buildCategoryAgentConfigs(userCategories?: CategoriesConfig): Record<string, AgentConfig> {
+  const result: Record<string, AgentConfig> = {};
+
+  for (const name of getAvailableCategories(userCategories)) {
+    const resolved = resolveCategoryConfig(name, userCategories);
+    if (!resolved) continue;
+
+    const tools = buildToolPermissions(resolved.config.tools);
+    if (resolved.config.temperature === undefined && !tools) continue;
+
+    result[getCategoryAgentName(name)] = {
+      description: resolved.config.description ?? `Delegated ${name} tasks`,
+      mode: "subagent",
+      ...(resolved.model?.includes("/") && { model: resolved.model }),
+      ...(resolved.config.temperature !== undefined && { temperature: resolved.config.temperature }),
+      ...(tools && { tools }),
+    };
+  }
+
+  return result;
+}
+
 export interface ConfigHandlerDeps {
   ctx: PluginInput;
   pluginConfig: OmoOmcsConfig;
@@ -1022,6 +1062,12 @@ export function createConfigHandler(deps: ConfigHandlerDeps) {
       config.agent[name] = agentConfig;
     }
 
+    // Register category agents
+    const categoryAgentConfigs = buildCategoryAgentConfigs(pluginConfig.categories);
+    for (const [name, agentConfig] of Object.entries(categoryAgentConfigs)) {
+      config.agent[name] = agentConfig;
+    }
+
     // Initialize command config if not present
     if (!config.command) {
       config.command = {};
@@ -0,0 +1,118 @@
+import * as fs from "fs";
+import * as path from "path";
+import { log } from "../shared/logger";
+import { runVerificationCommand, type RunCommandsOptions } from "../shared/verification-commands";
+import {
+  readPrd,
+  updatePrd,
+  getOutstandingCriteria,
+  hasEvidence,
+  type AcceptanceCriterion,
+  type CriterionAssertion,
+} from "./prd-manager";
+
+export interface StoryCheckResult {
+  storyId: string;
+  /** False when the story was marked as passing but had to be reverted */
+  passes: boolean;
+  outstanding: AcceptanceCriterion[];
+}
+
+/**
+ * Evaluate a criterion's assertion in the project directory
+ */
+export async function checkAssertion(
+  assertion: CriterionAssertion,
+  projectDir: string,
+  options: RunCommandsOptions = {}
+): Promise<{ passed: boolean; output: string }> {
+  if (assertion.type === "command") {
+    const result = await runVerificationCommand("assertion", assertion.command, projectDir, options);
+    return {
+      passed: result.passed,
+      output: `\`${assertion.command}\` exited ${result.exitCode ?? "without a code"}${result.output ? `\n${result.output}` : ""}`,
+    };
+  }
+
+  const filePath = path.resolve(projectDir, assertion.path);
+  if (!fs.existsSync(filePath)) {
+    return { passed: false, output: `${assertion.path} does not exist` };
+  }
+  try {
+    const matched = new RegExp(assertion.pattern, "m").test(fs.readFileSync(filePath, "utf-8"));
+    return {
+      passed: matched,
+      output: `${assertion.path} ${matched ? "matches" : "does not match"} /${assertion.pattern}/`,
+    };
+  } catch (err) {
+    return { passed: false, output: `Could not check ${assertion.path}: ${String(err)}` };
+  }
+}
+
+/**
+ * Check every story marked as passing: run assertions that have not passed yet, then revert
+ * stories whose criteria are still outstanding. Criteria with evidence become met.
+ *
+ * Assertions run on a snapshot; their results are applied to a fresh read of the PRD, so
+ * results merged in the meantime are not lost.
+ */
+export async function verifyClaimedStories(
+  projectDir: string,
+  options: RunCommandsOptions = {}
+): Promise<StoryCheckResult[]> {
+  const snapshot = readPrd(projectDir);
+  if (!snapshot) return [];
+
+  const claimed = new Set(snapshot.userStories.filter((s) => s.passes).map((s) => s.id));
+  const checks = new Map<string, { passed: boolean; output: string; checkedAt: string }>();
+  for (const story of snapshot.userStories.filter((s) => claimed.has(s.id))) {
+    for (const criterion of story.acceptanceCriteria) {
+      if (!criterion.assertion || (criterion.status === "met" && criterion.checkedAt)) continue;
+
+      const result = await checkAssertion(criterion.assertion, projectDir, options);
+      checks.set(`${story.id}/${criterion.id}`, { ...result, checkedAt: new Date().toISOString() });
+    }
+  }
+
+  const results: StoryCheckResult[] = [];
+  updatePrd(projectDir, (prd) => {
+    let changed = false;
+
+    // Stories marked as passing since the snapshot are checked on the next call
+    for (const story of prd.userStories.filter((s) => s.passes && claimed.has(s.id))) {
+      for (const criterion of story.acceptanceCriteria) {
+        const check = checks.get(`${story.id}/${criterion.id}`);
+        if (!check) continue;
+
+        criterion.status = check.passed ? "met" : "failed";
+        criterion.evidence = { ...criterion.evidence, output: check.output };
+        criterion.checkedAt = check.checkedAt;
+        changed = true;
+      }
+
+      const outstanding = getOutstandingCriteria(story);
+      if (outstanding.length > 0) {
+        story.passes = false;
+        story.completedAt = undefined;
+        changed = true;
+        log(`Reverted story ${story.id}: acceptance criteria outstanding`, { outstanding: outstanding.map((c) => c.id) });
+      } else {
+        for (const criterion of story.acceptanceCriteria) {
+          if (criterion.status !== "met" && hasEvidence(criterion)) {
+            criterion.status = "met";
+            changed = true;
+          }
+        }
+        if (!story.completedAt) {
+          story.completedAt = new Date().toISOString();
+          changed = true;
+        }
+      }
+      results.push({ storyId: story.id, passes: story.passes, outstanding });
+    }
+
+    return changed;
+  });
+
+  return results;
+}
@@ -1,19 +1,35 @@
 export {
   type UserStory,
   type PRD,
+  type AcceptanceCriterion,
+  type CriterionAssertion,
+  type CriterionEvidence,
+  type CriterionStatus,
+  normalizeCriteria,
+  hasEvidence,
+  getOutstandingCriteria,
+  formatOutstandingCriteria,
+  formatPrdOutline,
   readPrd,
   writePrd,
+  updatePrd,
   createPrdFromTask,
   getIncompleteStories,
   getCompletedStories,
+  getReadyStories,
   getNextStory,
   markStoryComplete,
   addStory,
   getPrdStatus,
   formatPrdStatusMessage,
   generateStoryContextPrompt,
+  generateParallelStoryPrompt,
 } from "./prd-manager";
 
+export { type StoryCheckResult, checkAssertion, verifyClaimedStories } from "./criteria-checker";
+
+export { type PrdGenerationOptions, type PrdGenerationResult, generatePrd } from "./prd-generator";
+
 export {
   type IterationLog,
   type ProgressData,
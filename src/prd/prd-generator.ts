@@ -0,0 +1,189 @@
+/**
+ * PRD generation for ralph loops started without a prd.json
+ *
+ * The planner decomposes the task into prioritized user stories with acceptance criteria, and
+ * a reviewer (analyst by default) checks the draft for gaps and returns the revised PRD. Both
+ * run as background agents and answer with the `prd` output schema.
+ */
+
+import { log } from "../shared/logger";
+import { getAgent } from "../agents";
+import type { BackgroundManager, BackgroundTask } from "../tools/background-manager";
+import type { BudgetViolation } from "../tools/budget-guard";
+import { formatSchemaInstructions, resolveOutputSchema, type ResolvedOutputSchema } from "../tools/output-schemas";
+import { normalizeCriteria, type CriterionAssertion, type PRD } from "./prd-manager";
+
+export interface PrdGenerationOptions {
+  /** Agent drafting the PRD (default planner) */
+  planner?: string;
+  /** Agent reviewing the draft (default analyst); null skips the review */
+  reviewer?: string | null;
+  /** Per-agent timeout (default 10 minutes) */
+  timeoutMs?: number;
+  /** Budget check before each agent is launched */
+  checkNewWork?: () => BudgetViolation | undefined;
+  /** Called with each agent task once it is created, so the caller can cancel it */
+  onTask?: (taskId: string) => void;
+}
+
+export type PrdGenerationResult =
+  | { prd: PRD; reviewedBy?: string; reviewError?: string }
+  | { error: string };
+
+interface PrdDraft {
+  project: string;
+  description: string;
+  userStories: Array<{
+    id: string;
+    title: string;
+    description?: string;
+    priority: number;
+    dependsOn?: string[];
+    acceptanceCriteria: Array<{ description: string; assertion?: CriterionAssertion }>;
+  }>;
+}
+
+const GUIDELINES = `## PRD Guidelines
+- Split the work into small user stories that can each be implemented and verified in one iteration
+- Priority 1 is worked on first; foundations come before the stories that build on them
+- Use ids US-001, US-002, ... and give every story concrete, checkable acceptance criteria
+- List in "dependsOn" the IDs of stories that must be finished first; stories without dependencies between them can be implemented in parallel
+- Add an assertion where a criterion can be checked mechanically: {"type": "command", "command": "..."} must exit 0, {"type": "file_contains", "path": "...", "pattern": "<regex>"} must match
+- Include criteria for tests and type/lint checks where the project has them`;
+
+function buildDraftPrompt(task: string): string {
+  return `## Task
+Write the PRD for an autonomous implementation loop working on the task below. Explore the codebase as needed, but do not implement anything and do not ask clarifying questions: make reasonable assumptions and state them in the story descriptions.
+
+<user-task>
+${task}
+</user-task>
+
+${GUIDELINES}`;
+}
+
+function buildReviewPrompt(task: string, draft: PrdDraft, planner: string): string {
+  return `## Task
+Review the PRD the ${planner} agent drafted for the task below before an autonomous implementation loop starts working on it. Check the codebase where needed.
+
+<user-task>
+${task}
+</user-task>
+
+## Draft PRD
+\`\`\`json
+${JSON.stringify(draft, null, 2)}
+\`\`\`
+
+Look for requirements of the task that no story covers, stories too large for one iteration, vague or untestable acceptance criteria, missing assertions, wrong priorities and missing or circular dependencies. Answer with the complete revised PRD; return it unchanged if it needs no changes.
+
+${GUIDELINES}`;
+}
+
+async function runPrdAgent(
+  manager: BackgroundManager,
+  parentSessionID: string,
+  agentName: string,
+  prompt: string,
+  schema: ResolvedOutputSchema,
+  timeoutMs: number,
+  options: PrdGenerationOptions
+): Promise<PrdDraft> {
+  if (!getAgent(agentName)) throw new Error(`Unknown agent: ${agentName}`);
+  const budgetViolation = options.checkNewWork?.();
+  if (budgetViolation) throw new Error(budgetViolation.message);
+
+  // The manager prepends the agent's system prompt
+  const task = await manager.createTask(
+    parentSessionID,
+    `generate PRD: ${agentName}`,
+    `${prompt}\n\n${formatSchemaInstructions(schema)}`,
+    agentName,
+    undefined,
+    { timeoutMs, outputSchema: schema }
+  );
+  options.onTask?.(task.id);
+
+  // The task aborts itself at timeoutMs once it runs; while it is still queued only this
+  // wait bounds it, so a task given up on is cancelled rather than left holding a slot
+  let settled: BackgroundTask;
+  try {
+    settled = await manager.waitForTask(task.id, timeoutMs + 5000);
+  } catch (err) {
+    manager.cancelTask(task.id);
+    throw err;
+  }
+  if (settled.status !== "completed" || !settled.output) {
+    throw new Error(`${agentName} task ${settled.status}${settled.error ? `: ${settled.error}` : ""}`);
+  }
+  return settled.output as PrdDraft;
+}
+
+function toPrd(draft: PrdDraft): PRD {
+  const now = new Date().toISOString();
+  return {
+    project: draft.project,
+    description: draft.description,
+    userStories: [...draft.userStories]
+      .sort((a, b) => a.priority - b.priority)
+      .map((story) => ({
+        id: story.id,
+        title: story.title,
+        description: story.description,
+        acceptanceCriteria: normalizeCriteria(story.acceptanceCriteria),
+        priority: story.priority,
+        dependsOn: story.dependsOn?.length ? story.dependsOn : undefined,
+        passes: false,
+      })),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Draft a PRD for the task with the planner and have the reviewer revise it. A failed review
+ * keeps the draft; only a failed draft is an error.
+ */
+export async function generatePrd(
+  manager: BackgroundManager,
+  parentSessionID: string,
+  task: string,
+  options: PrdGenerationOptions = {}
+): Promise<PrdGenerationResult> {
+  const schema = resolveOutputSchema("prd");
+  if ("error" in schema) return { error: schema.error };
+
+  const planner = options.planner ?? "planner";
+  const reviewer = options.reviewer === undefined ? "analyst" : options.reviewer;
+  const timeoutMs = options.timeoutMs ?? 10 * 60 * 1000;
+
+  let draft: PrdDraft;
+  try {
+    draft = await runPrdAgent(manager, parentSessionID, planner, buildDraftPrompt(task), schema, timeoutMs, options);
+  } catch (err) {
+    log(`PRD draft failed`, { parentSessionID, planner, error: String(err) });
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+  log(`PRD drafted`, { parentSessionID, planner, stories: draft.userStories.length });
+
+  if (!reviewer) {
+    return { prd: toPrd(draft) };
+  }
+
+  try {
+    const reviewed = await runPrdAgent(
+      manager,
+      parentSessionID,
+      reviewer,
+      buildReviewPrompt(task, draft, planner),
+      schema,
+      timeoutMs,
+      options
+    );
+    log(`PRD reviewed`, { parentSessionID, reviewer, stories: reviewed.userStories.length });
+    return { prd: toPrd(reviewed), reviewedBy: reviewer };
+  } catch (err) {
+    log(`PRD review failed, keeping the draft`, { parentSessionID, reviewer, error: String(err) });
+    return { prd: toPrd(draft), reviewError: err instanceof Error ? err.message : String(err) };
+  }
+}
@@ -2,12 +2,45 @@ import * as fs from "fs";
 import * as path from "path";
 import { log } from "../shared/logger";
 
+export type CriterionStatus = "pending" | "met" | "failed";
+
+/**
+ * Machine-checkable condition of a criterion, checked by the ralph loop when its story is
+ * marked as passing
+ */
+export type CriterionAssertion =
+  /** Shell command run in the project directory that must exit 0 */
+  | { type: "command"; command: string }
+  /** File (relative to the project directory) whose content must match the regex pattern */
+  | { type: "file_contains"; path: string; pattern: string };
+
+export interface CriterionEvidence {
+  /** Files that implement or demonstrate the criterion */
+  files?: string[];
+  /** Tests that cover it */
+  tests?: string[];
+  /** Command output, e.g. from the assertion or a test run */
+  output?: string;
+  note?: string;
+}
+
+export interface AcceptanceCriterion {
+  id: string;
+  description: string;
+  status: CriterionStatus;
+  evidence?: CriterionEvidence;
+  assertion?: CriterionAssertion;
+  checkedAt?: string;
+}
+
 export interface UserStory {
   id: string;
   title: string;
   description?: string;
-  acceptanceCriteria: string[];
+  acceptanceCriteria: AcceptanceCriterion[];
   priority: number;
+  /** Story IDs that must pass before this story is ready */
+  dependsOn?: string[];
   passes: boolean;
   notes?: string;
   completedAt?: string;
@@ -38,6 +71,80 @@ function ensureDir(dir: string): void {
   }
 }
 
+/**
+ * Criteria used to be plain strings; they become pending criteria without evidence
+ */
+export function normalizeCriteria(criteria: Array<string | Partial<AcceptanceCriterion>> | undefined): AcceptanceCriterion[] {
+  return (criteria ?? []).map((criterion, i) => {
+    if (typeof criterion === "string") {
+      return { id: `AC-${i + 1}`, description: criterion, status: "pending" };
+    }
+    return {
+      ...criterion,
+      id: criterion.id ?? `AC-${i + 1}`,
+      description: criterion.description ?? "",
+      status: criterion.status ?? "pending",
+    };
+  });
+}
+
+export function hasEvidence(criterion: AcceptanceCriterion): boolean {
+  const evidence = criterion.evidence;
+  return !!evidence && (
+    (evidence.files?.length ?? 0) > 0 ||
+    (evidence.tests?.length ?? 0) > 0 ||
+    !!evidence.output?.trim() ||
+    !!evidence.note?.trim()
+  );
+}
+
+/**
+ * Criteria that keep a story from passing: no evidence yet, failed, or an assertion that has
+ * not been checked successfully
+ */
+export function getOutstandingCriteria(story: UserStory): AcceptanceCriterion[] {
+  return story.acceptanceCriteria.filter((c) =>
+    !hasEvidence(c) || c.status === "failed" || (c.assertion !== undefined && c.status !== "met"));
+}
+
+function formatAssertion(criterion: AcceptanceCriterion): string {
+  return criterion.assertion?.type === "command"
+    ? ` (must pass: \`${criterion.assertion.command}\`)`
+    : criterion.assertion?.type === "file_contains"
+      ? ` (${criterion.assertion.path} must match /${criterion.assertion.pattern}/)`
+      : "";
+}
+
+function formatCriterion(criterion: AcceptanceCriterion): string {
+  const mark = criterion.status === "met" ? "[x]" : criterion.status === "failed" ? "[!]" : "[ ]";
+  const evidence = hasEvidence(criterion) ? "" : " - needs evidence";
+  return `${mark} ${criterion.id}: ${criterion.description}${formatAssertion(criterion)}${evidence}`;
+}
+
+/**
+ * Outstanding criteria of every story, one line each; empty when none are outstanding
+ */
+export function formatOutstandingCriteria(prd: PRD): string {
+  return prd.userStories
+    .flatMap((story) => getOutstandingCriteria(story).map((c) => `- ${story.id} ${formatCriterion(c)}`))
+    .join("\n");
+}
+
+/**
+ * Every story by priority with its criteria, for reviewing a PRD before work starts
+ */
+export function formatPrdOutline(prd: PRD): string {
+  const stories = [...prd.userStories].sort((a, b) => a.priority - b.priority);
+  const lines = stories.map((story) => {
+    const criteria = story.acceptanceCriteria
+      .map((c) => `  - ${c.id}: ${c.description}${formatAssertion(c)}`)
+      .join("\n");
+    const dependsOn = story.dependsOn?.length ? ` (depends on ${story.dependsOn.join(", ")})` : "";
+    return `- **${story.id}** (priority ${story.priority}) ${story.title}${dependsOn}${story.description ? `\n  ${story.description}` : ""}\n${criteria}`;
+  });
+  return `**${prd.project}**: ${prd.description}\n\n${lines.join("\n")}`;
+}
+
 export function readPrd(projectDir: string): PRD | null {
   const prdPath = getPrdPath(projectDir);
 
@@ -45,6 +152,9 @@ export function readPrd(projectDir: string): PRD | null {
     try {
       const content = fs.readFileSync(prdPath, "utf-8");
       const prd = JSON.parse(content) as PRD;
+      for (const story of prd.userStories) {
+        story.acceptanceCriteria = normalizeCriteria(story.acceptanceCriteria);
+      }
       log(`Read PRD`, {
         project: prd.project,
         stories: prd.userStories.length,
@@ -68,12 +178,31 @@ export function writePrd(projectDir: string, prd: PRD): void {
     prd.createdAt = prd.updatedAt;
   }
 
+  // Written to a temp file and renamed, so readers never see a partial PRD
+  const tempPath = `${prdPath}.${process.pid}.tmp`;
   try {
-    fs.writeFileSync(prdPath, JSON.stringify(prd, null, 2));
+    fs.writeFileSync(tempPath, JSON.stringify(prd, null, 2));
+    fs.renameSync(tempPath, prdPath);
     log(`Wrote PRD`, { project: prd.project, stories: prd.userStories.length });
   } catch (err) {
     log(`Failed to write PRD`, { error: String(err) });
+    fs.rmSync(tempPath, { force: true });
+  }
+}
+
+/**
+ * Re-read the PRD, apply `update` and write it back in one synchronous step, so changes merged
+ * from parallel agents don't overwrite each other or the session's edits. Returning false from
+ * `update` skips the write.
+ */
+export function updatePrd(projectDir: string, update: (prd: PRD) => boolean | void): PRD | null {
+  const prd = readPrd(projectDir);
+  if (!prd) return null;
+
+  if (update(prd) !== false) {
+    writePrd(projectDir, prd);
   }
+  return prd;
 }
 
 export function createPrdFromTask(task: string, projectName?: string): PRD {
@@ -85,12 +214,12 @@ export function createPrdFromTask(task: string, projectName?: string): PRD {
         id: "US-001",
         title: "Complete the requested task",
         description: task,
-        acceptanceCriteria: [
+        acceptanceCriteria: normalizeCriteria([
           "Task is fully implemented",
           "All tests pass (if applicable)",
           "No errors or warnings",
           "Code is production-ready",
-        ],
+        ]),
         priority: 1,
         passes: false,
       },
@@ -110,11 +239,31 @@ export function getCompletedStories(prd: PRD): UserStory[] {
   return prd.userStories.filter((s) => s.passes);
 }
 
-export function getNextStory(prd: PRD): UserStory | null {
-  const incomplete = getIncompleteStories(prd);
-  return incomplete.length > 0 ? incomplete[0] : null;
+/**
+ * Incomplete stories whose dependencies all pass, by priority. IDs of stories that are not in
+ * the PRD don't block.
+ */
+export function getReadyStories(prd: PRD): UserStory[] {
+  const known = new Set(prd.userStories.map((s) => s.id));
+  const passing = new Set(getCompletedStories(prd).map((s) => s.id));
+  return getIncompleteStories(prd)
+    .filter((story) => (story.dependsOn ?? []).every((id) => passing.has(id) || !known.has(id)));
 }
 
+/**
+ * Highest-priority ready story, skipping the given story IDs (e.g. stories delegated to
+ * parallel agents). A dependency cycle leaves no story ready; the priority order is used then.
+ */
+export function getNextStory(prd: PRD, skip: string[] = []): UserStory | null {
+  const ready = getReadyStories(prd);
+  const candidates = ready.length > 0 ? ready : getIncompleteStories(prd);
+  return candidates.find((story) => !skip.includes(story.id)) ?? null;
+}
+
+/**
+ * Mark a story as passing. Refused while any criterion is outstanding (see
+ * getOutstandingCriteria); criteria with evidence are marked as met.
+ */
 export function markStoryComplete(
   projectDir: string,
   storyId: string,
@@ -126,6 +275,15 @@ export function markStoryComplete(
   const story = prd.userStories.find((s) => s.id === storyId);
   if (!story) return false;
 
+  const outstanding = getOutstandingCriteria(story);
+  if (outstanding.length > 0) {
+    log(`Refused to mark story ${storyId} as complete`, { outstanding: outstanding.map((c) => c.id) });
+    return false;
+  }
+
+  for (const criterion of story.acceptanceCriteria) {
+    criterion.status = "met";
+  }
   story.passes = true;
   story.completedAt = new Date().toISOString();
   if (notes) {
@@ -152,6 +310,7 @@ export function addStory(projectDir: string, story: UserStory): boolean {
     story.id = `US-${String(counter).padStart(3, "0")}`;
   }
 
+  story.acceptanceCriteria = normalizeCriteria(story.acceptanceCriteria);
   prd.userStories.push(story);
   writePrd(projectDir, prd);
   log(`Added story ${story.id}: ${story.title}`);
@@ -184,8 +343,8 @@ export function formatPrdStatusMessage(prd: PRD): string {
     message += `\nNext story: ${nextStory.id} - ${nextStory.title}`;
     if (nextStory.acceptanceCriteria.length > 0) {
       message += `\nAcceptance criteria:`;
-      nextStory.acceptanceCriteria.forEach((c, i) => {
-        message += `\n  ${i + 1}. ${c}`;
+      nextStory.acceptanceCriteria.forEach((c) => {
+        message += `\n  ${formatCriterion(c)}`;
       });
     }
   }
@@ -193,8 +352,11 @@ export function formatPrdStatusMessage(prd: PRD): string {
   return message;
 }
 
-export function generateStoryContextPrompt(prd: PRD): string {
-  const nextStory = getNextStory(prd);
+export function generateStoryContextPrompt(prd: PRD, skip: string[] = []): string {
+  const nextStory = getNextStory(prd, skip);
+  if (!nextStory && getIncompleteStories(prd).length > 0) {
+    return `Every ready story is being implemented in parallel (${skip.join(", ")}). Wait for their results and review them; the remaining stories become ready once their dependencies pass. Do not output the completion promise yet.`;
+  }
   if (!nextStory) {
     return "All stories are complete! Verify everything works and output the completion promise.";
   }
@@ -211,12 +373,33 @@ export function generateStoryContextPrompt(prd: PRD): string {
 ${nextStory.description || ""}
 
 **Acceptance Criteria**:
-${nextStory.acceptanceCriteria.map((c, i) => `${i + 1}. ${c}`).join("\n")}
+${nextStory.acceptanceCriteria.map(formatCriterion).join("\n")}
 
 ---
 
 When this story is complete:
-1. Update .omc/prd.json to set "passes": true for ${nextStory.id}
-2. Add any learnings to .omc/progress.txt
-3. Move to the next story or output completion promise if all done`;
+1. In .omc/prd.json, give every criterion of ${nextStory.id} its "evidence": { "files": [...], "tests": [...], "output": "...", "note": "..." }
+2. Set "passes": true for ${nextStory.id}; it is reverted while any criterion lacks evidence or its assertion fails
+3. Add any learnings to .omc/progress.txt
+4. Move to the next story or output completion promise if all done`;
+}
+
+/**
+ * Prompt for an agent implementing one story in parallel with the session and other agents
+ */
+export function generateParallelStoryPrompt(prd: PRD, story: UserStory, task: string): string {
+  return `## Task
+Implement one user story of the PRD below. Other agents are implementing other stories at the same time: change only what this story needs, and do not edit .omc/prd.json; your result is merged into it.
+
+**Original task**: ${task}
+**Project**: ${prd.project} - ${prd.description}
+
+### ${story.id} - ${story.title}
+
+${story.description || ""}
+
+**Acceptance Criteria**:
+${story.acceptanceCriteria.map(formatCriterion).join("\n")}
+
+Check every criterion yourself, running the tests and commands it names. Report "passes": true only when all criteria are met, with evidence for each criterion ID: the files that implement it, the tests that cover it, command output or a note.`;
 }
@@ -22,7 +22,7 @@ This mode OVERRIDES default heuristics. Where default mode says "parallelize whe
 - Don't wait when you can parallelize
 - Use background execution for ALL operations that support it
 - Maximum throughput is the only goal
-- Launch 3-5 agents in parallel when possible
+- Launch 3-5 agents in parallel when possible - one \`call_omco_agents\` call launches a whole batch
 
 ### 2. DELEGATE AGGRESSIVELY
 Route tasks to specialists IMMEDIATELY - don't do it yourself:
@@ -86,7 +86,7 @@ If \`.omc/prd.json\` exists:
 1. Read the PRD file to understand all user stories
 2. Read \`.omc/progress.txt\` for learnings
 3. Work on highest priority story where \`passes: false\`
-4. Mark \`passes: true\` when story is complete
+4. Record \`evidence\` (files, tests, command output) for every criterion, then mark \`passes: true\`
 5. Update progress.txt with learnings
 6. Repeat until ALL stories pass
 
@@ -99,8 +99,17 @@ If no PRD exists, create one:
     {
       "id": "US-001",
       "title": "[Short title]",
-      "acceptanceCriteria": ["Criterion 1", "Typecheck passes"],
+      "acceptanceCriteria": [
+        { "id": "AC-1", "description": "Criterion 1", "status": "pending" },
+        {
+          "id": "AC-2",
+          "description": "Typecheck passes",
+          "status": "pending",
+          "assertion": { "type": "command", "command": "npx tsc --noEmit" }
+        }
+      ],
       "priority": 1,
+      "dependsOn": [],
       "passes": false
     }
   ]
@@ -170,7 +179,7 @@ The \`<promise>TASK_COMPLETE</promise>\` tag binds you to completion. You may ON
 ### 1. PARALLEL EVERYTHING
 - Fire off MULTIPLE agents simultaneously
 - Use background execution for ALL operations
-- Launch 3-5 agents in parallel when possible
+- Launch 3-5 agents in parallel when possible - one \`call_omco_agents\` call launches a whole batch
 - Maximum throughput is the only goal
 
 ### 2. DELEGATE AGGRESSIVELY
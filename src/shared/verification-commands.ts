@@ -0,0 +1,125 @@
+/**
+ * Build/test/lint commands run as verification evidence
+ *
+ * Completion claims are checked against what the commands actually report instead of the
+ * model's word: each command's exit code and the tail of its output are attached to the
+ * verification prompt.
+ */
+
+import { exec } from "child_process";
+import { promisify } from "util";
+import { log } from "./logger";
+
+const execAsync = promisify(exec);
+
+export type VerificationCommandName = "build" | "test" | "lint";
+
+export type VerificationCommands = Partial<Record<VerificationCommandName, string>>;
+
+export interface CommandEvidence {
+  /** build, test, lint, or the label of an ad-hoc check */
+  name: string;
+  command: string;
+  /** Null when the command was killed (timeout) before exiting */
+  exitCode: number | null;
+  passed: boolean;
+  /** Combined stdout/stderr, keeping the tail when longer than maxOutputChars */
+  output: string;
+  truncated: boolean;
+  timedOut: boolean;
+  durationMs: number;
+}
+
+export interface RunCommandsOptions {
+  /** Per-command timeout (default 5 minutes) */
+  timeoutMs?: number;
+  /** Output characters kept per command (default 4000) */
+  maxOutputChars?: number;
+}
+
+const COMMAND_ORDER: VerificationCommandName[] = ["build", "test", "lint"];
+
+function truncateTail(output: string, maxChars: number): { output: string; truncated: boolean } {
+  if (output.length <= maxChars) return { output, truncated: false };
+  return { output: output.slice(-maxChars), truncated: true };
+}
+
+/**
+ * Run one shell command in the project directory and capture its outcome
+ */
+export async function runVerificationCommand(
+  name: string,
+  command: string,
+  directory: string,
+  options: RunCommandsOptions = {}
+): Promise<CommandEvidence> {
+  const timeoutMs = options.timeoutMs ?? 5 * 60 * 1000;
+  const maxOutputChars = options.maxOutputChars ?? 4000;
+  const startedAt = Date.now();
+
+  let exitCode: number | null = 0;
+  let timedOut = false;
+  let raw: string;
+
+  try {
+    const { stdout, stderr } = await execAsync(command, { cwd: directory, timeout: timeoutMs, maxBuffer: 20 * 1024 * 1024 });
+    raw = [stdout, stderr].filter(Boolean).join("\n");
+  } catch (err) {
+    const failure = err as { code?: number | string; killed?: boolean; stdout?: string; stderr?: string; message?: string };
+    timedOut = failure.killed === true;
+    exitCode = typeof failure.code === "number" ? failure.code : timedOut ? null : 1;
+    raw = [failure.stdout, failure.stderr].filter(Boolean).join("\n") || (failure.message ?? String(err));
+    if (timedOut) raw += `\n[killed after ${timeoutMs}ms]`;
+  }
+
+  const { output, truncated } = truncateTail(raw.trim(), maxOutputChars);
+  const evidence: CommandEvidence = {
+    name,
+    command,
+    exitCode,
+    passed: exitCode === 0,
+    output,
+    truncated,
+    timedOut,
+    durationMs: Date.now() - startedAt,
+  };
+
+  log(`[verification] ${name} command finished`, { command, exitCode, timedOut, durationMs: evidence.durationMs });
+  return evidence;
+}
+
+/**
+ * Run the configured commands one after another, in build, test, lint order
+ */
+export async function runVerificationCommands(
+  commands: VerificationCommands,
+  directory: string,
+  options: RunCommandsOptions = {}
+): Promise<CommandEvidence[]> {
+  const evidence: CommandEvidence[] = [];
+  for (const name of COMMAND_ORDER) {
+    const command = commands[name]?.trim();
+    if (command) {
+      evidence.push(await runVerificationCommand(name, command, directory, options));
+    }
+  }
+  return evidence;
+}
+
+/**
+ * Markdown section listing each command's exit code and output
+ */
+export function formatCommandEvidence(evidence: CommandEvidence[]): string {
+  if (evidence.length === 0) {
+    return "No build/test/lint commands are configured; no command evidence was collected.";
+  }
+
+  return evidence.map((e) => {
+    const status = e.timedOut ? "TIMED OUT" : e.passed ? "PASS" : "FAIL";
+    const header = `### ${e.name}: \`${e.command}\` - exit ${e.exitCode ?? "none"} (${status}, ${(e.durationMs / 1000).toFixed(1)}s)`;
+    const output = e.output
+      ? `${e.truncated ? "[output truncated, showing the end]\n" : ""}${e.output}`
+      : "(no output)";
+    return `${header}\n\`\`\`\n${output}\n\`\`\``;
+  }).join("\n\n");
+}
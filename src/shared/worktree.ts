@@ -0,0 +1,133 @@
+/**
+ * Git worktree isolation for delegated agents
+ *
+ * Each isolated agent works in its own worktree on a dedicated branch so parallel executors
+ * never share a working directory. When the agent finishes, its changes are committed on the
+ * branch, the worktree is removed, and the diff is handed back to the parent, which can merge,
+ * cherry-pick or discard the branch.
+ */
+
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { promisify } from "util";
+import { log } from "./logger";
+
+const execFileAsync = promisify(execFile);
+
+// Diffs beyond this size are truncated in the task result; the branch keeps the full change
+const MAX_DIFF_CHARS = 50000;
+
+export interface WorktreeInfo {
+  /** Directory the child session is scoped to (the project directory inside the worktree) */
+  path: string;
+  worktreeRoot: string;
+  repoRoot: string;
+  branch: string;
+  baseCommit: string;
+}
+
+export interface WorktreeResult {
+  branch: string;
+  baseCommit: string;
+  /** False when the agent made no changes; the branch is deleted in that case */
+  changed: boolean;
+  diff: string;
+  truncated: boolean;
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, { cwd, maxBuffer: 20 * 1024 * 1024 });
+  return stdout;
+}
+
+/**
+ * Create a worktree on a new branch `omco/<label>` from the current HEAD
+ */
+export async function createWorktree(projectDir: string, label: string): Promise<WorktreeInfo> {
+  const repoRoot = (await git(projectDir, ["rev-parse", "--show-toplevel"])).trim();
+  const baseCommit = (await git(repoRoot, ["rev-parse", "HEAD"])).trim();
+  const branch = `omco/${label}`;
+  const worktreeRoot = path.join(os.tmpdir(), "omco-worktrees", `${path.basename(repoRoot)}-${label}`);
+
+  fs.mkdirSync(path.dirname(worktreeRoot), { recursive: true });
+  await git(repoRoot, ["worktree", "add", "-b", branch, worktreeRoot, baseCommit]);
+
+  // The project directory may be a subdirectory of the repository
+  const scopedPath = path.join(worktreeRoot, path.relative(repoRoot, projectDir));
+  log(`Created worktree`, { branch, path: scopedPath });
+
+  return { path: scopedPath, worktreeRoot, repoRoot, branch, baseCommit };
+}
+
+async function commitAll(worktree: WorktreeInfo, message: string): Promise<void> {
+  await git(worktree.worktreeRoot, ["add", "-A"]);
+  const status = await git(worktree.worktreeRoot, ["status", "--porcelain"]);
+  if (!status.trim()) return;
+
+  const commitArgs = ["commit", "--no-verify", "-m", message];
+  try {
+    await git(worktree.worktreeRoot, commitArgs);
+  } catch {
+    // No committer identity configured
+    await git(worktree.worktreeRoot, [
+      "-c", "user.name=oh-my-claudecode-opencode",
+      "-c", "user.email=omco@localhost",
+      ...commitArgs,
+    ]);
+  }
+}
+
+/**
+ * Commit whatever the agent left in the worktree, collect the diff against the base commit
+ * and remove the worktree. The branch is kept only when it carries changes.
+ */
+export async function finalizeWorktree(worktree: WorktreeInfo, message: string): Promise<WorktreeResult> {
+  await commitAll(worktree, message);
+
+  const head = (await git(worktree.worktreeRoot, ["rev-parse", "HEAD"])).trim();
+  const changed = head !== worktree.baseCommit;
+  const fullDiff = changed ? await git(worktree.worktreeRoot, ["diff", worktree.baseCommit, head]) : "";
+  const truncated = fullDiff.length > MAX_DIFF_CHARS;
+
+  await removeWorktree(worktree, !changed);
+
+  return {
+    branch: worktree.branch,
+    baseCommit: worktree.baseCommit,
+    changed,
+    diff: truncated ? fullDiff.substring(0, MAX_DIFF_CHARS) : fullDiff,
+    truncated,
+  };
+}
+
+export async function removeWorktree(worktree: WorktreeInfo, deleteBranch: boolean): Promise<void> {
+  try {
+    await git(worktree.repoRoot, ["worktree", "remove", "--force", worktree.worktreeRoot]);
+  } catch (err) {
+    log(`Failed to remove worktree`, { path: worktree.worktreeRoot, error: String(err) });
+  }
+
+  if (deleteBranch) {
+    try {
+      await git(worktree.repoRoot, ["branch", "-D", worktree.branch]);
+    } catch (err) {
+      log(`Failed to delete worktree branch`, { branch: worktree.branch, error: String(err) });
+    }
+  }
+}
+
+/**
+ * Task result block handed back to the parent session
+ */
+export function formatWorktreeResult(result: WorktreeResult, summary?: string): string {
+  const body = result.changed
+    ? `Changes are committed on branch ${result.branch} (based on ${result.baseCommit.substring(0, 12)}). ` +
+      `Merge with \`git merge ${result.branch}\`, cherry-pick its commits, or discard with \`git branch -D ${result.branch}\`.\n\n` +
+      "```diff\n" + result.diff + (result.truncated ? "\n... (diff truncated)" : "") + "\n```"
+    : `No changes were made; branch ${result.branch} was deleted.`;
+
+  const block = `<worktree-result branch="${result.branch}">\n${body}\n</worktree-result>`;
+  return summary ? `${summary}\n\n${block}` : block;
+}
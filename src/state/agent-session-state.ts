@@ -0,0 +1,102 @@
+import * as fs from "fs";
+import * as path from "path";
+import { log } from "../shared/logger";
+
+/**
+ * A child session spawned through call_omco_agent, kept so follow-up prompts can continue it
+ * with the same agent, category and model.
+ */
+export interface AgentSessionRecord {
+  /** Unset until a background task has created its session */
+  session_id?: string;
+  task_id?: string;
+  parent_session_id: string;
+  /** Agent label used for the spawn: an agent name or "category:<name>" */
+  agent: string;
+  subagent_type?: string;
+  category?: string;
+  model?: { providerID: string; modelID: string };
+  isolation?: "none" | "worktree";
+  turns: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface AgentSessionsFile {
+  sessions: AgentSessionRecord[];
+}
+
+const STATE_FILENAME = "agent-sessions.json";
+// Oldest records are dropped beyond this many
+const MAX_RECORDS = 200;
+
+function getOmcDir(projectDir: string): string {
+  return path.join(projectDir, ".omc");
+}
+
+function getStatePath(projectDir: string): string {
+  return path.join(getOmcDir(projectDir), STATE_FILENAME);
+}
+
+function ensureDir(dir: string): void {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+export function readAgentSessions(projectDir: string): AgentSessionRecord[] {
+  const statePath = getStatePath(projectDir);
+
+  if (fs.existsSync(statePath)) {
+    try {
+      const content = fs.readFileSync(statePath, "utf-8");
+      return (JSON.parse(content) as AgentSessionsFile).sessions ?? [];
+    } catch (err) {
+      log(`Failed to read agent sessions`, { error: String(err) });
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Find a record by child session ID or background task ID
+ */
+export function findAgentSession(projectDir: string, id: string): AgentSessionRecord | undefined {
+  return readAgentSessions(projectDir).find((record) => record.session_id === id || record.task_id === id);
+}
+
+/**
+ * Insert or replace a record, matched by session ID or task ID
+ */
+export function saveAgentSession(projectDir: string, record: AgentSessionRecord): void {
+  const dir = getOmcDir(projectDir);
+
+  const sessions = readAgentSessions(projectDir).filter((existing) =>
+    !(record.session_id && existing.session_id === record.session_id) &&
+    !(record.task_id && existing.task_id === record.task_id)
+  );
+  sessions.push(record);
+
+  try {
+    ensureDir(dir);
+    const content: AgentSessionsFile = { sessions: sessions.slice(-MAX_RECORDS) };
+    fs.writeFileSync(getStatePath(projectDir), JSON.stringify(content, null, 2));
+    log(`Saved agent session`, { sessionId: record.session_id, taskId: record.task_id, turns: record.turns });
+  } catch (err) {
+    log(`Failed to write agent sessions`, { error: String(err) });
+  }
+}
+
+export function clearAgentSessions(projectDir: string): void {
+  const statePath = getStatePath(projectDir);
+
+  if (fs.existsSync(statePath)) {
+    try {
+      fs.unlinkSync(statePath);
+      log(`Cleared agent sessions`);
+    } catch (err) {
+      log(`Failed to clear agent sessions`, { error: String(err) });
+    }
+  }
+}
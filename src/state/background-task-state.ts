@@ -0,0 +1,111 @@
+import * as fs from "fs";
+import * as path from "path";
+import { log } from "../shared/logger";
+import type { BackgroundTask } from "../tools/background-manager";
+
+export interface BackgroundTaskJournalEntry {
+  event: "created" | "updated" | "snapshot";
+  timestamp: string;
+  task: BackgroundTask;
+}
+
+const JOURNAL_FILENAME = "background-tasks.jsonl";
+
+function getOmcDir(projectDir: string): string {
+  return path.join(projectDir, ".omc");
+}
+
+function getJournalPath(projectDir: string): string {
+  return path.join(getOmcDir(projectDir), JOURNAL_FILENAME);
+}
+
+function ensureDir(dir: string): void {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+function toEntryLine(event: BackgroundTaskJournalEntry["event"], task: BackgroundTask): string {
+  const entry: BackgroundTaskJournalEntry = {
+    event,
+    timestamp: new Date().toISOString(),
+    task: { ...task },
+  };
+  return JSON.stringify(entry) + "\n";
+}
+
+export function appendTaskJournalEntry(
+  projectDir: string,
+  event: BackgroundTaskJournalEntry["event"],
+  task: BackgroundTask
+): void {
+  const dir = getOmcDir(projectDir);
+
+  try {
+    ensureDir(dir);
+    fs.appendFileSync(getJournalPath(projectDir), toEntryLine(event, task));
+  } catch (err) {
+    log(`Failed to append background task journal entry`, { taskId: task.id, error: String(err) });
+  }
+}
+
+/**
+ * Replay the journal into the latest known snapshot of each task.
+ * Later entries win; malformed lines (e.g. a write cut short by a crash) are skipped.
+ */
+export function readTaskJournal(projectDir: string): BackgroundTask[] {
+  const journalPath = getJournalPath(projectDir);
+  if (!fs.existsSync(journalPath)) return [];
+
+  const latest = new Map<string, BackgroundTask>();
+
+  try {
+    const content = fs.readFileSync(journalPath, "utf-8");
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as BackgroundTaskJournalEntry;
+        if (entry.task?.id) {
+          latest.set(entry.task.id, entry.task);
+        }
+      } catch {
+        log(`Skipping malformed background task journal line`);
+      }
+    }
+  } catch (err) {
+    log(`Failed to read background task journal`, { error: String(err) });
+    return [];
+  }
+
+  log(`Read background task journal`, { tasks: latest.size });
+  return [...latest.values()];
+}
+
+/**
+ * Rewrite the journal with a single snapshot entry per task so it does not grow unbounded.
+ */
+export function compactTaskJournal(projectDir: string, tasks: BackgroundTask[]): void {
+  const dir = getOmcDir(projectDir);
+
+  try {
+    ensureDir(dir);
+    const content = tasks.map((task) => toEntryLine("snapshot", task)).join("");
+    fs.writeFileSync(getJournalPath(projectDir), content);
+    log(`Compacted background task journal`, { tasks: tasks.length });
+  } catch (err) {
+    log(`Failed to compact background task journal`, { error: String(err) });
+  }
+}
+
+export function clearTaskJournal(projectDir: string): void {
+  const journalPath = getJournalPath(projectDir);
+
+  if (fs.existsSync(journalPath)) {
+    try {
+      fs.unlinkSync(journalPath);
+      log(`Cleared background task journal`);
+    } catch (err) {
+      log(`Failed to clear background task journal`, { error: String(err) });
+    }
+  }
+}
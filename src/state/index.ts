@@ -19,6 +19,7 @@ export {
 
 export {
   type VerificationState,
+  type ReviewerVerdict,
   readVerificationState,
   writeVerificationState,
   clearVerificationState,
@@ -52,3 +53,27 @@ export {
   markUltraQAComplete,
   isUltraQAPassing,
 } from "./ultraqa-state";
+
+export {
+  type BackgroundTaskJournalEntry,
+  appendTaskJournalEntry,
+  readTaskJournal,
+  compactTaskJournal,
+  clearTaskJournal,
+} from "./background-task-state";
+
+export {
+  type AgentSessionRecord,
+  readAgentSessions,
+  findAgentSession,
+  saveAgentSession,
+  clearAgentSessions,
+} from "./agent-session-state";
+
+export {
+  type ModelHealthRecord,
+  type ModelHealthStatus,
+  readModelHealth,
+  writeModelHealth,
+  clearModelHealth,
+} from "./model-health-state";
@@ -0,0 +1,88 @@
+import * as fs from "fs";
+import * as path from "path";
+import { log } from "../shared/logger";
+
+export type ModelHealthStatus = "healthy" | "degraded" | "unhealthy";
+
+/**
+ * Recent outcomes of prompts sent to one provider/model
+ */
+export interface ModelHealthRecord {
+  /** "provider/model" */
+  model: string;
+  status: ModelHealthStatus;
+  /** Why the model is degraded or unhealthy */
+  reason?: string;
+  /** Timestamps of failures since the last success, within the health window */
+  failures: number[];
+  /** Timestamps of rate-limit responses since the last success, within the health window */
+  rateLimits: number[];
+  /** Latencies (ms) of the most recent successful prompts */
+  latencies: number[];
+  successCount: number;
+  failureCount: number;
+  lastError?: string;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  updatedAt: number;
+}
+
+interface ModelHealthFile {
+  models: Record<string, ModelHealthRecord>;
+}
+
+const STATE_FILENAME = "model-health.json";
+
+function getOmcDir(projectDir: string): string {
+  return path.join(projectDir, ".omc");
+}
+
+function getStatePath(projectDir: string): string {
+  return path.join(getOmcDir(projectDir), STATE_FILENAME);
+}
+
+function ensureDir(dir: string): void {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+export function readModelHealth(projectDir: string): Record<string, ModelHealthRecord> {
+  const statePath = getStatePath(projectDir);
+
+  if (fs.existsSync(statePath)) {
+    try {
+      const content = fs.readFileSync(statePath, "utf-8");
+      return (JSON.parse(content) as ModelHealthFile).models ?? {};
+    } catch (err) {
+      log(`Failed to read model health`, { error: String(err) });
+    }
+  }
+
+  return {};
+}
+
+export function writeModelHealth(projectDir: string, models: Record<string, ModelHealthRecord>): void {
+  const dir = getOmcDir(projectDir);
+  ensureDir(dir);
+
+  try {
+    const content: ModelHealthFile = { models };
+    fs.writeFileSync(getStatePath(projectDir), JSON.stringify(content, null, 2));
+  } catch (err) {
+    log(`Failed to write model health`, { error: String(err) });
+  }
+}
+
+export function clearModelHealth(projectDir: string): void {
+  const statePath = getStatePath(projectDir);
+
+  if (fs.existsSync(statePath)) {
+    try {
+      fs.unlinkSync(statePath);
+      log(`Cleared model health`);
+    } catch (err) {
+      log(`Failed to clear model health`, { error: String(err) });
+    }
+  }
+}
@@ -13,6 +13,8 @@ export interface RalphState {
   prd_mode: boolean;
   current_story_id: string | null;
   last_activity_at: string;
+  /** Set while the PRD is generated or awaits the user's approval; no iteration runs */
+  prd_phase?: "generating" | "awaiting_approval";
 }
 
 const STATE_FILENAME = "ralph-state.json";
@@ -1,6 +1,17 @@
 import * as fs from "fs";
 import * as path from "path";
 import { log } from "../shared/logger";
+import type { CommandEvidence } from "../shared/verification-commands";
+
+/**
+ * One verification panel reviewer's verdict; approved is null when the reviewer gave none
+ */
+export interface ReviewerVerdict {
+  reviewer: string;
+  approved: boolean | null;
+  feedback: string;
+  missing?: string[];
+}
 
 export interface VerificationState {
   pending: boolean;
@@ -11,6 +22,10 @@ export interface VerificationState {
   oracle_feedback: string | null;
   last_attempt_at: string | null;
   session_id: string;
+  /** Build/test/lint results collected for the current claim */
+  evidence?: CommandEvidence[];
+  /** Verdicts of the verification panel for the current claim */
+  panel_verdicts?: ReviewerVerdict[];
 }
 
 const STATE_FILENAME = "ralph-verification.json";
@@ -0,0 +1,113 @@
+/**
+ * Turn history of delegated agent sessions
+ *
+ * A turn is one prompt sent to a child session (the initial spawn or a session_id
+ * continuation of call_omco_agent) together with the agent's reply. Listing turns lets the
+ * parent review a long-running conversation with an agent before sending the next follow-up.
+ *
+ * @module agent-turns
+ */
+
+import { tool, type PluginInput, type ToolDefinition } from "@opencode-ai/plugin";
+import type { BackgroundManager } from "./background-manager";
+import { findAgentSession } from "../state";
+
+// Prompt and reply text beyond this many characters is truncated in the listing
+const MAX_TURN_CHARS = 2000;
+
+export interface AgentTurn {
+  turn: number;
+  prompt: string;
+  response: string;
+  /** True while the agent has not finished replying */
+  pending: boolean;
+  error?: string;
+}
+
+interface SessionMessage {
+  info: {
+    role: string;
+    time?: { completed?: number };
+    error?: { name: string; data?: { message?: string } };
+  };
+  parts?: Array<{ type: string; text?: string }>;
+}
+
+function messageText(message: SessionMessage): string {
+  return message.parts
+    ?.filter((p) => p.type === "text" && p.text)
+    .map((p) => p.text)
+    .join("\n") ?? "";
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TURN_CHARS ? `${text.substring(0, MAX_TURN_CHARS)}... (truncated)` : text;
+}
+
+/**
+ * Group session messages into turns: each user message starts a turn, and the assistant
+ * messages that follow it form the reply
+ */
+export function groupTurns(messages: SessionMessage[]): AgentTurn[] {
+  const turns: AgentTurn[] = [];
+
+  for (const message of messages) {
+    if (message.info.role === "user") {
+      turns.push({ turn: turns.length + 1, prompt: messageText(message), response: "", pending: true });
+      continue;
+    }
+
+    const current = turns[turns.length - 1];
+    if (!current || message.info.role !== "assistant") continue;
+
+    const text = messageText(message);
+    if (text) {
+      current.response = current.response ? `${current.response}\n${text}` : text;
+    }
+    current.pending = !message.info.time?.completed && !message.info.error;
+    if (message.info.error) {
+      current.error = `[${message.info.error.name}] ${message.info.error.data?.message || message.info.error.name}`;
+    }
+  }
+
+  return turns;
+}
+
+export function createAgentTurnsTool(ctx: PluginInput, manager: BackgroundManager): ToolDefinition {
+  return tool({
+    description: `List the turns (prompt and reply) of an agent session spawned with call_omco_agent.
+
+Pass since_turn to get only newer turns. Continue the session with call_omco_agent(session_id=...).`,
+    args: {
+      session_id: tool.schema.string().describe("Agent session_id or task_id"),
+      since_turn: tool.schema.number().optional().describe("Only return turns after this turn number"),
+    },
+    async execute(args) {
+      const record = findAgentSession(ctx.directory, args.session_id);
+      const taskId = record?.task_id ?? args.session_id;
+      const sessionID = record?.session_id ?? manager.getTask(taskId)?.sessionID ?? args.session_id;
+
+      const messagesResp = await ctx.client.session.messages({
+        path: { id: sessionID },
+        query: { directory: ctx.directory },
+      });
+      if (messagesResp.error || !messagesResp.data) {
+        return JSON.stringify({ error: `Session ${args.session_id} not found` });
+      }
+
+      const turns = groupTurns(messagesResp.data as SessionMessage[]);
+      const since = args.since_turn ?? 0;
+
+      return JSON.stringify({
+        session_id: sessionID,
+        agent: record?.agent,
+        category: record?.category,
+        model: record?.model ? `${record.model.providerID}/${record.model.modelID}` : undefined,
+        total_turns: turns.length,
+        turns: turns
+          .filter((t) => t.turn > since)
+          .map((t) => ({ ...t, prompt: truncate(t.prompt), response: truncate(t.response) })),
+      });
+    },
+  });
+}
@@ -1,43 +1,364 @@
 import type { PluginInput } from "@opencode-ai/plugin";
-import type { BackgroundTaskConfig } from "../config";
+import * as path from "path";
+import type { AgentConfig, BackgroundTaskConfig } from "../config";
 import type { ModelResolutionService } from "./model-resolution-service";
 import { log } from "../shared/logger";
+import {
+  createWorktree,
+  finalizeWorktree,
+  formatWorktreeResult,
+  type WorktreeInfo,
+} from "../shared/worktree";
 import { getAgent, getCanonicalName, isAlias } from "../agents";
+import {
+  addUsage,
+  emptyUsage,
+  priceMessageUsage,
+  type MessageTokens,
+  type SessionUsage,
+  type TokenUsage,
+} from "./usage";
+import { enforceOutputSchema, type ResolvedOutputSchema } from "./output-schemas";
+import { isToolAllowed } from "../categories/tool-policy";
+import { isRateLimitError, type ModelOutcome } from "./model-health";
+import {
+  formatEscalationPrompt,
+  nextEscalation,
+  type ComplexityTier,
+  type EscalationPolicy,
+  type TierEscalation,
+} from "./complexity-router";
+import {
+  appendTaskJournalEntry,
+  readTaskJournal,
+  compactTaskJournal,
+  type BackgroundTaskJournalEntry,
+} from "../state/background-task-state";
 
 export interface BackgroundTask {
   id: string;
-  status: "running" | "completed" | "failed" | "cancelled";
+  status: "waiting" | "queued" | "running" | "completed" | "failed" | "cancelled" | "timed_out";
   description: string;
   parentSessionID: string;
   sessionID?: string;
+  /** Model the task runs on; used for provider/model concurrency accounting */
+  model?: ModelConfig;
+  /** Live activity snapshot of the child session */
+  progress?: TaskProgress;
+  /** Tokens and estimated cost summed over the child session's assistant messages */
+  usage?: TokenUsage;
+  /** One entry per prompt attempt, including retries and model fallbacks */
+  attempts?: TaskAttempt[];
+  /** Task IDs that must complete before this task is launched */
+  dependsOn?: string[];
+  /** Batch launched together by call_omco_agents */
+  groupId?: string;
+  /** Files the child session edited or wrote (relative to the project directory) */
+  filesTouched?: string[];
+  /** Files this task edited while another running task was editing them too */
+  conflicts?: FileConflict[];
+  /** Dedicated git worktree the child session runs in (isolation: "worktree") */
+  worktree?: WorktreeInfo;
+  /** Wall-clock budget once running; the child session is aborted when it runs out */
+  timeoutMs?: number;
+  /** Scheduling priority; unset means "normal" */
+  priority?: TaskPriority;
+  /** Times the task was paused to make room for high-priority work */
+  preemptions?: number;
+  /** Delegation category, including the one picked by category "auto" */
+  category?: string;
+  /** Why category "auto" picked `category` */
+  categoryRationale?: string;
+  /** Output schema the result must satisfy: a registry name or "custom" */
+  outputSchema?: string;
+  /** Result parsed and validated against outputSchema */
+  output?: unknown;
+  /** Complexity tier picked by routing; escalations move it up */
+  routingTier?: ComplexityTier;
+  /** Tier escalations after failures or insufficient output */
+  escalations?: TierEscalation[];
   result?: string;
   error?: string;
   startedAt: number;
   completedAt?: number;
 }
 
+export type TaskPriority = "low" | "normal" | "high";
+
+export interface FileConflict {
+  file: string;
+  /** The other running task that touched the file */
+  taskId: string;
+  detectedAt: number;
+  /** The write was refused because conflictPolicy is "block" */
+  blocked?: boolean;
+}
+
+/**
+ * How a prompt attempt ended: success, an empty reply, or the class of its error
+ * (see classifyPromptError)
+ */
+export type AttemptOutcome = "success" | "empty" | "model" | "transient" | "fatal";
+
+export interface TaskAttempt {
+  attempt: number;
+  model: ModelConfig;
+  startedAt: number;
+  completedAt?: number;
+  outcome?: AttemptOutcome;
+  error?: string;
+}
+
+export interface TaskProgress {
+  toolCalls: number;
+  outputChars: number;
+  currentTool?: string;
+  lastActivityAt: number;
+}
+
+/**
+ * Incremental output captured from a child session. `seq` doubles as the read cursor.
+ */
+export interface TaskOutputChunk {
+  seq: number;
+  type: "text" | "tool";
+  text: string;
+  timestamp: number;
+}
+
+export interface TaskOutput {
+  chunks: TaskOutputChunk[];
+  /** Pass back as `since` to receive only newer chunks */
+  cursor: number;
+  /** True when chunks after `since` were dropped from the buffer */
+  truncated: boolean;
+  progress?: TaskProgress;
+}
+
 export interface ModelConfig {
   providerID: string;
   modelID: string;
 }
 
+export interface CreateTaskOptions {
+  /** The model passed to createTask is already resolved (routing, category, continuation): skip tier mapping */
+  explicitModel?: boolean;
+  /** Task IDs that must complete before this task starts; a failed dependency cancels it */
+  dependsOn?: string[];
+  /** Append the results of completed dependencies to the prompt */
+  injectDependencyResults?: boolean;
+  /** Wall-clock budget in ms; defaults to agents.<name>.timeout_ms */
+  timeoutMs?: number;
+  groupId?: string;
+  /** Run the child session in its own git worktree; the diff becomes the result */
+  isolation?: "none" | "worktree";
+  /** Continue this existing child session instead of creating a new one */
+  sessionID?: string;
+  /** Defaults to agents.<name>.priority, then "normal" */
+  priority?: TaskPriority;
+  /** Validate the result against this schema, re-prompting the agent on mismatch */
+  outputSchema?: ResolvedOutputSchema;
+  /** Recorded on the task for reporting; the prompt and model already reflect it */
+  category?: string;
+  categoryRationale?: string;
+  /** Max running tasks of the same category (categories.<name>.max_concurrency) */
+  categoryConcurrency?: number;
+  /** Per-prompt tool map; tools it disables are also refused in tool.execute.before */
+  tools?: Record<string, boolean>;
+  /** OpenCode agent the child session is prompted with */
+  sessionAgent?: string;
+  /** Complexity tier picked by routing */
+  routingTier?: ComplexityTier;
+  /** Escalate to higher tiers when the task fails or its output is insufficient */
+  escalation?: EscalationPolicy;
+}
+
+/**
+ * Slot of a synchronous category delegation, held while its prompt runs
+ */
+export interface SyncSlot {
+  /** Apply the category's tool map backstop to the child session */
+  bindSession: (sessionID: string) => void;
+  release: () => void;
+}
+
+export interface SyncSlotOptions {
+  category: string;
+  /** categories.<name>.max_concurrency; shared with background tasks of the category */
+  categoryConcurrency?: number;
+  tools?: Record<string, boolean>;
+  /** Give up waiting for a slot after this long */
+  timeoutMs?: number;
+}
+
 export interface BackgroundManager {
   createTask: (
     parentSessionID: string,
     description: string,
     prompt: string,
     agent: string,
-    model?: ModelConfig
+    model?: ModelConfig,
+    options?: CreateTaskOptions
   ) => Promise<BackgroundTask>;
   getTask: (taskId: string) => BackgroundTask | undefined;
   getTasksByParentSession: (sessionID: string) => BackgroundTask[];
+  getTasksByGroup: (groupId: string) => BackgroundTask[];
   cancelTask: (taskId: string) => boolean;
   cancelAllTasks: (parentSessionID?: string) => number;
   waitForTask: (taskId: string, timeoutMs?: number) => Promise<BackgroundTask>;
+  waitForGroup: (groupId: string, count?: number, timeoutMs?: number) => Promise<BackgroundTask[]>;
+  getQueuePosition: (taskId: string) => number | undefined;
+  getTaskOutput: (taskId: string, since?: number) => TaskOutput | undefined;
+  getSessionUsage: (parentSessionID: string) => SessionUsage;
+  event: (input: { event: { type: string; properties?: unknown } }) => Promise<void>;
+  "tool.execute.before": (
+    input: { tool: string; sessionID: string; callID: string },
+    output: { args: Record<string, unknown> }
+  ) => Promise<void>;
+  "tool.execute.after": (
+    input: { tool: string; sessionID: string; callID: string },
+    output: { title: string; output: string; metadata: unknown }
+  ) => Promise<void>;
   getParentSessionModel: (parentSessionID: string) => Promise<ModelConfig | undefined>;
+  /** Wait for a category slot for a synchronous delegation */
+  acquireSyncSlot: (options: SyncSlotOptions) => Promise<SyncSlot>;
+}
+
+interface TaskLaunch {
+  prompt: string;
+  agent: string;
+  resolvedModel: ModelConfig;
+  parentModel?: ModelConfig;
+  injectDependencyResults: boolean;
+  isolation: "none" | "worktree";
+  sessionID?: string;
+  outputSchema?: ResolvedOutputSchema;
+  categoryConcurrency?: number;
+  tools?: Record<string, boolean>;
+  sessionAgent?: string;
+  escalation?: EscalationPolicy;
+}
+
+interface SyncRun {
+  category: string;
+  tools?: Record<string, boolean>;
+  sessionID?: string;
+}
+
+interface OutputBuffer {
+  chunks: TaskOutputChunk[];
+  nextSeq: number;
+  /** Text length already captured per part ID */
+  capturedPartLengths: Map<string, number>;
+  /** Assistant message IDs seen in the child session, so the prompt itself is not echoed */
+  assistantMessageIDs: Set<string>;
+}
+
+/**
+ * Accounting fields of an assistant message (from events or the prompt response)
+ */
+interface AssistantMessageInfo {
+  id?: string;
+  providerID?: string;
+  modelID?: string;
+  tokens?: MessageTokens;
+  cost?: number;
+}
+
+export interface PromptError {
+  name: string;
+  data?: { providerID?: string; message?: string; statusCode?: number; isRetryable?: boolean };
+}
+
+type PromptOutcome =
+  | { kind: "success"; result: string }
+  | { kind: "model" | "transient" | "fatal"; error: string };
+
+/**
+ * Classify a provider error reported on the assistant message.
+ * - model: the model/provider is unusable, try the next model in the chain
+ * - transient: rate limits and 5xx, retry with backoff
+ * - fatal: aborts and everything else
+ */
+export function classifyPromptError(err: PromptError): "model" | "transient" | "fatal" {
+  if (err.name === "MessageAbortedError" || err.name === "MessageOutputLengthError") {
+    return "fatal";
+  }
+
+  if (err.name === "ProviderModelNotFoundError" ||
+      err.name === "ProviderNotFoundError" ||
+      err.name?.includes("Model") ||
+      err.name?.includes("Provider")) {
+    return "model";
+  }
+
+  const status = err.data?.statusCode;
+  if (err.data?.isRetryable || status === 429 || (status !== undefined && status >= 500)) {
+    return "transient";
+  }
+
+  if (/rate.?limit|overloaded|too many requests|temporarily unavailable/i.test(err.data?.message ?? "")) {
+    return "transient";
+  }
+
+  return "fatal";
+}
+
+function parseModelReference(reference: string): ModelConfig | undefined {
+  const [providerID, ...rest] = reference.split("/");
+  const modelID = rest.join("/");
+  return providerID && modelID ? { providerID, modelID } : undefined;
 }
 
 let taskCounter = 0;
+let groupCounter = 0;
+
+// Per-task cap on buffered output chunks; oldest chunks are dropped first
+const MAX_OUTPUT_CHUNKS = 500;
+
+// Tools whose file argument is modified in place
+const FILE_WRITE_TOOLS = new Set(["edit", "write", "multiedit"]);
+
+/**
+ * Whether a task has not settled yet (waiting on dependencies, queued for a slot, or running)
+ */
+export function isTaskActive(task: BackgroundTask): boolean {
+  return task.status === "waiting" || task.status === "queued" || task.status === "running";
+}
+
+/**
+ * Wall-clock budget for a delegated agent: explicit timeout > agents.<name>.timeout_ms
+ */
+export function resolveAgentTimeout(
+  agent: string,
+  agentOverrides?: Record<string, AgentConfig>,
+  timeoutMs?: number
+): number | undefined {
+  if (timeoutMs !== undefined) return timeoutMs;
+  const canonicalName = isAlias(agent) ? getCanonicalName(agent) : agent;
+  return agentOverrides?.[agent]?.timeout_ms ?? agentOverrides?.[canonicalName]?.timeout_ms;
+}
+
+/**
+ * Scheduling priority for a delegated agent: explicit priority > agents.<name>.priority > "normal"
+ */
+export function resolveAgentPriority(
+  agent: string,
+  agentOverrides?: Record<string, AgentConfig>,
+  priority?: TaskPriority
+): TaskPriority {
+  if (priority) return priority;
+  const canonicalName = isAlias(agent) ? getCanonicalName(agent) : agent;
+  return agentOverrides?.[agent]?.priority ?? agentOverrides?.[canonicalName]?.priority ?? "normal";
+}
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { low: 0, normal: 1, high: 2 };
+
+// Result preview length in parent notifications
+const NOTICE_PREVIEW_CHARS = 200;
+
+// Follow-up sent to a preempted task's session when it gets a slot again
+const RESUME_PROMPT = "You were paused to make room for higher-priority work. Continue the task where you left off and finish it.";
 
 /**
  * Generate a compact, unique task ID
@@ -49,30 +370,85 @@ function generateTaskId(): string {
   return `bg_${Date.now().toString(36)}_${taskCounter.toString(36)}`;
 }
 
+/**
+ * Generate a group ID for a batch of tasks, in the same format as task IDs
+ */
+export function generateGroupId(): string {
+  groupCounter++;
+  return `grp_${Date.now().toString(36)}_${groupCounter.toString(36)}`;
+}
+
 export function createBackgroundManager(
   ctx: PluginInput,
   config?: BackgroundTaskConfig,
-  modelService?: ModelResolutionService
+  modelService?: ModelResolutionService,
+  agentOverrides?: Record<string, AgentConfig>
 ): BackgroundManager {
   const tasks = new Map<string, BackgroundTask>();
+  // Launch parameters for tasks waiting on dependencies
+  const pendingLaunches = new Map<string, TaskLaunch>();
+  // Tasks whose dependencies are met but which wait for a concurrency slot; ordered by
+  // priority, FIFO within the same priority
+  const queue: Array<{ task: BackgroundTask; launch: TaskLaunch }> = [];
+  // Streamed child session output, kept out of the task so the journal stays small
+  const outputs = new Map<string, OutputBuffer>();
+  // Priced usage per assistant message, so repeated message updates are not double counted
+  const messageUsage = new Map<string, Map<string, TokenUsage>>();
+  // File paths of in-flight write tool calls, keyed by call ID
+  const pendingWrites = new Map<string, string>();
+  const conflictPolicy = config?.conflictPolicy ?? "report";
+  const preemptLowPriority = config?.preemptLowPriority ?? false;
+  const notifyParent = config?.notifyParent ?? "silent";
+  const notifyBatchMs = config?.notifyBatchMs ?? 1000;
+  // Finished tasks awaiting a batched notice to their parent session
+  const pendingNotices = new Map<string, BackgroundTask[]>();
+  const noticeTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  // In-flight runs, so a preempted task is only resumed once its aborted run has unwound
+  const runs = new Map<string, { launch: TaskLaunch; done: Promise<void> }>();
+  // Pending wall-clock timers of running tasks
+  const timeouts = new Map<string, ReturnType<typeof setTimeout>>();
+  // Synchronous category delegations holding a slot
+  const syncRuns = new Set<SyncRun>();
   const defaultConcurrency = config?.defaultConcurrency ?? 5;
+  const persistTasks = config?.persistTasks ?? true;
+  const retryPolicy = {
+    maxAttempts: config?.retry?.maxAttempts ?? 1,
+    backoffMs: config?.retry?.backoffMs ?? 1000,
+    maxBackoffMs: config?.retry?.maxBackoffMs ?? 30000,
+    fallbackModels: config?.retry?.fallbackModels ?? [],
+  };
 
   // Cache for parent session models to avoid repeated API calls
   const modelCache = new Map<string, ModelConfig>();
 
+  // Record task transitions in the .omc journal so tasks survive plugin restarts
+  const persist = (event: BackgroundTaskJournalEntry["event"], task: BackgroundTask): void => {
+    if (persistTasks) {
+      appendTaskJournalEntry(ctx.directory, event, task);
+    }
+  };
+
   // Cleanup old completed tasks to prevent memory leak
   // Removes tasks older than 1 hour that are no longer running
   const TASK_MAX_AGE_MS = 60 * 60 * 1000; // 1 hour
   const cleanupOldTasks = (): void => {
     const now = Date.now();
+    let removed = 0;
     for (const [id, task] of tasks) {
       if (task.status !== "running" && task.completedAt) {
         if (now - task.completedAt > TASK_MAX_AGE_MS) {
           tasks.delete(id);
+          outputs.delete(id);
+          messageUsage.delete(id);
+          removed++;
           log(`Cleaned up old task`, { taskId: id });
         }
       }
     }
+
+    if (removed > 0 && persistTasks) {
+      compactTaskJournal(ctx.directory, [...tasks.values()]);
+    }
   };
 
   // Run cleanup periodically (every 10 minutes)
@@ -82,18 +458,43 @@ export function createBackgroundManager(
     cleanupInterval.unref();
   }
 
-  const getRunningCount = (parentSessionID?: string): number => {
+  const countRunning = (predicate: (task: BackgroundTask) => boolean = () => true): number => {
     let count = 0;
     for (const task of tasks.values()) {
-      if (task.status === "running") {
-        if (!parentSessionID || task.parentSessionID === parentSessionID) {
-          count++;
-        }
+      if (task.status === "running" && predicate(task)) {
+        count++;
       }
     }
     return count;
   };
 
+  /**
+   * Check the global, per-provider and per-model limits for a task about to start.
+   * Model limits accept either "provider/model" or bare model ID keys.
+   */
+  const hasCapacity = (model: ModelConfig, excluding?: BackgroundTask): boolean => {
+    // `excluding` asks whether pausing that running task would free a slot
+    const running = (predicate: (task: BackgroundTask) => boolean = () => true): number =>
+      countRunning((t) => t !== excluding && predicate(t));
+
+    if (running() >= defaultConcurrency) return false;
+
+    const providerLimit = config?.providerConcurrency?.[model.providerID];
+    if (providerLimit !== undefined &&
+        running((t) => t.model?.providerID === model.providerID) >= providerLimit) {
+      return false;
+    }
+
+    const modelLimit = config?.modelConcurrency?.[`${model.providerID}/${model.modelID}`] ??
+      config?.modelConcurrency?.[model.modelID];
+    if (modelLimit !== undefined &&
+        running((t) => t.model?.providerID === model.providerID && t.model?.modelID === model.modelID) >= modelLimit) {
+      return false;
+    }
+
+    return true;
+  };
+
   /**
    * Detect the first configured provider as a fallback
    * Uses provider.list() to find any available provider
@@ -186,257 +587,1153 @@ export function createBackgroundManager(
     return undefined;
   };
 
-  const createTask = async (
-    parentSessionID: string,
-    description: string,
-    prompt: string,
-    agent: string,
-    model?: ModelConfig
-  ): Promise<BackgroundTask> => {
-    const runningCount = getRunningCount();
-    if (runningCount >= defaultConcurrency) {
-      throw new Error(`Max concurrent tasks (${defaultConcurrency}) reached. Wait for some to complete.`);
-    }
+  /**
+   * Build the dependency context block appended to a dependent task's prompt
+   */
+  const formatDependencyResults = (dependsOn: string[]): string => {
+    const sections = dependsOn.map((depId) => {
+      const dep = tasks.get(depId);
+      return `### ${depId}: ${dep?.description ?? "unknown task"}\n${dep?.result || "(no output)"}`;
+    });
+    return `<dependency-results>\n${sections.join("\n\n")}\n</dependency-results>`;
+  };
 
-    // Generate task ID early for potential early failure
-    const taskId = generateTaskId();
+  /**
+   * Cancel a waiting task because one of its dependencies did not complete.
+   * Cascades to any tasks that in turn depend on it.
+   */
+  const cancelForDependency = (task: BackgroundTask, dependency: BackgroundTask): void => {
+    pendingLaunches.delete(task.id);
+    task.status = "cancelled";
+    task.error = `Dependency ${dependency.id} (${dependency.description}) ${dependency.status}` +
+      (dependency.error ? `: ${dependency.error}` : "");
+    task.completedAt = Date.now();
+    persist("updated", task);
 
-    try {
-      // Resolve model: explicit model > tier mapping > parent session model > provider detection
-      const parentModel = model || await getParentSessionModel(parentSessionID);
-      const resolvedModel = modelService
-        ? modelService.resolveModelForAgent(agent, parentModel)
-        : parentModel;
+    log(`Background task cancelled by dependency`, { taskId: task.id, dependency: dependency.id });
+    queueNotice(task);
+    releaseDependents(task);
+  };
 
-      // [CRITICAL] Check for undefined BEFORE creating session
-      if (!resolvedModel) {
-        throw new Error(
-          `[OMCO] No model available for agent "${agent}". ` +
-          `Configure tier mapping with 'npx omco-setup'.`
-        );
-      }
+  /**
+   * Called whenever a task settles. Launches waiting tasks whose dependencies have all
+   * completed and cascades cancellation to those whose dependency failed or was cancelled.
+   */
+  const releaseDependents = (settled: BackgroundTask): void => {
+    for (const [taskId, launch] of pendingLaunches) {
+      const task = tasks.get(taskId);
+      if (!task || task.status !== "waiting" || !task.dependsOn?.includes(settled.id)) continue;
 
-      if (resolvedModel !== parentModel) {
-        log(`[background-manager] Using tier-mapped model for ${agent}`, {
-          providerID: resolvedModel.providerID,
-          modelID: resolvedModel.modelID,
-        });
+      if (settled.status !== "completed") {
+        cancelForDependency(task, settled);
+        continue;
       }
 
-      // Now safe to create task
-      const task: BackgroundTask = {
-        id: taskId,
-        status: "running",
-        description,
-        parentSessionID,
-        startedAt: Date.now(),
-      };
+      if (task.dependsOn.every((depId) => tasks.get(depId)?.status === "completed")) {
+        pendingLaunches.delete(taskId);
+        log(`Dependencies satisfied, scheduling background task`, { taskId });
+        scheduleTask(task, launch);
+      }
+    }
+  };
 
-      tasks.set(taskId, task);
+  /**
+   * Check categories.<name>.max_concurrency for a task about to start
+   */
+  const hasCategoryCapacity = (task: BackgroundTask, launch: TaskLaunch, excluding?: BackgroundTask): boolean => {
+    if (!launch.categoryConcurrency || !task.category) return true;
+    return countCategory(task.category, excluding) < launch.categoryConcurrency;
+  };
 
-      log(`Background task created`, { taskId, description, agent });
+  // Running background tasks and synchronous delegations of a category
+  const countCategory = (category: string, excluding?: BackgroundTask): number => {
+    const sync = [...syncRuns].filter((run) => run.category === category).length;
+    return sync + countRunning((t) => t !== excluding && t.category === category);
+  };
 
-    (async () => {
-      try {
-        const sessionResp = await ctx.client.session.create({
-          body: {
-            parentID: parentSessionID,
-            title: `${agent}: ${description}`,
-          },
-          query: { directory: ctx.directory },
-        });
+  const acquireSyncSlot = async (options: SyncSlotOptions): Promise<SyncSlot> => {
+    const { category, categoryConcurrency, timeoutMs } = options;
+    const startTime = Date.now();
+    while (categoryConcurrency && countCategory(category) >= categoryConcurrency) {
+      if (timeoutMs && Date.now() - startTime > timeoutMs) {
+        throw new Error(`No ${category} slot freed up within ${timeoutMs}ms (max_concurrency ${categoryConcurrency})`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
 
-        const sessionID = (sessionResp.data as { id?: string })?.id ?? (sessionResp as { id?: string }).id;
-        if (!sessionID) throw new Error("Failed to create session");
+    const run: SyncRun = { category, tools: options.tools };
+    syncRuns.add(run);
+    return {
+      bindSession: (sessionID) => {
+        run.sessionID = sessionID;
+      },
+      release: () => {
+        if (syncRuns.delete(run)) drainQueue();
+      },
+    };
+  };
 
-        task.sessionID = sessionID;
+  /**
+   * Start queued tasks in queue order as slots free up. A task blocked by its provider or
+   * model limit does not hold back tasks behind it that target a different provider/model.
+   */
+  const drainQueue = (): void => {
+    let i = 0;
+    while (i < queue.length && countRunning() < defaultConcurrency) {
+      const { task, launch } = queue[i];
+      if (!hasCapacity(launch.resolvedModel) || !hasCategoryCapacity(task, launch)) {
+        i++;
+        continue;
+      }
+      queue.splice(i, 1);
+      runTask(task, launch);
+    }
+  };
 
-        // Apply OMCO-002: Inject agent system prompt
-        const canonicalName = isAlias(agent) ? getCanonicalName(agent) : agent;
-        const agentDef = getAgent(canonicalName);
-        const systemPrompt = agentDef?.systemPrompt || "";
-        const fullPrompt = systemPrompt ? `${systemPrompt}\n\n${prompt}` : prompt;
+  const scheduleTask = (task: BackgroundTask, launch: TaskLaunch): void => {
+    if (task.status !== "queued") {
+      task.status = "queued";
+      persist("updated", task);
+    }
+    // Ahead of every lower-priority entry, behind entries of the same or higher priority
+    const rank = PRIORITY_RANK[task.priority ?? "normal"];
+    const index = queue.findIndex((entry) => PRIORITY_RANK[entry.task.priority ?? "normal"] < rank);
+    queue.splice(index === -1 ? queue.length : index, 0, { task, launch });
+    drainQueue();
 
-        // Build prompt body with optional model
-        const promptBody: {
-          parts: Array<{ type: "text"; text: string }>;
-          model?: { providerID: string; modelID: string };
-        } = {
-          parts: [{ type: "text" as const, text: fullPrompt }],
-        };
+    if (task.status === "queued" && task.priority === "high" && preemptLowPriority) {
+      preemptFor(task, launch);
+    }
 
-        // Include model if available - this ensures subagent uses same provider as parent
-        if (resolvedModel) {
-          promptBody.model = resolvedModel;
-          log(`Using model for subagent`, { taskId, ...resolvedModel });
-        }
+    if (task.status === "queued") {
+      log(`Background task queued`, { taskId: task.id, position: getQueuePosition(task.id) });
+    }
+  };
 
-        let promptResp = await ctx.client.session.prompt({
-          path: { id: sessionID },
-          body: promptBody,
-          query: { directory: ctx.directory },
-        });
+  /**
+   * Pause the most recently started low-priority task whose slot a blocked high-priority
+   * task can use. The paused task is requeued and later resumed in its existing session.
+   */
+  const preemptFor = (task: BackgroundTask, launch: TaskLaunch): void => {
+    const victim = Array.from(tasks.values())
+      .filter((t) => t.status === "running" && t.priority === "low" && t.sessionID && runs.has(t.id))
+      .sort((a, b) => b.startedAt - a.startedAt)
+      .find((t) => hasCapacity(launch.resolvedModel, t) && hasCategoryCapacity(task, launch, t));
+    if (!victim) return;
 
-        let promptData = promptResp.data as {
-          info?: {
-            role?: string;
-            error?: { name: string; data?: { providerID?: string; message?: string } };
-          };
-          parts?: Array<{ type: string; text?: string }>;
-        } | undefined;
+    const run = runs.get(victim.id)!;
+    victim.status = "queued";
+    victim.preemptions = (victim.preemptions ?? 0) + 1;
+    clearTaskTimeout(victim.id);
+    persist("updated", victim);
+    abortSession(victim);
+    log(`[background-manager] Paused low-priority task for high-priority work`, { taskId: victim.id });
 
-        // Check for HTTP-level errors
-        if (promptResp.error) {
-          throw new Error(`Prompt failed: ${JSON.stringify(promptResp.error)}`);
-        }
+    const resume: TaskLaunch = {
+      ...run.launch,
+      prompt: RESUME_PROMPT,
+      injectDependencyResults: false,
+      isolation: "none",
+      sessionID: victim.sessionID,
+    };
+    void run.done.then(() => {
+      // Cancelled while paused
+      if (victim.status === "queued") scheduleTask(victim, resume);
+    });
 
-        // Check for provider/model errors - retry with fallback if tier-mapped model failed
-        if (promptData?.info?.error) {
-          const err = promptData.info.error;
-          const isModelError = err.name === "ProviderModelNotFoundError" || 
-                               err.name === "ProviderNotFoundError" ||
-                               err.name?.includes("Model") ||
-                               err.name?.includes("Provider");
-          
-          // If model error and we have a different fallback model, retry
-          if (isModelError && parentModel && resolvedModel !== parentModel) {
-            log(`[background-manager] Model error with tier-mapped model, retrying with parent session model`, {
-              taskId,
-              error: err.name,
-              failedModel: resolvedModel,
-              fallbackModel: parentModel,
-            });
-            
-            // Retry with parent session model
-            promptBody.model = parentModel;
-            promptResp = await ctx.client.session.prompt({
-              path: { id: sessionID },
-              body: promptBody,
-              query: { directory: ctx.directory },
-            });
-            
-            promptData = promptResp.data as typeof promptData;
-            
-            // Check again for errors after retry
-            if (promptResp.error) {
-              throw new Error(`Prompt failed after retry: ${JSON.stringify(promptResp.error)}`);
-            }
-          }
-        }
-        
-        // Check for provider auth errors (401) or other errors after potential retry
-        if (promptData?.info?.error) {
-          const err = promptData.info.error;
-          const errMsg = err.data?.message || err.name || "Unknown error";
-          throw new Error(`[${err.name}] ${errMsg}`);
-        }
+    drainQueue();
+  };
 
-        const result = promptData?.parts
-          ?.filter((p) => p.type === "text" && p.text)
-          .map((p) => p.text)
-          .join("\n") || "";
-        task.result = result;
+  const removeFromQueue = (taskId: string): void => {
+    const index = queue.findIndex((entry) => entry.task.id === taskId);
+    if (index !== -1) {
+      queue.splice(index, 1);
+    }
+  };
 
-        task.status = "completed";
-        task.completedAt = Date.now();
+  /**
+   * 1-based position of a queued task in the scheduler queue
+   */
+  const getQueuePosition = (taskId: string): number | undefined => {
+    const index = queue.findIndex((entry) => entry.task.id === taskId);
+    return index === -1 ? undefined : index + 1;
+  };
 
-        log(`Background task completed`, { taskId, duration: task.completedAt - task.startedAt });
+  // Isolated tasks are scoped to their worktree
+  const taskDirectory = (task: BackgroundTask): string => task.worktree?.path ?? ctx.directory;
 
-        ctx.client.tui.showToast({
-          body: {
-            title: "Background Task Completed",
-            message: `${description.substring(0, 40)}...`,
-            variant: "success" as const,
-            duration: 3000,
-          },
-        }).catch((err) => {
-          log(`Toast notification failed`, { taskId, error: String(err) });
-        });
+  const abortSession = (task: BackgroundTask): void => {
+    if (!task.sessionID) return;
+    ctx.client.session.abort({
+      path: { id: task.sessionID },
+      query: { directory: taskDirectory(task) },
+    }).catch((err) => {
+      log(`Failed to abort session for task ${task.id}`, { error: String(err) });
+    });
+  };
 
-      } catch (err) {
-        task.status = "failed";
-        task.error = String(err);
-        task.completedAt = Date.now();
+  const clearTaskTimeout = (taskId: string): void => {
+    const timer = timeouts.get(taskId);
+    if (timer) {
+      clearTimeout(timer);
+      timeouts.delete(taskId);
+    }
+  };
 
-        log(`Background task failed`, { taskId, error: task.error });
+  /**
+   * Tear down the worktree of a task that did not complete. Partial changes stay on the branch.
+   */
+  const releaseWorktree = async (task: BackgroundTask): Promise<void> => {
+    if (!task.worktree) return;
+    try {
+      const result = await finalizeWorktree(task.worktree, `${task.description} (${task.status})`);
+      if (result.changed) {
+        task.error = `${task.error ?? `Task ${task.status}`}. Partial changes kept on branch ${result.branch}`;
+        persist("updated", task);
       }
-    })();
-
-      return task;
     } catch (err) {
-      // [CRITICAL] Return immediately failed task with actionable error
-      // This handles both model resolution errors AND any session creation errors
-      const failedTask: BackgroundTask = {
-        id: taskId,
-        status: "failed",
-        description,
-        parentSessionID,
-        error: String(err),
-        startedAt: Date.now(),
-        completedAt: Date.now(),
-      };
-      tasks.set(taskId, failedTask);
-      log(`Background task failed during creation`, { taskId, error: String(err) });
-      return failedTask;
+      log(`Failed to release worktree`, { taskId: task.id, error: String(err) });
     }
   };
 
-  const getTask = (taskId: string): BackgroundTask | undefined => {
-    return tasks.get(taskId);
+  // A settled task frees a slot and may unblock tasks depending on it
+  const settleTask = (task: BackgroundTask): void => {
+    clearTaskTimeout(task.id);
+    if (task.status !== "completed") {
+      void releaseWorktree(task);
+    }
+    // The parent cancelled it itself, so it needs no notice
+    if (task.status !== "cancelled") {
+      queueNotice(task);
+    }
+    releaseDependents(task);
+    drainQueue();
   };
 
-  const getTasksByParentSession = (sessionID: string): BackgroundTask[] => {
-    const result: BackgroundTask[] = [];
-    for (const task of tasks.values()) {
-      if (task.parentSessionID === sessionID) {
-        result.push(task);
-      }
-    }
-    return result;
+  const formatNotice = (task: BackgroundTask): string => {
+    const duration = task.completedAt ? ` in ${Math.round((task.completedAt - task.startedAt) / 1000)}s` : "";
+    const detail = task.status === "completed"
+      ? (task.result ?? "").replace(/\s+/g, " ").trim().substring(0, NOTICE_PREVIEW_CHARS)
+      : task.error ?? "";
+    return `- [${task.status}] ${task.id} "${task.description}"${duration}${detail ? `: ${detail}` : ""}`;
   };
 
-  const cancelTask = (taskId: string): boolean => {
-    const task = tasks.get(taskId);
-    if (!task || task.status !== "running") return false;
+  /**
+   * Post the batched notices of a parent session. In "wake" mode the parent only gets a
+   * turn once none of its tasks are still active; earlier batches are posted silently.
+   */
+  const flushNotices = (parentSessionID: string): void => {
+    noticeTimers.delete(parentSessionID);
+    const finished = pendingNotices.get(parentSessionID);
+    pendingNotices.delete(parentSessionID);
+    if (!finished?.length) return;
 
-    task.status = "cancelled";
-    task.completedAt = Date.now();
+    const stillActive = getTasksByParentSession(parentSessionID).filter(isTaskActive).length;
+    const header = `${finished.length} background task${finished.length === 1 ? "" : "s"} finished` +
+      (stillActive ? ` (${stillActive} still active):` : ":");
+    const footer = `Use background_output(task_id="...") for full results.`;
+    const text = `<background-notification>\n${header}\n${finished.map(formatNotice).join("\n")}\n${footer}\n</background-notification>`;
 
-    // Abort the running session
-    if (task.sessionID) {
-      ctx.client.session.abort({
-        path: { id: task.sessionID },
-        query: { directory: ctx.directory },
-      }).catch((err) => {
-        log(`Failed to abort session for task ${taskId}`, { error: String(err) });
-      });
+    ctx.client.session.prompt({
+      path: { id: parentSessionID },
+      body: {
+        noReply: notifyParent !== "wake" || stillActive > 0,
+        parts: [{ type: "text" as const, text }],
+      },
+      query: { directory: ctx.directory },
+    }).catch((err) => {
+      log(`Failed to post background notification`, { parentSessionID, error: String(err) });
+    });
+    log(`Posted background notification`, { parentSessionID, tasks: finished.map((t) => t.id) });
+  };
+
+  /**
+   * Collect a finished task for the parent's next notice; tasks finishing within
+   * notifyBatchMs of each other share one notice
+   */
+  const queueNotice = (task: BackgroundTask): void => {
+    if (notifyParent === "off") return;
+
+    const pending = pendingNotices.get(task.parentSessionID) ?? [];
+    pending.push(task);
+    pendingNotices.set(task.parentSessionID, pending);
+    if (noticeTimers.has(task.parentSessionID)) return;
+
+    const timer = setTimeout(() => flushNotices(task.parentSessionID), notifyBatchMs);
+    if (timer.unref) {
+      timer.unref();
+    }
+    noticeTimers.set(task.parentSessionID, timer);
+  };
+
+  /**
+   * Abort a task that ran past its wall-clock budget so it stops holding a concurrency slot
+   */
+  const timeOutTask = (task: BackgroundTask): void => {
+    timeouts.delete(task.id);
+    if (task.status !== "running") return;
+
+    task.status = "timed_out";
+    task.error = `Timed out after ${task.timeoutMs}ms`;
+    task.completedAt = Date.now();
+    persist("updated", task);
+    abortSession(task);
+
+    log(`Background task timed out`, { taskId: task.id, timeoutMs: task.timeoutMs });
+    settleTask(task);
+
+    ctx.client.tui.showToast({
+      body: {
+        title: "Background Task Timed Out",
+        message: `${task.description.substring(0, 40)}...`,
+        variant: "warning" as const,
+        duration: 3000,
+      },
+    }).catch((err) => {
+      log(`Toast notification failed`, { taskId: task.id, error: String(err) });
+    });
+  };
+
+  const startTaskTimeout = (task: BackgroundTask, delay: number): void => {
+    const timer = setTimeout(() => timeOutTask(task), Math.max(delay, 0));
+    if (timer.unref) {
+      timer.unref();
+    }
+    timeouts.set(task.id, timer);
+  };
+
+  /**
+   * Record the latest token counts of one assistant message and re-total the task
+   */
+  const recordMessageUsage = (task: BackgroundTask, info: AssistantMessageInfo): void => {
+    if (!info.id || !info.tokens) return;
+
+    const model = info.providerID && info.modelID
+      ? { providerID: info.providerID, modelID: info.modelID }
+      : task.model;
+    let perMessage = messageUsage.get(task.id);
+    if (!perMessage) {
+      perMessage = new Map();
+      messageUsage.set(task.id, perMessage);
+    }
+    perMessage.set(info.id, priceMessageUsage(info.tokens, model, config?.pricing, info.cost));
+
+    const total = emptyUsage();
+    for (const usage of perMessage.values()) {
+      addUsage(total, usage);
+    }
+    task.usage = total;
+  };
+
+  /**
+   * Send the prompt once and classify the outcome for the retry loop
+   */
+  const promptOnce = async (
+    task: BackgroundTask,
+    sessionID: string,
+    text: string,
+    model: ModelConfig,
+    launch: TaskLaunch
+  ): Promise<PromptOutcome> => {
+    const startedAt = Date.now();
+    // Prompts aborted by cancellation, timeouts or preemption say nothing about the model
+    const recordHealth = (outcome: ModelOutcome): void => {
+      if (task.status === "running") modelService?.recordModelOutcome(model, outcome);
+    };
+
+    try {
+      const promptResp = await ctx.client.session.prompt({
+        path: { id: sessionID },
+        body: {
+          parts: [{ type: "text" as const, text }],
+          model,
+          ...(launch.sessionAgent && { agent: launch.sessionAgent }),
+          ...(launch.tools && { tools: launch.tools }),
+        },
+        query: { directory: taskDirectory(task) },
+      });
+
+      // HTTP-level errors are treated as transient
+      if (promptResp.error) {
+        const error = `Prompt failed: ${JSON.stringify(promptResp.error)}`;
+        recordHealth({ ok: false, error });
+        return { kind: "transient", error };
+      }
+
+      const promptData = promptResp.data as {
+        info?: AssistantMessageInfo & {
+          role?: string;
+          error?: PromptError;
+        };
+        parts?: Array<{ type: string; text?: string }>;
+      } | undefined;
+
+      if (promptData?.info) {
+        recordMessageUsage(task, promptData.info);
+      }
+
+      if (promptData?.info?.error) {
+        const err = promptData.info.error;
+        const errMsg = err.data?.message || err.name || "Unknown error";
+        const kind = classifyPromptError(err);
+        if (kind !== "fatal") {
+          recordHealth({ ok: false, error: `[${err.name}] ${errMsg}`, rateLimited: isRateLimitError(err) });
+        }
+        return { kind, error: `[${err.name}] ${errMsg}` };
+      }
+
+      const result = promptData?.parts
+        ?.filter((p) => p.type === "text" && p.text)
+        .map((p) => p.text)
+        .join("\n") || "";
+      recordHealth(result ? { ok: true, latencyMs: Date.now() - startedAt } : { ok: false, error: "Empty response" });
+      return { kind: "success", result };
+    } catch (err) {
+      recordHealth({ ok: false, error: String(err) });
+      return { kind: "transient", error: String(err) };
+    }
+  };
+
+  /**
+   * Ordered, de-duplicated list of models a task may run on
+   */
+  const buildModelChain = (resolvedModel: ModelConfig, parentModel?: ModelConfig): ModelConfig[] => {
+    const fallbacks = retryPolicy.fallbackModels
+      .map((reference) => {
+        const model = modelService?.resolveModelReference(reference) ?? parseModelReference(reference);
+        if (!model) {
+          log(`[background-manager] Ignoring unresolvable fallback model`, { reference });
+        }
+        return model;
+      })
+      .filter((model): model is ModelConfig => model !== undefined);
+
+    const chain: ModelConfig[] = [];
+    for (const model of [resolvedModel, ...fallbacks, parentModel]) {
+      if (model && !chain.some((m) => m.providerID === model.providerID && m.modelID === model.modelID)) {
+        chain.push(model);
+      }
+    }
+    return chain;
+  };
+
+  /**
+   * Prompt through the model chain with the retry policy. Returns the reply, or undefined
+   * when the task stopped running; throws once attempts and fallbacks are exhausted.
+   */
+  const promptWithRetries = async (
+    task: BackgroundTask,
+    sessionID: string,
+    text: string,
+    modelChain: ModelConfig[],
+    launch: TaskLaunch
+  ): Promise<string | undefined> => {
+    const taskId = task.id;
+    // A resumed or escalated task keeps the attempts of its earlier runs
+    const attempts = task.attempts ?? [];
+    task.attempts = attempts;
+    let modelIndex = 0;
+    let transientFailures = 0;
+
+    for (;;) {
+      const attemptModel = modelChain[modelIndex];
+      const attempt: TaskAttempt = {
+        attempt: attempts.length + 1,
+        model: attemptModel,
+        startedAt: Date.now(),
+      };
+      attempts.push(attempt);
+      task.model = attemptModel;
+      log(`Using model for subagent`, { taskId, attempt: attempt.attempt, ...attemptModel });
+
+      const outcome = await promptOnce(task, sessionID, text, attemptModel, launch);
+
+      // Cancelled while the prompt was in flight
+      if (task.status !== "running") return undefined;
+
+      attempt.completedAt = Date.now();
+      attempt.outcome = outcome.kind === "success" ? (outcome.result ? "success" : "empty") : outcome.kind;
+      const retriesLeft = transientFailures + 1 < retryPolicy.maxAttempts;
+      const canFallBack = modelIndex < modelChain.length - 1;
+
+      // An empty response is retried while attempts remain, otherwise accepted as the result
+      if (outcome.kind === "success" && (outcome.result || !retriesLeft)) {
+        return outcome.result;
+      }
+
+      attempt.error = outcome.kind === "success" ? "Empty response" : outcome.error;
+      persist("updated", task);
+
+      if (outcome.kind === "model" && canFallBack) {
+        modelIndex++;
+        log(`[background-manager] Model unavailable, falling back to next model`, {
+          taskId,
+          error: attempt.error,
+          failedModel: attemptModel,
+          fallbackModel: modelChain[modelIndex],
+        });
+        continue;
+      }
+
+      const retryable = outcome.kind === "transient" || outcome.kind === "success";
+      // Transient failures are retried on the same model; the chain moves on once they run out
+      if (retryable && !retriesLeft && canFallBack) {
+        modelIndex++;
+        transientFailures = 0;
+        log(`[background-manager] Retries exhausted, falling back to next model`, {
+          taskId,
+          error: attempt.error,
+          failedModel: attemptModel,
+          fallbackModel: modelChain[modelIndex],
+        });
+        continue;
+      }
+
+      if (retryable && retriesLeft) {
+        transientFailures++;
+
+        const delay = Math.min(
+          retryPolicy.backoffMs * 2 ** (transientFailures - 1),
+          retryPolicy.maxBackoffMs
+        );
+        log(`[background-manager] Retrying background task`, {
+          taskId,
+          error: attempt.error,
+          nextAttempt: attempts.length + 1,
+          delay,
+        });
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        if (task.status !== "running") return undefined;
+        continue;
+      }
+
+      throw new Error(attempt.error);
+    }
+  };
+
+  /**
+   * Start a registered task: create its child session and prompt the agent.
+   * Dependency results are appended to the prompt here, once every dependency has completed.
+   */
+  const runTask = (task: BackgroundTask, launch: TaskLaunch): void => {
+    const { agent, resolvedModel, parentModel } = launch;
+    const { id: taskId, description, parentSessionID } = task;
+    const prompt = launch.injectDependencyResults && task.dependsOn?.length
+      ? `${launch.prompt}\n\n${formatDependencyResults(task.dependsOn)}`
+      : launch.prompt;
+
+    task.status = "running";
+    task.startedAt = Date.now();
+    persist("updated", task);
+    if (task.timeoutMs) {
+      startTaskTimeout(task, task.timeoutMs);
+    }
+
+    const done = (async () => {
+      try {
+        if (launch.isolation === "worktree") {
+          task.worktree = await createWorktree(ctx.directory, taskId);
+          persist("updated", task);
+          if (task.status !== "running") {
+            void releaseWorktree(task);
+            return;
+          }
+        }
+
+        // Continuations prompt the existing child session instead of creating one
+        let sessionID = launch.sessionID;
+        if (!sessionID) {
+          const sessionResp = await ctx.client.session.create({
+            body: {
+              parentID: parentSessionID,
+              title: `${agent}: ${description}`,
+            },
+            query: { directory: taskDirectory(task) },
+          });
+
+          sessionID = (sessionResp.data as { id?: string })?.id ?? (sessionResp as { id?: string }).id;
+          if (!sessionID) throw new Error("Failed to create session");
+        }
+
+        task.sessionID = sessionID;
+        persist("updated", task);
+
+        // Timed out or cancelled before the session existed
+        if (task.status !== "running") {
+          abortSession(task);
+          return;
+        }
+
+        // Apply OMCO-002: Inject agent system prompt (already in a continued session's history)
+        const canonicalName = isAlias(agent) ? getCanonicalName(agent) : agent;
+        const agentDef = getAgent(canonicalName);
+        const systemPrompt = launch.sessionID ? "" : agentDef?.systemPrompt || "";
+        const fullPrompt = systemPrompt ? `${systemPrompt}\n\n${prompt}` : prompt;
+
+        let text = fullPrompt;
+        let model = resolvedModel;
+        let result = "";
+
+        for (;;) {
+          // Why the reply is not good enough; escalated to the next tier when routing allows
+          let insufficient: string | undefined;
+          let failed = false;
+
+          try {
+            // Model chain: tier model > configured fallbacks > parent session model
+            const reply = await promptWithRetries(task, sessionID, text, buildModelChain(model, parentModel), launch);
+            if (reply === undefined) return;
+            result = reply;
+            if (!result && launch.escalation && nextEscalation(launch.escalation, task.escalations)) {
+              insufficient = "Empty response";
+            }
+          } catch (err) {
+            insufficient = err instanceof Error ? err.message : String(err);
+            failed = true;
+          }
+
+          if (!insufficient && launch.outputSchema) {
+            const enforced = await enforceOutputSchema(launch.outputSchema, result, async (repairPrompt) => {
+              log(`[background-manager] Result does not match output schema, re-prompting`, { taskId });
+              const outcome = await promptOnce(task, sessionID, repairPrompt, task.model ?? resolvedModel, launch);
+              if (task.status !== "running") return undefined;
+              if (outcome.kind !== "success") throw new Error(outcome.error);
+              return outcome.result;
+            });
+            if (!enforced) return;
+
+            result = enforced.text;
+            if ("error" in enforced) {
+              insufficient = enforced.error;
+            } else {
+              task.output = enforced.data;
+            }
+          }
+
+          if (!insufficient) break;
+
+          const next = launch.escalation && nextEscalation(launch.escalation, task.escalations);
+          if (!next) {
+            // Keep the non-conforming answer for inspection
+            if (!failed) task.result = result;
+            throw new Error(insufficient);
+          }
+
+          const escalation: TierEscalation = {
+            from: task.routingTier ?? launch.escalation!.tier,
+            to: next.tier,
+            reason: insufficient,
+            at: Date.now(),
+          };
+          task.escalations = [...(task.escalations ?? []), escalation];
+          task.routingTier = next.tier;
+          persist("updated", task);
+          log(`[background-manager] Escalating task to a higher tier`, { taskId, ...escalation, model: next.model });
+
+          model = next.model;
+          // A failed prompt is sent again; an insufficient answer gets a follow-up
+          if (!failed) text = formatEscalationPrompt(insufficient, launch.outputSchema);
+        }
+        // Hand back the worktree's changes instead of leaving them in a stray directory
+        if (task.worktree) {
+          const worktreeResult = await finalizeWorktree(task.worktree, `${agent}: ${description}`);
+          result = formatWorktreeResult(worktreeResult, result);
+          if (task.status !== "running") return;
+        }
+
+        task.result = result;
+        task.status = "completed";
+        task.completedAt = Date.now();
+        persist("updated", task);
+
+        log(`Background task completed`, { taskId, duration: task.completedAt - task.startedAt });
+        settleTask(task);
+
+        ctx.client.tui.showToast({
+          body: {
+            title: "Background Task Completed",
+            message: `${description.substring(0, 40)}...`,
+            variant: "success" as const,
+            duration: 3000,
+          },
+        }).catch((err) => {
+          log(`Toast notification failed`, { taskId, error: String(err) });
+        });
+
+      } catch (err) {
+        if (task.status !== "running") return;
+
+        task.status = "failed";
+        task.error = String(err);
+        task.completedAt = Date.now();
+        persist("updated", task);
+
+        log(`Background task failed`, { taskId, error: task.error });
+        settleTask(task);
+      }
+    })();
+
+    runs.set(taskId, { launch, done });
+    void done.then(() => {
+      if (runs.get(taskId)?.done === done) runs.delete(taskId);
+    });
+  };
+
+  const createTask = async (
+    parentSessionID: string,
+    description: string,
+    prompt: string,
+    agent: string,
+    model?: ModelConfig,
+    options: CreateTaskOptions = {}
+  ): Promise<BackgroundTask> => {
+    // Generate task ID early for potential early failure
+    const taskId = generateTaskId();
+    const dependsOn = [...new Set(options.dependsOn ?? [])];
+
+    try {
+      const unknownDeps = dependsOn.filter((depId) => !tasks.has(depId));
+      if (unknownDeps.length > 0) {
+        throw new Error(`Unknown dependency task(s): ${unknownDeps.join(", ")}`);
+      }
+
+      // Resolve model: explicit model > tier mapping > parent session model > provider detection
+      const parentModel = model || await getParentSessionModel(parentSessionID);
+      const resolvedModel = modelService && !(options.explicitModel && model)
+        ? modelService.resolveModelForAgent(agent, parentModel)
+        : parentModel;
+
+      // [CRITICAL] Check for undefined BEFORE creating session
+      if (!resolvedModel) {
+        throw new Error(
+          `[OMCO] No model available for agent "${agent}". ` +
+          `Configure tier mapping with 'npx omco-setup'.`
+        );
+      }
+
+      if (resolvedModel !== parentModel) {
+        log(`[background-manager] Using tier-mapped model for ${agent}`, {
+          providerID: resolvedModel.providerID,
+          modelID: resolvedModel.modelID,
+        });
+      }
+
+      // Now safe to create task
+      const task: BackgroundTask = {
+        id: taskId,
+        status: dependsOn.length > 0 ? "waiting" : "queued",
+        description,
+        parentSessionID,
+        model: resolvedModel,
+        startedAt: Date.now(),
+      };
+      if (dependsOn.length > 0) {
+        task.dependsOn = dependsOn;
+      }
+      if (options.groupId) {
+        task.groupId = options.groupId;
+      }
+      if (options.sessionID) {
+        task.sessionID = options.sessionID;
+      }
+      if (options.outputSchema) {
+        task.outputSchema = options.outputSchema.name;
+      }
+      if (options.category) {
+        task.category = options.category;
+      }
+      if (options.categoryRationale) {
+        task.categoryRationale = options.categoryRationale;
+      }
+      if (options.routingTier) {
+        task.routingTier = options.routingTier;
+      }
+      const priority = resolveAgentPriority(agent, agentOverrides, options.priority);
+      if (priority !== "normal") {
+        task.priority = priority;
+      }
+      const timeoutMs = resolveAgentTimeout(agent, agentOverrides, options.timeoutMs);
+      if (timeoutMs) {
+        task.timeoutMs = timeoutMs;
+      }
+
+      tasks.set(taskId, task);
+      persist("created", task);
+
+      log(`Background task created`, { taskId, description, agent, dependsOn, timeoutMs });
+
+      const launch: TaskLaunch = {
+        prompt,
+        agent,
+        resolvedModel,
+        parentModel,
+        injectDependencyResults: options.injectDependencyResults ?? false,
+        isolation: options.isolation ?? "none",
+        sessionID: options.sessionID,
+        outputSchema: options.outputSchema,
+        categoryConcurrency: options.categoryConcurrency,
+        tools: options.tools,
+        sessionAgent: options.sessionAgent,
+        escalation: options.escalation,
+      };
+
+      const failedDep = dependsOn
+        .map((depId) => tasks.get(depId)!)
+        .find((dep) => dep.status === "failed" || dep.status === "cancelled");
+
+      if (failedDep) {
+        cancelForDependency(task, failedDep);
+      } else if (dependsOn.every((depId) => tasks.get(depId)?.status === "completed")) {
+        scheduleTask(task, launch);
+      } else {
+        pendingLaunches.set(taskId, launch);
+      }
+
+      return task;
+    } catch (err) {
+      // [CRITICAL] Return immediately failed task with actionable error
+      // This handles both model resolution errors AND any session creation errors
+      const failedTask: BackgroundTask = {
+        id: taskId,
+        status: "failed",
+        description,
+        parentSessionID,
+        groupId: options.groupId,
+        error: String(err),
+        startedAt: Date.now(),
+        completedAt: Date.now(),
+      };
+      tasks.set(taskId, failedTask);
+      persist("created", failedTask);
+      log(`Background task failed during creation`, { taskId, error: String(err) });
+      return failedTask;
+    }
+  };
+
+  // A continued session is shared by several tasks; the active one owns its events
+  const findTaskBySession = (sessionID: string): BackgroundTask | undefined => {
+    let latest: BackgroundTask | undefined;
+    for (const task of tasks.values()) {
+      if (task.sessionID !== sessionID) continue;
+      if (isTaskActive(task)) return task;
+      latest = task;
+    }
+    return latest;
+  };
+
+  const getOutputBuffer = (taskId: string): OutputBuffer => {
+    let buffer = outputs.get(taskId);
+    if (!buffer) {
+      buffer = { chunks: [], nextSeq: 1, capturedPartLengths: new Map(), assistantMessageIDs: new Set() };
+      outputs.set(taskId, buffer);
+    }
+    return buffer;
+  };
+
+  const appendOutput = (buffer: OutputBuffer, type: TaskOutputChunk["type"], text: string): void => {
+    buffer.chunks.push({ seq: buffer.nextSeq++, type, text, timestamp: Date.now() });
+    if (buffer.chunks.length > MAX_OUTPUT_CHUNKS) {
+      buffer.chunks.splice(0, buffer.chunks.length - MAX_OUTPUT_CHUNKS);
+    }
+  };
+
+  const touchProgress = (task: BackgroundTask): TaskProgress => {
+    task.progress ??= { toolCalls: 0, outputChars: 0, lastActivityAt: Date.now() };
+    task.progress.lastActivityAt = Date.now();
+    return task.progress;
+  };
+
+  /**
+   * Capture assistant text and tool-call summaries from child sessions as they stream in
+   */
+  const event = async (input: { event: { type: string; properties?: unknown } }): Promise<void> => {
+    const { event } = input;
+    const props = event.properties as Record<string, unknown> | undefined;
+
+    if (event.type === "message.updated") {
+      const info = props?.info as (AssistantMessageInfo & { sessionID?: string; role?: string }) | undefined;
+      if (!info?.id || info.role !== "assistant" || !info.sessionID) return;
+
+      const task = findTaskBySession(info.sessionID);
+      if (task) {
+        getOutputBuffer(task.id).assistantMessageIDs.add(info.id);
+        recordMessageUsage(task, info);
+      }
+      return;
     }
 
+    if (event.type !== "message.part.updated") return;
+
+    const part = props?.part as {
+      id: string;
+      sessionID: string;
+      messageID: string;
+      type: string;
+      text?: string;
+      tool?: string;
+      state?: { status: string; title?: string; error?: string };
+    } | undefined;
+    if (!part?.sessionID) return;
+
+    const task = findTaskBySession(part.sessionID);
+    if (!task || task.status !== "running") return;
+    const buffer = getOutputBuffer(task.id);
+
+    if (part.type === "text" && part.text && buffer.assistantMessageIDs.has(part.messageID)) {
+      const captured = buffer.capturedPartLengths.get(part.id) ?? 0;
+      if (part.text.length <= captured) return;
+
+      const delta = part.text.substring(captured);
+      buffer.capturedPartLengths.set(part.id, part.text.length);
+      appendOutput(buffer, "text", delta);
+      touchProgress(task).outputChars += delta.length;
+      return;
+    }
+
+    if (part.type === "tool" && part.tool && part.state) {
+      const progress = touchProgress(task);
+      if (part.state.status === "running") {
+        progress.currentTool = part.tool;
+        return;
+      }
+
+      if (part.state.status === "completed" || part.state.status === "error") {
+        // Tool parts update several times after completion (metadata); summarize once
+        if (buffer.capturedPartLengths.has(part.id)) return;
+        buffer.capturedPartLengths.set(part.id, 0);
+
+        progress.toolCalls++;
+        progress.currentTool = undefined;
+        const summary = part.state.status === "error"
+          ? `${part.tool} failed: ${part.state.error ?? "unknown error"}`
+          : `${part.tool}${part.state.title ? `: ${part.state.title}` : ""}`;
+        appendOutput(buffer, "tool", summary);
+      }
+    }
+  };
+
+  const getTaskOutput = (taskId: string, since = 0): TaskOutput | undefined => {
+    const task = tasks.get(taskId);
+    if (!task) return undefined;
+
+    const buffer = outputs.get(taskId);
+    const chunks = buffer?.chunks.filter((chunk) => chunk.seq > since) ?? [];
+    const oldestSeq = buffer?.chunks[0]?.seq ?? 1;
+
+    return {
+      chunks,
+      cursor: buffer ? buffer.nextSeq - 1 : since,
+      truncated: since + 1 < oldestSeq,
+      progress: task.progress,
+    };
+  };
+
+  /**
+   * Roll up usage of every background task started from a parent session
+   */
+  const getSessionUsage = (parentSessionID: string): SessionUsage => {
+    const summary: SessionUsage = { taskCount: 0, total: emptyUsage(), byModel: {} };
+    for (const task of tasks.values()) {
+      if (task.parentSessionID !== parentSessionID) continue;
+      summary.taskCount++;
+      if (!task.usage) continue;
+
+      addUsage(summary.total, task.usage);
+      const modelKey = task.model ? `${task.model.providerID}/${task.model.modelID}` : "unknown";
+      addUsage(summary.byModel[modelKey] ??= emptyUsage(), task.usage);
+    }
+    return summary;
+  };
+
+  /**
+   * Project-relative file a write tool call targets. Arguments come from tool.execute.before;
+   * the tool's result metadata is the fallback when the call was not seen beforehand.
+   */
+  const toProjectPath = (file: unknown): string | undefined => {
+    if (typeof file !== "string" || !file) return undefined;
+    return path.relative(ctx.directory, path.resolve(ctx.directory, file));
+  };
+
+  const getWriteTarget = (tool: string, args: Record<string, unknown> | undefined): string | undefined => {
+    if (!FILE_WRITE_TOOLS.has(tool)) return undefined;
+    return toProjectPath(args?.filePath ?? args?.file_path ?? args?.path);
+  };
+
+  // Other running tasks that already wrote to the file
+  const findOverlappingTasks = (task: BackgroundTask, file: string): BackgroundTask[] => {
+    return [...tasks.values()].filter((other) =>
+      other.id !== task.id && other.status === "running" && other.filesTouched?.includes(file)
+    );
+  };
+
+  /**
+   * Record overlapping writes on the task and post a conflict report to its parent session
+   */
+  const reportConflicts = (
+    task: BackgroundTask,
+    file: string,
+    others: BackgroundTask[],
+    blocked: boolean
+  ): void => {
+    task.conflicts ??= [];
+    const lines: string[] = [];
+    for (const other of others) {
+      if (!blocked && task.conflicts.some((c) => c.file === file && c.taskId === other.id)) continue;
+      task.conflicts.push({ file, taskId: other.id, detectedAt: Date.now(), ...(blocked ? { blocked } : {}) });
+      lines.push(`- ${file}: ${task.id} (${task.description}) and ${other.id} (${other.description})`);
+    }
+    if (lines.length === 0) return;
+
+    persist("updated", task);
+    log(`Background task file conflict`, { taskId: task.id, file, others: others.map((t) => t.id), blocked });
+
+    const report = blocked
+      ? `A background task was blocked from writing a file another running task is editing:\n${lines.join("\n")}`
+      : `Background tasks running in parallel edited the same file:\n${lines.join("\n")}\nReview it before accepting either result.`;
+
+    ctx.client.session.prompt({
+      path: { id: task.parentSessionID },
+      body: {
+        noReply: true,
+        parts: [{ type: "text" as const, text: `<background-conflict>\n${report}\n</background-conflict>` }],
+      },
+      query: { directory: ctx.directory },
+    }).catch((err) => {
+      log(`Failed to post conflict report`, { taskId: task.id, error: String(err) });
+    });
+
+    ctx.client.tui.showToast({
+      body: {
+        title: blocked ? "Background Write Blocked" : "Background Task Conflict",
+        message: `${file} (${task.id})`,
+        variant: "warning" as const,
+        duration: 5000,
+      },
+    }).catch((err) => {
+      log(`Toast notification failed`, { taskId: task.id, error: String(err) });
+    });
+  };
+
+  const toolExecuteBefore = async (
+    input: { tool: string; sessionID: string; callID: string },
+    output: { args: Record<string, unknown> }
+  ): Promise<void> => {
+    const syncRun = [...syncRuns].find((run) => run.sessionID === input.sessionID);
+    if (syncRun && !isToolAllowed(input.tool, syncRun.tools)) {
+      throw new Error(`[OMCO] Tool "${input.tool}" is not allowed for category ${syncRun.category}.`);
+    }
+
+    const task = findTaskBySession(input.sessionID);
+    if (!task || task.status !== "running") return;
+
+    // Backstop for the per-prompt tool map of category tasks
+    const tools = runs.get(task.id)?.launch.tools;
+    if (!isToolAllowed(input.tool, tools)) {
+      throw new Error(`[OMCO] Tool "${input.tool}" is not allowed for ${task.category ? `category ${task.category}` : "this task"}.`);
+    }
+
+    const file = getWriteTarget(input.tool, output.args);
+    if (!file || task.worktree) return;
+
+    if (conflictPolicy === "block") {
+      const others = findOverlappingTasks(task, file);
+      if (others.length > 0) {
+        reportConflicts(task, file, others, true);
+        throw new Error(
+          `[OMCO] ${file} is being modified by background task ${others[0].id} (${others[0].description}). ` +
+          `Do not edit it; describe the change you need in your result instead.`
+        );
+      }
+    }
+
+    pendingWrites.set(input.callID, file);
+  };
+
+  const toolExecuteAfter = async (
+    input: { tool: string; sessionID: string; callID: string },
+    output: { title: string; output: string; metadata: unknown }
+  ): Promise<void> => {
+    const metadata = output.metadata as { filepath?: string; filediff?: { file?: string } } | undefined;
+    const file = pendingWrites.get(input.callID) ??
+      (FILE_WRITE_TOOLS.has(input.tool) ? toProjectPath(metadata?.filepath ?? metadata?.filediff?.file) : undefined);
+    pendingWrites.delete(input.callID);
+    if (!file) return;
+
+    const task = findTaskBySession(input.sessionID);
+    if (!task || task.status !== "running" || task.worktree) return;
+
+    if (!task.filesTouched?.includes(file)) {
+      task.filesTouched = [...(task.filesTouched ?? []), file];
+      persist("updated", task);
+    }
+
+    if (conflictPolicy !== "off") {
+      const others = findOverlappingTasks(task, file);
+      if (others.length > 0) {
+        reportConflicts(task, file, others, false);
+      }
+    }
+  };
+
+  const getTask = (taskId: string): BackgroundTask | undefined => {
+    return tasks.get(taskId);
+  };
+
+  const getTasksByParentSession = (sessionID: string): BackgroundTask[] => {
+    const result: BackgroundTask[] = [];
+    for (const task of tasks.values()) {
+      if (task.parentSessionID === sessionID) {
+        result.push(task);
+      }
+    }
+    return result;
+  };
+
+  const getTasksByGroup = (groupId: string): BackgroundTask[] => {
+    return [...tasks.values()].filter((task) => task.groupId === groupId);
+  };
+
+  const cancelTask = (taskId: string): boolean => {
+    const task = tasks.get(taskId);
+    if (!task || !isTaskActive(task)) return false;
+
+    pendingLaunches.delete(taskId);
+    removeFromQueue(taskId);
+    task.status = "cancelled";
+    task.completedAt = Date.now();
+    persist("updated", task);
+
+    // Abort the running session
+    abortSession(task);
+
     log(`Background task cancelled`, { taskId });
+    settleTask(task);
     return true;
   };
 
   const cancelAllTasks = (parentSessionID?: string): number => {
-    let count = 0;
+    const cancelled: BackgroundTask[] = [];
     for (const task of tasks.values()) {
-      if (task.status === "running") {
+      if (isTaskActive(task)) {
         if (!parentSessionID || task.parentSessionID === parentSessionID) {
+          pendingLaunches.delete(task.id);
+          removeFromQueue(task.id);
           task.status = "cancelled";
           task.completedAt = Date.now();
-          count++;
+          persist("updated", task);
+          cancelled.push(task);
 
           // Abort the running session
-          if (task.sessionID) {
-            ctx.client.session.abort({
-              path: { id: task.sessionID },
-              query: { directory: ctx.directory },
-            }).catch((err) => {
-              log(`Failed to abort session for task ${task.id}`, { error: String(err) });
-            });
-          }
+          abortSession(task);
         }
       }
     }
+    // Settle only once every task is marked, so draining the queue cannot start one still to be cancelled
+    for (const task of cancelled) {
+      settleTask(task);
+    }
+
+    const count = cancelled.length;
     log(`Cancelled ${count} background tasks`, { parentSessionID });
     return count;
   };
@@ -444,10 +1741,9 @@ export function createBackgroundManager(
   const waitForTask = async (taskId: string, timeoutMs = 120000): Promise<BackgroundTask> => {
     const task = tasks.get(taskId);
     if (!task) throw new Error(`Task ${taskId} not found`);
-    if (task.status !== "running") return task;
 
     const startTime = Date.now();
-    while (task.status === "running") {
+    while (isTaskActive(task)) {
       if (Date.now() - startTime > timeoutMs) {
         throw new Error(`Task ${taskId} timed out after ${timeoutMs}ms`);
       }
@@ -457,13 +1753,151 @@ export function createBackgroundManager(
     return task;
   };
 
+  /**
+   * Wait until `count` tasks of a group have settled (default: all of them).
+   * Unlike waitForTask this does not throw on timeout; callers inspect the returned statuses.
+   */
+  const waitForGroup = async (
+    groupId: string,
+    count?: number,
+    timeoutMs = 120000
+  ): Promise<BackgroundTask[]> => {
+    const startTime = Date.now();
+    for (;;) {
+      const group = getTasksByGroup(groupId);
+      const settled = group.filter((task) => !isTaskActive(task)).length;
+      if (settled >= Math.min(count ?? group.length, group.length) || Date.now() - startTime > timeoutMs) {
+        return group;
+      }
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+  };
+
+  /**
+   * Reconcile a task that was running when the plugin last stopped against its child session.
+   * Finished sessions resolve the task; sessions that are still working are re-checked until idle.
+   */
+  const RECONCILE_INTERVAL_MS = 5000;
+  const reconcileTask = async (task: BackgroundTask): Promise<void> => {
+    if (task.status !== "running" || !task.sessionID) return;
+
+    const markFinished = (status: "completed" | "failed" | "timed_out", fields: Partial<BackgroundTask>): void => {
+      if (task.status !== "running") return;
+      Object.assign(task, fields);
+      task.status = status;
+      task.completedAt = Date.now();
+      persist("updated", task);
+      log(`Reconciled background task after restart`, { taskId: task.id, status });
+      if (status !== "completed") {
+        void releaseWorktree(task);
+      }
+    };
+
+    try {
+      const messagesResp = await ctx.client.session.messages({
+        path: { id: task.sessionID },
+        query: { directory: taskDirectory(task) },
+      });
+
+      if (messagesResp.error || !messagesResp.data) {
+        throw new Error(`Session ${task.sessionID} not found`);
+      }
+
+      const messages = messagesResp.data as Array<{
+        info: {
+          role: string;
+          time?: { completed?: number };
+          error?: { name: string; data?: { message?: string } };
+        };
+        parts?: Array<{ type: string; text?: string }>;
+      }>;
+
+      const last = messages[messages.length - 1];
+      if (last?.info.role === "assistant" && last.info.error) {
+        const err = last.info.error;
+        markFinished("failed", { error: `[${err.name}] ${err.data?.message || err.name}` });
+      } else if (last?.info.role === "assistant" && last.info.time?.completed) {
+        let result = last.parts
+          ?.filter((p) => p.type === "text" && p.text)
+          .map((p) => p.text)
+          .join("\n") || "";
+        if (task.worktree) {
+          result = formatWorktreeResult(await finalizeWorktree(task.worktree, task.description), result);
+        }
+        markFinished("completed", { result });
+      } else if (task.timeoutMs && Date.now() - task.startedAt > task.timeoutMs) {
+        markFinished("timed_out", { error: `Timed out after ${task.timeoutMs}ms` });
+        abortSession(task);
+      } else if (Date.now() - task.startedAt > TASK_MAX_AGE_MS) {
+        markFinished("failed", { error: `Task did not finish within ${TASK_MAX_AGE_MS}ms after restart` });
+      } else {
+        const timer = setTimeout(() => void reconcileTask(task), RECONCILE_INTERVAL_MS);
+        if (timer.unref) {
+          timer.unref();
+        }
+      }
+    } catch (err) {
+      markFinished("failed", { error: `Lost track of task after restart: ${String(err)}` });
+    }
+  };
+
+  // Rehydrate tasks from the journal written by a previous plugin instance
+  const restorePersistedTasks = (): void => {
+    const persisted = readTaskJournal(ctx.directory);
+    if (persisted.length === 0) return;
+
+    const now = Date.now();
+    for (const task of persisted) {
+      if (!isTaskActive(task)) {
+        if (task.completedAt && now - task.completedAt <= TASK_MAX_AGE_MS) {
+          tasks.set(task.id, task);
+        }
+        continue;
+      }
+
+      tasks.set(task.id, task);
+      if (task.status === "waiting" || task.status === "queued") {
+        const phase = task.status === "waiting" ? "waiting for dependencies" : "queued";
+        task.status = "failed";
+        task.error = `Interrupted by plugin restart while ${phase}`;
+        task.completedAt = now;
+        continue;
+      }
+
+      if (!task.sessionID) {
+        task.status = "failed";
+        task.error = "Interrupted by plugin restart before its session was created";
+        task.completedAt = now;
+        continue;
+      }
+
+      void reconcileTask(task);
+    }
+
+    compactTaskJournal(ctx.directory, [...tasks.values()]);
+    log(`Restored background tasks from journal`, { tasks: tasks.size });
+  };
+
+  if (persistTasks) {
+    restorePersistedTasks();
+  }
+
   return {
     createTask,
     getTask,
     getTasksByParentSession,
+    getTasksByGroup,
     cancelTask,
     cancelAllTasks,
     waitForTask,
+    waitForGroup,
+    getQueuePosition,
+    getTaskOutput,
+    getSessionUsage,
+    event,
+    "tool.execute.before": toolExecuteBefore,
+    "tool.execute.after": toolExecuteAfter,
     getParentSessionModel,
+    acquireSyncSlot,
   };
 }
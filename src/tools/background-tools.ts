@@ -1,9 +1,11 @@
 import { tool, type ToolDefinition } from "@opencode-ai/plugin";
-import type { BackgroundManager } from "./background-manager";
+import { isTaskActive, type BackgroundManager } from "./background-manager";
+import { formatBudgetError, type BudgetGuard } from "./budget-guard";
 
 export function createBackgroundTools(
   manager: BackgroundManager,
-  _client: unknown
+  _client: unknown,
+  budgetGuard?: BudgetGuard
 ): Record<string, ToolDefinition> {
   return {
     background_task: tool({
@@ -14,45 +16,142 @@ Use \`background_output\` to get results. Prompts MUST be in English.`,
         description: tool.schema.string().describe("Short task description"),
         prompt: tool.schema.string().describe("Task prompt for the agent"),
         agent: tool.schema.string().describe("Agent to use (explore, librarian)"),
+        depends_on: tool.schema
+          .array(tool.schema.string())
+          .optional()
+          .describe("Task IDs that must complete first. A failed dependency cancels this task."),
+        inject_dependency_results: tool.schema
+          .boolean()
+          .optional()
+          .describe("Append dependency results to the prompt (default: false)"),
+        timeout_ms: tool.schema
+          .number()
+          .min(1000)
+          .optional()
+          .describe("Abort the task if it runs longer than this (default: agents.<name>.timeout_ms)"),
+        priority: tool.schema
+          .enum(["low", "normal", "high"])
+          .optional()
+          .describe("Scheduling priority: high runs before queued normal/low tasks (default: agents.<name>.priority or normal)"),
       },
       async execute(args, context) {
+        const budgetViolation = budgetGuard?.checkNewWork(context.sessionID, true);
+        if (budgetViolation) {
+          return formatBudgetError(budgetViolation);
+        }
+
         const task = await manager.createTask(
           context.sessionID,
           args.description,
           args.prompt,
-          args.agent
+          args.agent,
+          undefined,
+          {
+            dependsOn: args.depends_on,
+            injectDependencyResults: args.inject_dependency_results,
+            timeoutMs: args.timeout_ms,
+            priority: args.priority,
+          }
         );
 
         return JSON.stringify({
           task_id: task.id,
           status: task.status,
           description: task.description,
-          message: `Background task launched. Use background_output with task_id="${task.id}" to get results.`,
+          depends_on: task.dependsOn,
+          timeout_ms: task.timeoutMs,
+          priority: task.priority,
+          queue_position: manager.getQueuePosition(task.id),
+          error: task.error,
+          message: task.status === "waiting"
+            ? `Background task queued until its dependencies complete. Use background_output with task_id="${task.id}" to get results.`
+            : `Background task launched. Use background_output with task_id="${task.id}" to get results.`,
         });
       },
     }),
 
     background_output: tool({
-      description: `Get output from background task. System notifies on completion, so block=true rarely needed.`,
+      description: `Get output from background task. System notifies on completion, so block=true rarely needed.
+
+Pass \`since\` (the \`cursor\` from a previous call, or 0) to stream partial output of a running task without blocking.
+Pass \`group_id\` (from call_omco_agents) instead of task_id to wait for all, or the first \`wait_for\`, tasks of a group.`,
       args: {
-        task_id: tool.schema.string().describe("Task ID to get output for"),
+        task_id: tool.schema.string().optional().describe("Task ID to get output for"),
+        group_id: tool.schema.string().optional().describe("Task group to wait for (from call_omco_agents)"),
+        wait_for: tool.schema.number().optional().describe("Group mode: return once this many tasks settled (default: all)"),
         block: tool.schema.boolean().optional().describe("Wait for completion (default: false)"),
         timeout: tool.schema.number().optional().describe("Timeout in ms if blocking"),
+        since: tool.schema.number().optional().describe("Return partial output chunks after this cursor"),
       },
       async execute(args) {
+        if (args.group_id) {
+          if (manager.getTasksByGroup(args.group_id).length === 0) {
+            return JSON.stringify({ error: `Group ${args.group_id} not found` });
+          }
+
+          const group = await manager.waitForGroup(args.group_id, args.wait_for, args.timeout);
+          const settled = group
+            .filter((task) => !isTaskActive(task))
+            .sort((a, b) => (a.completedAt ?? 0) - (b.completedAt ?? 0));
+          const target = Math.min(args.wait_for ?? group.length, group.length);
+
+          return JSON.stringify({
+            group_id: args.group_id,
+            total: group.length,
+            settled: settled.length,
+            complete: settled.length >= target,
+            tasks: [...settled, ...group.filter(isTaskActive)].map((task) => ({
+              task_id: task.id,
+              description: task.description,
+              status: task.status,
+              output: task.output,
+              result: task.result,
+              error: task.error,
+              duration_ms: task.completedAt ? task.completedAt - task.startedAt : undefined,
+            })),
+          });
+        }
+
+        if (!args.task_id) {
+          return JSON.stringify({ error: "Specify task_id or group_id" });
+        }
+
         let task = manager.getTask(args.task_id);
         if (!task) {
           return JSON.stringify({ error: `Task ${args.task_id} not found` });
         }
 
-        if (args.block && task.status === "running") {
+        if (args.block && isTaskActive(task)) {
           task = await manager.waitForTask(args.task_id, args.timeout);
         }
 
+        const output = args.since !== undefined
+          ? manager.getTaskOutput(task.id, args.since)
+          : undefined;
+
         return JSON.stringify({
           task_id: task.id,
           status: task.status,
           description: task.description,
+          depends_on: task.dependsOn,
+          category: task.category,
+          category_rationale: task.categoryRationale,
+          routing_tier: task.routingTier,
+          escalations: task.escalations,
+          model: task.model,
+          attempts: task.attempts,
+          priority: task.priority,
+          preemptions: task.preemptions,
+          queue_position: manager.getQueuePosition(task.id),
+          progress: task.progress,
+          usage: task.usage,
+          files_touched: task.filesTouched,
+          conflicts: task.conflicts,
+          chunks: output?.chunks,
+          cursor: output?.cursor,
+          truncated: output?.truncated || undefined,
+          output_schema: task.outputSchema,
+          output: task.output,
           result: task.result,
           error: task.error,
           duration_ms: task.completedAt ? task.completedAt - task.startedAt : undefined,
@@ -0,0 +1,202 @@
+/**
+ * Session budgets
+ *
+ * Tracks tokens and estimated cost of a root session, including every child session it
+ * spawned (background tasks, sync agent calls and their descendants), and refuses new
+ * delegation once `budget.maxTokensPerSession`, `budget.maxCostPerSession` or
+ * `budget.maxBackgroundTasks` is reached. Continuation hooks consult the same guard.
+ *
+ * @module budget-guard
+ */
+
+import type { BudgetConfig, ModelPricingConfig } from "../config";
+import { log } from "../shared/logger";
+import {
+  addUsage,
+  emptyUsage,
+  priceMessageUsage,
+  type MessageTokens,
+  type TokenUsage,
+} from "./usage";
+
+export interface BudgetViolation {
+  limit: "maxTokensPerSession" | "maxCostPerSession" | "maxBackgroundTasks";
+  used: number;
+  max: number;
+  message: string;
+}
+
+export interface BudgetGuard {
+  /** Token/cost limits only; used to stop continuation loops */
+  check: (sessionID: string) => BudgetViolation | undefined;
+  /**
+   * All limits, counting the task about to be launched; used before delegating. An allowed
+   * background launch is recorded against maxBackgroundTasks.
+   */
+  checkNewWork: (sessionID: string, background: boolean) => BudgetViolation | undefined;
+  getSessionUsage: (sessionID: string) => TokenUsage;
+  event: (input: { event: { type: string; properties?: unknown } }) => Promise<void>;
+}
+
+/**
+ * Tokens counted against maxTokensPerSession. Cache reads and writes are excluded:
+ * they re-count context the session already paid for.
+ */
+export function countBudgetTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.reasoningTokens;
+}
+
+/**
+ * Structured tool response for work refused by a budget
+ */
+export function formatBudgetError(violation: BudgetViolation): string {
+  return JSON.stringify({
+    status: "budget_exceeded",
+    error: violation.message,
+    budget: {
+      limit: violation.limit,
+      used: violation.used,
+      max: violation.max,
+    },
+  });
+}
+
+export function createBudgetGuard(
+  config?: BudgetConfig,
+  pricing?: ModelPricingConfig
+): BudgetGuard {
+  // Child session -> parent session, from session.created events
+  const parents = new Map<string, string>();
+  // Priced usage per assistant message, grouped by root session
+  const usageByRoot = new Map<string, Map<string, TokenUsage>>();
+  // Background launches per root session; kept after the manager forgets finished tasks
+  const launchesByRoot = new Map<string, number>();
+
+  const getRootSession = (sessionID: string): string => {
+    let current = sessionID;
+    const seen = new Set<string>();
+    while (parents.has(current) && !seen.has(current)) {
+      seen.add(current);
+      current = parents.get(current)!;
+    }
+    return current;
+  };
+
+  const getSessionUsage = (sessionID: string): TokenUsage => {
+    const total = emptyUsage();
+    for (const usage of usageByRoot.get(getRootSession(sessionID))?.values() ?? []) {
+      addUsage(total, usage);
+    }
+    return total;
+  };
+
+  const check = (sessionID: string): BudgetViolation | undefined => {
+    if (!config) return undefined;
+    const usage = getSessionUsage(sessionID);
+
+    const tokens = countBudgetTokens(usage);
+    if (config.maxTokensPerSession !== undefined && tokens >= config.maxTokensPerSession) {
+      return {
+        limit: "maxTokensPerSession",
+        used: tokens,
+        max: config.maxTokensPerSession,
+        message: `Session token budget exhausted: ${tokens} of ${config.maxTokensPerSession} tokens used`,
+      };
+    }
+
+    if (config.maxCostPerSession !== undefined && usage.cost >= config.maxCostPerSession) {
+      const cost = Math.round(usage.cost * 100) / 100;
+      return {
+        limit: "maxCostPerSession",
+        used: usage.cost,
+        max: config.maxCostPerSession,
+        message: `Session cost budget exhausted: $${cost} of $${config.maxCostPerSession} spent`,
+      };
+    }
+
+    return undefined;
+  };
+
+  const checkNewWork = (sessionID: string, background: boolean): BudgetViolation | undefined => {
+    const violation = check(sessionID);
+    if (violation || !background || config?.maxBackgroundTasks === undefined) {
+      return violation;
+    }
+
+    const rootID = getRootSession(sessionID);
+    const launched = launchesByRoot.get(rootID) ?? 0;
+    if (launched >= config.maxBackgroundTasks) {
+      return {
+        limit: "maxBackgroundTasks",
+        used: launched,
+        max: config.maxBackgroundTasks,
+        message: `Session background task budget exhausted: ${launched} of ${config.maxBackgroundTasks} tasks launched`,
+      };
+    }
+
+    launchesByRoot.set(rootID, launched + 1);
+    return undefined;
+  };
+
+  const event = async (input: { event: { type: string; properties?: unknown } }): Promise<void> => {
+    const { event } = input;
+    const props = event.properties as Record<string, unknown> | undefined;
+
+    if (event.type === "session.created") {
+      const info = props?.info as { id?: string; parentID?: string } | undefined;
+      if (info?.id && info.parentID) {
+        parents.set(info.id, info.parentID);
+      }
+      return;
+    }
+
+    if (event.type === "session.deleted") {
+      const info = props?.info as { id?: string } | undefined;
+      if (info?.id && !parents.has(info.id)) {
+        usageByRoot.delete(info.id);
+        launchesByRoot.delete(info.id);
+      }
+      return;
+    }
+
+    if (event.type !== "message.updated") return;
+
+    const info = props?.info as {
+      id?: string;
+      sessionID?: string;
+      role?: string;
+      providerID?: string;
+      modelID?: string;
+      tokens?: MessageTokens;
+      cost?: number;
+    } | undefined;
+    if (!info?.id || !info.sessionID || info.role !== "assistant" || !info.tokens) return;
+
+    const rootID = getRootSession(info.sessionID);
+    let perMessage = usageByRoot.get(rootID);
+    if (!perMessage) {
+      perMessage = new Map();
+      usageByRoot.set(rootID, perMessage);
+    }
+
+    const model = info.providerID && info.modelID
+      ? { providerID: info.providerID, modelID: info.modelID }
+      : undefined;
+    const hadViolation = check(rootID) !== undefined;
+    perMessage.set(info.id, priceMessageUsage(info.tokens, model, pricing, info.cost));
+
+    if (!hadViolation) {
+      const violation = check(rootID);
+      if (violation) {
+        log(`[budget-guard] Session budget exhausted`, { sessionID: rootID, limit: violation.limit });
+      }
+    }
+  };
+
+  return {
+    check,
+    checkNewWork,
+    getSessionUsage,
+    event,
+  };
+}
@@ -1,11 +1,54 @@
 import { tool, type PluginInput, type ToolDefinition } from "@opencode-ai/plugin";
-import type { BackgroundManager, ModelConfig } from "./background-manager";
+import {
+  generateGroupId,
+  isTaskActive,
+  resolveAgentTimeout,
+  type BackgroundManager,
+  classifyPromptError,
+  type BackgroundTask,
+  type ModelConfig,
+  type SyncSlot,
+  type TaskAttempt,
+} from "./background-manager";
+import { formatBudgetError, type BudgetGuard } from "./budget-guard";
+import {
+  createWorktree,
+  finalizeWorktree,
+  formatWorktreeResult,
+  type WorktreeInfo,
+} from "../shared/worktree";
 import type { ModelResolutionService } from "./model-resolution-service";
+import { isRateLimitError } from "./model-health";
+import {
+  formatEscalationPrompt,
+  nextEscalation,
+  type ComplexityRouter,
+  type EscalationPolicy,
+  type RoutingDecision,
+  type TierEscalation,
+} from "./complexity-router";
 import { getAgent, listAgentNames, getCanonicalName, isAlias } from "../agents";
 import { log } from "../shared/logger";
-import { resolveCategoryConfig, getAvailableCategories, CATEGORY_DESCRIPTIONS } from "../categories";
+import {
+  resolveCategoryConfig,
+  getAvailableCategories,
+  classifyCategory,
+  buildToolPermissions,
+  getCategoryAgentName,
+  AUTO_CATEGORY,
+  CATEGORY_DESCRIPTIONS,
+} from "../categories";
 import type { ResolvedCategory } from "../categories/resolver";
-import type { CategoriesConfig } from "../categories/types";
+import type { CategoriesConfig, CategoryConfig } from "../categories/types";
+import type { AgentConfig } from "../config";
+import {
+  OUTPUT_SCHEMAS,
+  enforceOutputSchema,
+  formatSchemaInstructions,
+  resolveOutputSchema,
+  type ResolvedOutputSchema,
+} from "./output-schemas";
+import { findAgentSession, saveAgentSession, type AgentSessionRecord } from "../state";
 
 /**
  * Parse a model string in "provider/model" format to ModelConfig
@@ -18,11 +61,328 @@ function parseModelString(model: string): ModelConfig | undefined {
   return undefined;
 }
 
+interface DelegationSpec {
+  prompt: string;
+  subagent_type?: string;
+  category?: string;
+}
+
+interface PreparedDelegation {
+  enhancedPrompt: string;
+  agentTypeForLogging: string;
+  parentModel?: ModelConfig;
+  resolvedModel?: ModelConfig;
+  /** Category actually used; differs from the request for category "auto" */
+  category?: string;
+  /** Why category "auto" picked `category` */
+  categoryRationale?: string;
+  /** Merged settings of `category` */
+  categoryConfig?: CategoryConfig;
+  /** Complexity tier picked by routing for agent delegations */
+  routing?: RoutingDecision;
+  escalation?: EscalationPolicy;
+}
+
+/**
+ * Validate a delegation target, build its prompt and resolve its model.
+ * Shared by call_omco_agent and call_omco_agents.
+ */
+async function prepareDelegation(
+  spec: DelegationSpec,
+  parentSessionID: string,
+  manager: BackgroundManager,
+  modelService?: ModelResolutionService,
+  userCategories?: CategoriesConfig,
+  router?: ComplexityRouter
+): Promise<PreparedDelegation | { error: string }> {
+  const { prompt, subagent_type } = spec;
+  let category = spec.category;
+  let categoryRationale: string | undefined;
+
+  // OMCO-001: Validate mutually exclusive parameters
+  if (subagent_type && category) {
+    return { error: "subagent_type and category are mutually exclusive. Provide only one." };
+  }
+
+  if (!subagent_type && !category) {
+    return { error: "Either subagent_type or category must be provided." };
+  }
+
+  let enhancedPrompt: string;
+  let categoryModel: string | undefined;
+  let categoryConfig: CategoryConfig | undefined;
+  let agentTypeForLogging: string;
+
+  if (category === AUTO_CATEGORY) {
+    const classification = classifyCategory(prompt, userCategories);
+    category = classification.category;
+    categoryRationale = classification.rationale;
+    log(`[call-omco-agent] Auto-selected category`, { category, rationale: categoryRationale });
+  }
+
+  if (category) {
+    // Category-based delegation
+    const resolved: ResolvedCategory | null = resolveCategoryConfig(category, userCategories);
+    if (!resolved) {
+      return {
+        error: `Unknown category: ${category}. Available: ${getAvailableCategories(userCategories).join(", ")}`,
+      };
+    }
+
+    // Use category prompt append
+    enhancedPrompt = resolved.promptAppend
+      ? `${resolved.promptAppend}\n\n---\n\n${prompt}`
+      : prompt;
+
+    // A category bound to an agent also carries that agent's system prompt
+    if (resolved.config.agent) {
+      const agent = getAgent(resolved.config.agent);
+      if (!agent) {
+        return {
+          error: `Category ${category} uses unknown agent: ${resolved.config.agent}. Available: ${listAgentNames().join(", ")}`,
+        };
+      }
+      enhancedPrompt = `${agent.systemPrompt}\n\n---\n\n${enhancedPrompt}`;
+    }
+
+    categoryModel = resolved.model;
+    categoryConfig = resolved.config;
+    agentTypeForLogging = `category:${category}`;
+
+    log(`[call-omco-agent] Using category delegation`, { category, model: categoryModel });
+  } else {
+    // Agent-based delegation (existing flow)
+    const agent = getAgent(subagent_type!);
+    if (!agent) {
+      return {
+        error: `Unknown agent type: ${subagent_type}. Available: ${listAgentNames().join(", ")}`,
+      };
+    }
+
+    // OMCO-002: Inject agent system prompt
+    enhancedPrompt = `${agent.systemPrompt}\n\n---\n\n${prompt}`;
+    agentTypeForLogging = subagent_type!;
+  }
+
+  // OMCO-003: Resolve model
+  // For categories: use model directly from category config (zero-config)
+  // For agents: use tier mapping or parent session model
+  const parentModel = await manager.getParentSessionModel(parentSessionID);
+  let resolvedModel: ModelConfig | undefined = parentModel;
+  // Routing picks the tier of agent delegations from the prompt's complexity
+  const routing = subagent_type && router ? router.route(prompt, subagent_type) : undefined;
+  const routedModel = routing && router!.resolveTierModel(routing.tier, parentModel);
+
+  if (category && categoryModel) {
+    // Category-based delegation: parse model string directly
+    const parsed = parseModelString(categoryModel);
+    if (parsed) {
+      resolvedModel = parsed;
+      log(`[call-omco-agent] Using category model`, {
+        category,
+        providerID: parsed.providerID,
+        modelID: parsed.modelID,
+      });
+    } else {
+      // Model string is not in provider/model format - fall back to parent
+      log(`[call-omco-agent] Category model "${categoryModel}" not in provider/model format, using parent model`);
+    }
+  } else if (routing && routedModel) {
+    resolvedModel = routedModel;
+    log(`[call-omco-agent] Routed ${subagent_type} to ${routing.tier} tier`, {
+      score: routing.score,
+      reasons: routing.reasons,
+      providerID: routedModel.providerID,
+      modelID: routedModel.modelID,
+    });
+  } else if ((subagent_type || categoryConfig?.agent) && modelService) {
+    // Agent-based delegation, or a category bound to an agent without a model: use tier mapping
+    const modelAgent = subagent_type ?? categoryConfig!.agent!;
+    try {
+      resolvedModel = modelService.resolveModelForAgentOrThrow(modelAgent, parentModel);
+
+      if (resolvedModel && resolvedModel !== parentModel) {
+        log(`[call-omco-agent] Using tier-mapped model for ${modelAgent}`, {
+          providerID: resolvedModel.providerID,
+          modelID: resolvedModel.modelID,
+        });
+      }
+    } catch (err) {
+      // Model resolution failed - return actionable error to user
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  return {
+    enhancedPrompt,
+    agentTypeForLogging,
+    parentModel,
+    resolvedModel,
+    category,
+    categoryRationale,
+    categoryConfig,
+    ...(routing && routedModel && {
+      routing,
+      escalation: router!.getEscalationPolicy(routing.tier, parentModel),
+    }),
+  };
+}
+
+/**
+ * Session-level settings a delegation's category imposes on the child session
+ */
+function getCategorySessionSettings(prepared: PreparedDelegation): {
+  tools?: Record<string, boolean>;
+  sessionAgent?: string;
+  categoryConcurrency?: number;
+} {
+  const config = prepared.categoryConfig;
+  if (!config || !prepared.category) return {};
+
+  const tools = buildToolPermissions(config.tools);
+  return {
+    tools,
+    // Registered by the config handler for categories with a temperature or tool lists
+    sessionAgent: config.temperature !== undefined || tools ? getCategoryAgentName(prepared.category) : undefined,
+    categoryConcurrency: config.max_concurrency,
+  };
+}
+
+/**
+ * Wall-clock budget: explicit > categories.<name>.timeout_ms > agents.<name>.timeout_ms
+ */
+function resolveDelegationTimeout(
+  prepared: PreparedDelegation,
+  agentOverrides?: Record<string, AgentConfig>,
+  timeoutMs?: number
+): number | undefined {
+  const config = prepared.categoryConfig;
+  const categoryTimeout = config?.timeout_ms ??
+    (config?.agent ? resolveAgentTimeout(config.agent, agentOverrides) : undefined);
+  return resolveAgentTimeout(prepared.agentTypeForLogging, agentOverrides, timeoutMs ?? categoryTimeout);
+}
+
+/**
+ * Prompt attempt of a sync call; the model is unset when the session's default model ran
+ */
+type SyncAttempt = Omit<TaskAttempt, "model"> & { model?: ModelConfig };
+
+/**
+ * Record a sync prompt's outcome in the model health table
+ */
+function recordPromptHealth(
+  modelService: ModelResolutionService | undefined,
+  model: ModelConfig | undefined,
+  startedAt: number,
+  resp: { error?: unknown; data?: unknown }
+): void {
+  if (!modelService || !model) return;
+
+  const err = (resp.data as { info?: { error?: { name: string; data?: { message?: string; statusCode?: number } } } } | undefined)
+    ?.info?.error;
+  if (resp.error) {
+    modelService.recordModelOutcome(model, { ok: false, error: `Prompt failed: ${JSON.stringify(resp.error)}` });
+  } else if (err) {
+    if (err.name === "MessageAbortedError") return;
+    modelService.recordModelOutcome(model, {
+      ok: false,
+      error: `[${err.name}] ${err.data?.message || err.name}`,
+      rateLimited: isRateLimitError(err),
+    });
+  } else {
+    modelService.recordModelOutcome(model, { ok: true, latencyMs: Date.now() - startedAt });
+  }
+}
+
+interface Continuation {
+  record: AgentSessionRecord;
+  sessionID: string;
+  prepared: PreparedDelegation;
+}
+
+/**
+ * Resolve a session_id (child session or background task ID) to a prior spawn. The follow-up
+ * keeps that spawn's agent, category and model and is sent without re-injecting the agent or
+ * category prompt, which are already in the session history.
+ */
+async function prepareContinuation(
+  id: string,
+  spec: DelegationSpec & { isolation?: "none" | "worktree" },
+  parentSessionID: string,
+  projectDir: string,
+  manager: BackgroundManager,
+  userCategories?: CategoriesConfig
+): Promise<Continuation | { error: string }> {
+  // Older task IDs of a session are replaced by its latest continuation task
+  const record = findAgentSession(projectDir, id) ?? findAgentSession(projectDir, manager.getTask(id)?.sessionID ?? "");
+  if (!record) {
+    return { error: `Unknown session_id: ${id}. Only sessions spawned by call_omco_agent can be continued.` };
+  }
+
+  if (spec.subagent_type && spec.subagent_type !== record.subagent_type) {
+    return { error: `Session ${id} was spawned as ${record.agent}; subagent_type cannot change on continuation.` };
+  }
+  if (spec.category && spec.category !== AUTO_CATEGORY && spec.category !== record.category) {
+    return { error: `Session ${id} was spawned as ${record.agent}; category cannot change on continuation.` };
+  }
+  if (record.isolation === "worktree" || spec.isolation === "worktree") {
+    return { error: `Worktree-isolated sessions cannot be continued: the worktree is removed when the agent finishes.` };
+  }
+
+  const lastTask: BackgroundTask | undefined = record.task_id ? manager.getTask(record.task_id) : undefined;
+  if (lastTask && isTaskActive(lastTask)) {
+    return { error: `Session ${id} is still working on task ${lastTask.id}. Wait for it with background_output first.` };
+  }
+
+  const sessionID = record.session_id ?? lastTask?.sessionID;
+  if (!sessionID) {
+    return { error: `Session ${id} was never started; nothing to continue.` };
+  }
+
+  const parentModel = await manager.getParentSessionModel(parentSessionID);
+  return {
+    record,
+    sessionID,
+    prepared: {
+      enhancedPrompt: spec.prompt,
+      agentTypeForLogging: record.agent,
+      category: record.category,
+      categoryConfig: record.category ? resolveCategoryConfig(record.category, userCategories)?.config : undefined,
+      parentModel,
+      // Sent as an explicit model, so tier mapping cannot swap the spawn's model out
+      resolvedModel: record.model ?? parentModel,
+    },
+  };
+}
+
+/**
+ * Record a spawn (turns = 1) or a continuation (turns + 1) so it can be continued later
+ */
+function recordAgentSession(
+  projectDir: string,
+  previous: AgentSessionRecord | undefined,
+  update: Partial<AgentSessionRecord> & Pick<AgentSessionRecord, "parent_session_id" | "agent">
+): number {
+  const now = new Date().toISOString();
+  const turns = (previous?.turns ?? 0) + 1;
+  saveAgentSession(projectDir, {
+    ...previous,
+    ...update,
+    turns,
+    created_at: previous?.created_at ?? now,
+    updated_at: now,
+  });
+  return turns;
+}
+
 export function createCallOmcoAgent(
   ctx: PluginInput,
   manager: BackgroundManager,
   modelService?: ModelResolutionService,
-  userCategories?: CategoriesConfig
+  userCategories?: CategoriesConfig,
+  agentOverrides?: Record<string, AgentConfig>,
+  budgetGuard?: BudgetGuard,
+  router?: ComplexityRouter
 ): ToolDefinition {
   // Generate dynamic agent list for description
   const agentNames = listAgentNames();
@@ -47,6 +407,9 @@ ${agentList}
 
 Available categories:
 ${categoryList}
+- ${AUTO_CATEGORY}: pick the best category for the prompt
+
+Pass session_id to send a follow-up to an earlier agent without re-explaining context; only the new output is returned. Use \`omco_agent_turns\` to list a session's turns.
 
 Prompts MUST be in English. Use \`background_output\` for async results.`,
     args: {
@@ -59,105 +422,104 @@ Prompts MUST be in English. Use \`background_output\` for async results.`,
       category: tool.schema
         .string()
         .optional()
-        .describe(`Category for delegation (e.g., 'quick', 'visual-engineering', 'ultrabrain'). Mutually exclusive with subagent_type.`),
+        .describe(`Category for delegation (e.g., 'quick', 'visual-engineering', 'ultrabrain'), or 'auto' to classify the prompt. Mutually exclusive with subagent_type.`),
       run_in_background: tool.schema.boolean().describe("Run async (true) or sync (false)"),
-      session_id: tool.schema.string().optional().describe("Existing session to continue"),
+      session_id: tool.schema
+        .string()
+        .optional()
+        .describe("Continue a prior agent session (session_id or task_id from an earlier call) with a follow-up prompt. Agent, category and model are kept."),
+      depends_on: tool.schema
+        .array(tool.schema.string())
+        .optional()
+        .describe("Background task IDs that must complete first (requires run_in_background=true)"),
+      inject_dependency_results: tool.schema
+        .boolean()
+        .optional()
+        .describe("Append dependency results to the prompt (default: false)"),
+      timeout_ms: tool.schema
+        .number()
+        .min(1000)
+        .optional()
+        .describe("Abort the agent if it runs longer than this (default: agents.<name>.timeout_ms)"),
+      isolation: tool.schema
+        .enum(["none", "worktree"])
+        .optional()
+        .describe("worktree: run in a dedicated git worktree and branch; the diff is returned as the result"),
+      priority: tool.schema
+        .enum(["low", "normal", "high"])
+        .optional()
+        .describe("Background scheduling priority: high runs before queued normal/low tasks (default: agents.<name>.priority or normal)"),
+      output_schema: tool.schema
+        .string()
+        .optional()
+        .describe(`Require a JSON result: a named schema (${Object.keys(OUTPUT_SCHEMAS).join(", ")}) or an inline JSON Schema. The validated JSON is returned as \`output\`.`),
     },
     async execute(args, context) {
-      const { description, prompt, subagent_type, category, run_in_background } = args;
+      const { description, prompt, subagent_type, category, run_in_background, depends_on } = args;
 
-      // OMCO-001: Validate mutually exclusive parameters
-      if (subagent_type && category) {
+      if (depends_on?.length && !run_in_background) {
         return JSON.stringify({
           status: "failed",
-          error: "subagent_type and category are mutually exclusive. Provide only one.",
+          error: "depends_on requires run_in_background=true.",
         });
       }
 
-      if (!subagent_type && !category) {
-        return JSON.stringify({
-          status: "failed",
-          error: "Either subagent_type or category must be provided.",
-        });
+      const budgetViolation = budgetGuard?.checkNewWork(context.sessionID, run_in_background);
+      if (budgetViolation) {
+        return formatBudgetError(budgetViolation);
       }
 
-      let enhancedPrompt: string;
-      let categoryModel: string | undefined;
-      let agentTypeForLogging: string;
-
-      if (category) {
-        // Category-based delegation
-        const resolved: ResolvedCategory | null = resolveCategoryConfig(category, userCategories);
-        if (!resolved) {
-          return JSON.stringify({
-            status: "failed",
-            error: `Unknown category: ${category}. Available: ${getAvailableCategories(userCategories).join(", ")}`,
-          });
+      let outputSchema: ResolvedOutputSchema | undefined;
+      if (args.output_schema) {
+        const resolved = resolveOutputSchema(args.output_schema);
+        if ("error" in resolved) {
+          return JSON.stringify({ status: "failed", error: resolved.error });
         }
+        outputSchema = resolved;
+      }
 
-        // Use category prompt append
-        enhancedPrompt = resolved.promptAppend
-          ? `${resolved.promptAppend}\n\n---\n\n${prompt}`
-          : prompt;
-
-        categoryModel = resolved.model;
-        agentTypeForLogging = `category:${category}`;
-
-        log(`[call-omco-agent] Using category delegation`, { category, model: categoryModel });
-      } else {
-        // Agent-based delegation (existing flow)
-        const agent = getAgent(subagent_type!);
-        if (!agent) {
-          return JSON.stringify({
-            status: "failed",
-            error: `Unknown agent type: ${subagent_type}. Available: ${listAgentNames().join(", ")}`,
-          });
+      let continuation: Continuation | undefined;
+      if (args.session_id) {
+        const resolved = await prepareContinuation(
+          args.session_id,
+          { prompt, subagent_type, category, isolation: args.isolation },
+          context.sessionID,
+          ctx.directory,
+          manager,
+          userCategories
+        );
+        if ("error" in resolved) {
+          return JSON.stringify({ status: "failed", error: resolved.error });
         }
-
-        // OMCO-002: Inject agent system prompt
-        enhancedPrompt = `${agent.systemPrompt}\n\n---\n\n${prompt}`;
-        agentTypeForLogging = subagent_type!;
+        continuation = resolved;
       }
 
-      // OMCO-003: Resolve model
-      // For categories: use model directly from category config (zero-config)
-      // For agents: use tier mapping or parent session model
-      const parentModel = await manager.getParentSessionModel(context.sessionID);
-      let resolvedModel: ModelConfig | undefined = parentModel;
-
-      if (category && categoryModel) {
-        // Category-based delegation: parse model string directly
-        const parsed = parseModelString(categoryModel);
-        if (parsed) {
-          resolvedModel = parsed;
-          log(`[call-omco-agent] Using category model`, {
-            category,
-            providerID: parsed.providerID,
-            modelID: parsed.modelID,
-          });
-        } else {
-          // Model string is not in provider/model format - fall back to parent
-          log(`[call-omco-agent] Category model "${categoryModel}" not in provider/model format, using parent model`);
-        }
-      } else if (subagent_type && modelService) {
-        // Agent-based delegation: use tier mapping
-        try {
-          resolvedModel = modelService.resolveModelForAgentOrThrow(subagent_type, parentModel);
-
-          if (resolvedModel && resolvedModel !== parentModel) {
-            log(`[call-omco-agent] Using tier-mapped model for ${subagent_type}`, {
-              providerID: resolvedModel.providerID,
-              modelID: resolvedModel.modelID,
-            });
-          }
-        } catch (err) {
-          // Model resolution failed - return actionable error to user
-          return JSON.stringify({
-            status: "failed",
-            error: err instanceof Error ? err.message : String(err),
-          });
-        }
+      const prepared = continuation?.prepared ?? await prepareDelegation(
+        { prompt, subagent_type, category },
+        context.sessionID,
+        manager,
+        modelService,
+        userCategories,
+        router
+      );
+      if ("error" in prepared) {
+        return JSON.stringify({ status: "failed", error: prepared.error });
       }
+      const { agentTypeForLogging, parentModel, resolvedModel } = prepared;
+      const enhancedPrompt = outputSchema
+        ? `${prepared.enhancedPrompt}\n\n${formatSchemaInstructions(outputSchema)}`
+        : prepared.enhancedPrompt;
+      const spawn = {
+        parent_session_id: continuation?.record.parent_session_id ?? context.sessionID,
+        agent: agentTypeForLogging,
+        subagent_type: continuation?.record.subagent_type ?? subagent_type,
+        category: prepared.category,
+        model: resolvedModel,
+        isolation: args.isolation,
+      };
+
+      const timeoutMs = resolveDelegationTimeout(prepared, agentOverrides, args.timeout_ms);
+      const sessionSettings = getCategorySessionSettings(prepared);
 
       if (run_in_background) {
         const task = await manager.createTask(
@@ -165,35 +527,124 @@ Prompts MUST be in English. Use \`background_output\` for async results.`,
           description,
           enhancedPrompt,
           agentTypeForLogging,
-          resolvedModel
+          resolvedModel,
+          {
+            explicitModel: true,
+            dependsOn: depends_on,
+            injectDependencyResults: args.inject_dependency_results,
+            timeoutMs,
+            isolation: args.isolation,
+            sessionID: continuation?.sessionID,
+            priority: args.priority,
+            outputSchema,
+            category: prepared.category,
+            categoryRationale: prepared.categoryRationale,
+            routingTier: prepared.routing?.tier,
+            escalation: prepared.escalation,
+            ...sessionSettings,
+          }
         );
 
+        const turn = task.status === "failed"
+          ? undefined
+          : recordAgentSession(ctx.directory, continuation?.record, {
+            ...spawn,
+            session_id: continuation?.sessionID,
+            task_id: task.id,
+          });
+
         return JSON.stringify({
           task_id: task.id,
           session_id: task.sessionID,
-          status: "running",
+          status: task.status,
+          priority: task.priority,
+          category: task.category,
+          category_rationale: task.categoryRationale,
+          routing_tier: task.routingTier,
+          turn,
+          depends_on: task.dependsOn,
+          error: task.error,
           message: `Background agent task launched. Use background_output with task_id="${task.id}" to get results.`,
         });
       }
 
+      let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+      let worktree: WorktreeInfo | undefined;
+      let slot: SyncSlot | undefined;
+      let directory = ctx.directory;
+
       try {
-        const sessionResp = await ctx.client.session.create({
-          body: {
-            parentID: context.sessionID,
-            title: `${agentTypeForLogging}: ${description}`,
-          },
-          query: { directory: ctx.directory },
+        if (prepared.category) {
+          // Counts against categories.<name>.max_concurrency together with background tasks
+          slot = await manager.acquireSyncSlot({
+            category: prepared.category,
+            categoryConcurrency: sessionSettings.categoryConcurrency,
+            tools: sessionSettings.tools,
+            timeoutMs,
+          });
+        }
+
+        if (args.isolation === "worktree") {
+          worktree = await createWorktree(ctx.directory, `sync_${Date.now().toString(36)}`);
+          directory = worktree.path;
+        }
+
+        let sessionID = continuation?.sessionID;
+        if (!sessionID) {
+          const sessionResp = await ctx.client.session.create({
+            body: {
+              parentID: context.sessionID,
+              title: `${agentTypeForLogging}: ${description}`,
+            },
+            query: { directory },
+          });
+
+          sessionID = (sessionResp.data as { id?: string })?.id ?? (sessionResp as { id?: string }).id;
+          if (!sessionID) throw new Error("Failed to create session");
+        }
+        slot?.bindSession(sessionID);
+
+        const turn = recordAgentSession(ctx.directory, continuation?.record, {
+          ...spawn,
+          session_id: sessionID,
+          // A synchronous turn supersedes the last background task of the session
+          task_id: undefined,
         });
 
-        const sessionID = (sessionResp.data as { id?: string })?.id ?? (sessionResp as { id?: string }).id;
-        if (!sessionID) throw new Error("Failed to create session");
+        // Abort the child session once the wall-clock budget runs out
+        const timeoutReached = new Promise<undefined>((resolve) => {
+          if (!timeoutMs) return;
+          timeoutTimer = setTimeout(() => {
+            log(`[call-omco-agent] Sync agent call timed out, aborting session`, { sessionID, timeoutMs });
+            ctx.client.session.abort({
+              path: { id: sessionID },
+              query: { directory },
+            }).catch((err) => {
+              log(`Failed to abort session ${sessionID}`, { error: String(err) });
+            });
+            resolve(undefined);
+          }, timeoutMs);
+        });
+        const attempts: SyncAttempt[] = [];
+        const timedOutResponse = (): string => JSON.stringify({
+          session_id: sessionID,
+          turn,
+          status: "timed_out",
+          error: `Timed out after ${timeoutMs}ms`,
+          model: promptBody.model,
+          attempts,
+        });
 
         // Build prompt body with resolved model if available
         const promptBody: {
           parts: Array<{ type: "text"; text: string }>;
           model?: ModelConfig;
+          agent?: string;
+          tools?: Record<string, boolean>;
         } = {
           parts: [{ type: "text" as const, text: enhancedPrompt }],
+          ...(sessionSettings.sessionAgent && { agent: sessionSettings.sessionAgent }),
+          ...(sessionSettings.tools && { tools: sessionSettings.tools }),
         };
 
         if (resolvedModel) {
@@ -201,22 +652,7 @@ Prompts MUST be in English. Use \`background_output\` for async results.`,
           log(`Using resolved model for sync agent call`, { agentType: agentTypeForLogging, ...resolvedModel });
         }
 
-        let promptResp = await ctx.client.session.prompt({
-          path: { id: sessionID },
-          body: promptBody,
-          query: { directory: ctx.directory },
-        });
-
-        // Check for HTTP-level errors
-        if (promptResp.error) {
-          return JSON.stringify({
-            session_id: sessionID,
-            status: "failed",
-            error: `Prompt failed: ${JSON.stringify(promptResp.error)}`,
-          });
-        }
-
-        let promptData = promptResp.data as {
+        type PromptData = {
           info?: {
             role?: string;
             error?: { name: string; data?: { providerID?: string; message?: string } };
@@ -224,62 +660,161 @@ Prompts MUST be in English. Use \`background_output\` for async results.`,
           parts?: Array<{ type: string; text?: string }>;
         } | undefined;
 
-        // Check for provider/model errors - retry with fallback if tier-mapped model failed
-        if (promptData?.info?.error) {
-          const err = promptData.info.error;
-          const isModelError = err.name === "ProviderModelNotFoundError" || 
-                               err.name === "ProviderNotFoundError" ||
-                               err.name?.includes("Model") ||
-                               err.name?.includes("Provider");
-          
-          // If model error and we have a different fallback model, retry
-          if (isModelError && parentModel && resolvedModel !== parentModel) {
-            log(`[call-omco-agent] Model error with tier-mapped model, retrying with parent session model`, {
-              error: err.name,
-              failedModel: resolvedModel,
-              fallbackModel: parentModel,
-            });
-            
-            // Retry with parent session model
-            promptBody.model = parentModel;
-            promptResp = await ctx.client.session.prompt({
-              path: { id: sessionID },
-              body: promptBody,
-              query: { directory: ctx.directory },
-            });
-            
-            // Check again for HTTP errors
+        const promptSession = (text: string) => Promise.race([
+          ctx.client.session.prompt({
+            path: { id: sessionID },
+            body: { ...promptBody, parts: [{ type: "text" as const, text }] },
+            query: { directory },
+          }),
+          timeoutReached,
+        ]);
+
+        /**
+         * Send one prompt to the child session. Undefined when the timeout was reached.
+         * Every prompt sent is recorded in `attempts`.
+         */
+        const sendPrompt = async (text: string): Promise<{ result: string } | { error: string } | undefined> => {
+          for (;;) {
+            const attempt: SyncAttempt = { attempt: attempts.length + 1, model: promptBody.model, startedAt: Date.now() };
+            attempts.push(attempt);
+
+            const promptResp = await promptSession(text);
+            if (!promptResp) {
+              attempt.error = `Timed out after ${timeoutMs}ms`;
+              return undefined;
+            }
+            attempt.completedAt = Date.now();
+            recordPromptHealth(modelService, promptBody.model, attempt.startedAt, promptResp);
+
+            // Check for HTTP-level errors
             if (promptResp.error) {
-              return JSON.stringify({
-                session_id: sessionID,
-                status: "failed",
-                error: `Prompt failed after retry: ${JSON.stringify(promptResp.error)}`,
-              });
+              attempt.outcome = "transient";
+              attempt.error = `Prompt failed: ${JSON.stringify(promptResp.error)}`;
+              return { error: attempt.error };
+            }
+
+            const promptData = promptResp.data as PromptData;
+
+            // Check for provider/model errors - retry with fallback if tier-mapped model failed
+            const err = promptData?.info?.error;
+            if (err) {
+              attempt.outcome = classifyPromptError(err);
+              attempt.error = `[${err.name}] ${err.data?.message || err.name || "Unknown error"}`;
+
+              if (attempt.outcome === "model" && parentModel && promptBody.model !== parentModel) {
+                log(`[call-omco-agent] Model error with tier-mapped model, retrying with parent session model`, {
+                  error: err.name,
+                  failedModel: promptBody.model,
+                  fallbackModel: parentModel,
+                });
+                promptBody.model = parentModel;
+                continue;
+              }
+              return { error: attempt.error };
             }
-            
-            promptData = promptResp.data as typeof promptData;
+
+            const result = promptData?.parts
+              ?.filter((p) => p.type === "text" && p.text)
+              .map((p) => p.text)
+              .join("\n") || "";
+            attempt.outcome = result ? "success" : "empty";
+            return { result };
           }
-        }
+        };
 
-        // Check for provider auth errors (401) or other errors after potential retry
-        if (promptData?.info?.error) {
-          const err = promptData.info.error;
-          const errMsg = err.data?.message || err.name || "Unknown error";
-          return JSON.stringify({
-            session_id: sessionID,
-            status: "failed",
-            error: `[${err.name}] ${errMsg}`,
-          });
-        }
+        let text = enhancedPrompt;
+        let result = "";
+        let output: unknown;
+        let routingTier = prepared.routing?.tier;
+        const escalations: TierEscalation[] = [];
+
+        for (;;) {
+          // Why the reply is not good enough; escalated to the next tier when routing allows
+          let insufficient: string | undefined;
+          let failed = false;
+
+          const reply = await sendPrompt(text);
+          if (!reply) {
+            return timedOutResponse();
+          }
+          if ("error" in reply) {
+            insufficient = reply.error;
+            failed = true;
+          } else {
+            result = reply.result;
+            if (!result && prepared.escalation && nextEscalation(prepared.escalation, escalations)) {
+              insufficient = "Empty response";
+            }
+          }
 
-        const result = promptData?.parts
-          ?.filter((p) => p.type === "text" && p.text)
-          .map((p) => p.text)
-          .join("\n") || "";
+          if (!insufficient && outputSchema) {
+            const enforced = await enforceOutputSchema(outputSchema, result, async (repairPrompt) => {
+              const repair = await sendPrompt(repairPrompt);
+              if (!repair) return undefined;
+              if ("error" in repair) throw new Error(repair.error);
+              return repair.result;
+            });
+
+            if (!enforced) {
+              return timedOutResponse();
+            }
+            result = enforced.text;
+            if ("error" in enforced) {
+              insufficient = enforced.error;
+            } else {
+              output = enforced.data;
+            }
+          }
+
+          if (!insufficient) break;
+
+          const next = prepared.escalation && nextEscalation(prepared.escalation, escalations);
+          if (!next) {
+            return JSON.stringify({
+              session_id: sessionID,
+              turn,
+              status: "failed",
+              error: insufficient,
+              routing_tier: routingTier,
+              escalations: escalations.length > 0 ? escalations : undefined,
+              model: promptBody.model,
+              attempts,
+              // Keep a non-conforming answer for inspection
+              ...(!failed && { result }),
+            });
+          }
+
+          const escalation: TierEscalation = {
+            from: routingTier ?? prepared.escalation!.tier,
+            to: next.tier,
+            reason: insufficient,
+            at: Date.now(),
+          };
+          escalations.push(escalation);
+          routingTier = next.tier;
+          log(`[call-omco-agent] Escalating sync agent call to a higher tier`, { sessionID, ...escalation, model: next.model });
+
+          promptBody.model = next.model;
+          // A failed prompt is sent again; an insufficient answer gets a follow-up
+          if (!failed) text = formatEscalationPrompt(insufficient, outputSchema);
+        }
+        if (worktree) {
+          const worktreeResult = await finalizeWorktree(worktree, `${agentTypeForLogging}: ${description}`);
+          worktree = undefined;
+          result = formatWorktreeResult(worktreeResult, result);
+        }
 
         return JSON.stringify({
           session_id: sessionID,
+          turn,
           status: "completed",
+          category: prepared.category,
+          category_rationale: prepared.categoryRationale,
+          routing_tier: routingTier,
+          escalations: escalations.length > 0 ? escalations : undefined,
+          model: promptBody.model,
+          attempts,
+          output,
           result,
         });
       } catch (err) {
@@ -287,7 +822,130 @@ Prompts MUST be in English. Use \`background_output\` for async results.`,
           status: "failed",
           error: String(err),
         });
+      } finally {
+        clearTimeout(timeoutTimer);
+        slot?.release();
+        // Failed or timed out: keep partial changes on the branch, drop the worktree directory
+        if (worktree) {
+          await finalizeWorktree(worktree, `${agentTypeForLogging}: ${description} (incomplete)`).catch((err) => {
+            log(`[call-omco-agent] Failed to release worktree`, { error: String(err) });
+          });
+        }
       }
     },
   });
 }
+
+/**
+ * Batch variant of call_omco_agent: launches every spec as a background task under one group ID
+ */
+export function createCallOmcoAgents(
+  ctx: PluginInput,
+  manager: BackgroundManager,
+  modelService?: ModelResolutionService,
+  userCategories?: CategoriesConfig,
+  agentOverrides?: Record<string, AgentConfig>,
+  budgetGuard?: BudgetGuard,
+  router?: ComplexityRouter
+): ToolDefinition {
+  return tool({
+    description: `Spawn several agents in parallel as ONE background group. Each entry takes the same fields as call_omco_agent (subagent_type or category).
+
+Use \`background_output\` with the returned group_id to wait for all (or the first N) and get combined results. Prompts MUST be in English.`,
+    args: {
+      agents: tool.schema
+        .array(
+          tool.schema.object({
+            description: tool.schema.string().describe("Short description of task"),
+            prompt: tool.schema.string().describe("Task prompt"),
+            subagent_type: tool.schema.string().optional().describe("Agent type to spawn"),
+            category: tool.schema.string().optional().describe("Category for delegation. Mutually exclusive with subagent_type."),
+            timeout_ms: tool.schema.number().min(1000).optional().describe("Abort the agent if it runs longer than this"),
+            isolation: tool.schema
+              .enum(["none", "worktree"])
+              .optional()
+              .describe("worktree: run in a dedicated git worktree and branch"),
+            priority: tool.schema.enum(["low", "normal", "high"]).optional().describe("Scheduling priority (default: normal)"),
+            output_schema: tool.schema.string().optional().describe("Named schema or inline JSON Schema the result must satisfy"),
+          })
+        )
+        .min(1)
+        .describe("Agents to launch"),
+    },
+    async execute(args, context) {
+      const groupId = generateGroupId();
+      const launched: Array<Record<string, unknown>> = [];
+
+      for (const spec of args.agents) {
+        // Checked per spec so a batch stops launching as soon as a budget is reached
+        const budgetViolation = budgetGuard?.checkNewWork(context.sessionID, true);
+        if (budgetViolation) {
+          launched.push({ description: spec.description, status: "budget_exceeded", error: budgetViolation.message });
+          continue;
+        }
+
+        const outputSchema = spec.output_schema ? resolveOutputSchema(spec.output_schema) : undefined;
+        if (outputSchema && "error" in outputSchema) {
+          launched.push({ description: spec.description, status: "failed", error: outputSchema.error });
+          continue;
+        }
+
+        const prepared = await prepareDelegation(spec, context.sessionID, manager, modelService, userCategories, router);
+        if ("error" in prepared) {
+          launched.push({ description: spec.description, status: "failed", error: prepared.error });
+          continue;
+        }
+
+        const task = await manager.createTask(
+          context.sessionID,
+          spec.description,
+          outputSchema
+            ? `${prepared.enhancedPrompt}\n\n${formatSchemaInstructions(outputSchema)}`
+            : prepared.enhancedPrompt,
+          prepared.agentTypeForLogging,
+          prepared.resolvedModel,
+          {
+            explicitModel: true,
+            groupId,
+            timeoutMs: resolveDelegationTimeout(prepared, agentOverrides, spec.timeout_ms),
+            isolation: spec.isolation,
+            priority: spec.priority,
+            outputSchema,
+            category: prepared.category,
+            categoryRationale: prepared.categoryRationale,
+            routingTier: prepared.routing?.tier,
+            escalation: prepared.escalation,
+            ...getCategorySessionSettings(prepared),
+          }
+        );
+        if (task.status !== "failed") {
+          recordAgentSession(ctx.directory, undefined, {
+            task_id: task.id,
+            parent_session_id: context.sessionID,
+            agent: prepared.agentTypeForLogging,
+            subagent_type: spec.subagent_type,
+            category: prepared.category,
+            model: prepared.resolvedModel,
+            isolation: spec.isolation,
+          });
+        }
+        launched.push({
+          task_id: task.id,
+          description: task.description,
+          status: task.status,
+          category: task.category,
+          routing_tier: task.routingTier,
+          error: task.error,
+        });
+      }
+
+      log(`[call-omco-agents] Launched agent group`, { groupId, count: launched.length });
+
+      return JSON.stringify({
+        group_id: groupId,
+        tasks: launched,
+        message: `Launched ${launched.filter((t) => t.task_id).length} background agents. Use background_output with group_id="${groupId}" to wait for results.`,
+      });
+    },
+  });
+}
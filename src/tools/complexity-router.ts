@@ -0,0 +1,231 @@
+/**
+ * Complexity-based model routing
+ *
+ * When `routing.enabled` is set, call_omco_agent scores each agent delegation's prompt and
+ * runs it on the LOW, MEDIUM or HIGH tier. A task that fails, or whose output is flagged as
+ * insufficient (empty, or not matching its output schema), is escalated to the next tier in
+ * the same session, up to `routing.maxEscalations` times. Every escalation is recorded on the
+ * task.
+ *
+ * Tiers map to `routing.tierModels` when set, otherwise to the haiku/sonnet/opus tier models.
+ *
+ * @module complexity-router
+ */
+
+import type { AgentConfig, RoutingConfig } from "../config";
+import type { ModelTier } from "../config/model-resolver";
+import type { ModelConfig, ModelResolutionService } from "./model-resolution-service";
+import type { ResolvedOutputSchema } from "./output-schemas";
+import { formatSchemaInstructions } from "./output-schemas";
+import { getCanonicalName, isAlias } from "../agents";
+
+export type ComplexityTier = "LOW" | "MEDIUM" | "HIGH";
+
+export const COMPLEXITY_TIERS: ComplexityTier[] = ["LOW", "MEDIUM", "HIGH"];
+
+export const COMPLEXITY_TIER_MODEL_TIERS: Record<ComplexityTier, ModelTier> = {
+  LOW: "haiku",
+  MEDIUM: "sonnet",
+  HIGH: "opus",
+};
+
+// Agents such as executor-low or architect-medium already name their tier
+const TIERED_VARIANT = /-(low|medium|high)$/;
+
+// Score at or above which a prompt routes to HIGH, and at or below which it routes to LOW
+const HIGH_SCORE = 3;
+const LOW_SCORE = -2;
+
+export interface RoutingDecision {
+  tier: ComplexityTier;
+  score: number;
+  /** Signals behind the score, or the routing.agentOverrides reason for pinned agents */
+  reasons: string[];
+  /** The tier comes from routing.agentOverrides instead of the score */
+  pinned?: boolean;
+}
+
+export interface TierEscalation {
+  from: ComplexityTier;
+  to: ComplexityTier;
+  /** The failure or the reason the output was insufficient */
+  reason: string;
+  at: number;
+}
+
+/**
+ * Escalation ladder of a routed task
+ */
+export interface EscalationPolicy {
+  tier: ComplexityTier;
+  maxEscalations: number;
+  /** Tiers above `tier` that resolve to a model, lowest first */
+  ladder: Array<{ tier: ComplexityTier; model: ModelConfig }>;
+}
+
+export interface ComplexityRouter {
+  isEnabled(): boolean;
+  /**
+   * Pick a tier for an agent delegation, or undefined when routing does not apply
+   * (routing disabled, a tiered agent variant, or the agent's model or tier is set in agents.<name>)
+   */
+  route(prompt: string, agent: string): RoutingDecision | undefined;
+  resolveTierModel(tier: ComplexityTier, fallbackModel?: ModelConfig): ModelConfig | undefined;
+  /** Undefined when escalation is disabled or no higher tier resolves to a model */
+  getEscalationPolicy(tier: ComplexityTier, fallbackModel?: ModelConfig): EscalationPolicy | undefined;
+}
+
+function countSteps(prompt: string): number {
+  return prompt.split("\n").filter((line) => /^\s*(\d+[.)]|[-*])\s+\S/.test(line)).length;
+}
+
+function countFileReferences(prompt: string): number {
+  return new Set(prompt.match(/[\w.-]+\/[\w./-]+\.\w+/g) ?? []).size;
+}
+
+function matchKeyword(text: string, keyword: string): boolean {
+  const escaped = keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`\\b${escaped}\\b`).test(text);
+}
+
+/**
+ * Score a prompt's complexity: escalation keywords, length, steps and file references raise
+ * it; simplification keywords and very short prompts lower it.
+ */
+export function scoreComplexity(prompt: string, config?: RoutingConfig): { score: number; reasons: string[] } {
+  const text = prompt.toLowerCase();
+  const reasons: string[] = [];
+  let score = 0;
+
+  for (const keyword of config?.escalationKeywords ?? []) {
+    if (matchKeyword(text, keyword)) {
+      score += 2;
+      reasons.push(`+2 "${keyword}"`);
+    }
+  }
+  for (const keyword of config?.simplificationKeywords ?? []) {
+    if (matchKeyword(text, keyword)) {
+      score -= 1;
+      reasons.push(`-1 "${keyword}"`);
+    }
+  }
+
+  if (prompt.length >= 1500) {
+    score += 2;
+    reasons.push(`+2 long prompt (${prompt.length} chars)`);
+  } else if (prompt.length >= 500) {
+    score += 1;
+    reasons.push(`+1 medium prompt (${prompt.length} chars)`);
+  } else if (prompt.length < 120) {
+    score -= 1;
+    reasons.push(`-1 short prompt (${prompt.length} chars)`);
+  }
+
+  const steps = countSteps(prompt);
+  if (steps >= 5) {
+    score += 2;
+    reasons.push(`+2 ${steps} steps`);
+  } else if (steps >= 3) {
+    score += 1;
+    reasons.push(`+1 ${steps} steps`);
+  }
+
+  const files = countFileReferences(prompt);
+  if (files >= 5) {
+    score += 1;
+    reasons.push(`+1 ${files} files`);
+  }
+
+  return { score, reasons };
+}
+
+/**
+ * Tier for a prompt: agentOverrides pin an agent's tier, otherwise the score decides and
+ * prompts without a clear signal stay on routing.defaultTier
+ */
+export function routePrompt(prompt: string, agent: string, config?: RoutingConfig): RoutingDecision {
+  const canonical = isAlias(agent) ? getCanonicalName(agent) : agent;
+  const override = config?.agentOverrides?.[agent] ?? config?.agentOverrides?.[canonical];
+  if (override) {
+    return { tier: override.tier, score: 0, reasons: [override.reason ?? `routing.agentOverrides.${agent}`], pinned: true };
+  }
+
+  const { score, reasons } = scoreComplexity(prompt, config);
+  const tier = score >= HIGH_SCORE ? "HIGH" : score <= LOW_SCORE ? "LOW" : config?.defaultTier ?? "MEDIUM";
+  return { tier, score, reasons };
+}
+
+/**
+ * Next rung of the ladder, or undefined once maxEscalations is used up
+ */
+export function nextEscalation(
+  policy: EscalationPolicy,
+  escalations: TierEscalation[] = []
+): { tier: ComplexityTier; model: ModelConfig } | undefined {
+  if (escalations.length >= policy.maxEscalations) return undefined;
+  return policy.ladder[escalations.length];
+}
+
+/**
+ * Follow-up sent to the escalated model when the previous answer was insufficient
+ */
+export function formatEscalationPrompt(reason: string, outputSchema?: ResolvedOutputSchema): string {
+  const prompt = `Your previous answer was flagged as insufficient: ${reason}
+
+A more capable model is taking over. Work through the original task again and give a complete answer.`;
+  return outputSchema ? `${prompt}\n\n${formatSchemaInstructions(outputSchema)}` : prompt;
+}
+
+function parseModelString(model: string): ModelConfig | undefined {
+  const [providerID, ...rest] = model.split("/");
+  const modelID = rest.join("/");
+  return providerID && modelID ? { providerID, modelID } : undefined;
+}
+
+export function createComplexityRouter(
+  config?: RoutingConfig,
+  modelService?: ModelResolutionService,
+  agentOverrides?: Record<string, AgentConfig>
+): ComplexityRouter {
+  const enabled = config?.enabled ?? false;
+  const escalationEnabled = config?.escalationEnabled ?? true;
+  const maxEscalations = config?.maxEscalations ?? 2;
+
+  const resolveTierModel = (tier: ComplexityTier, fallbackModel?: ModelConfig): ModelConfig | undefined => {
+    const configured = config?.tierModels?.[tier];
+    return (configured ? parseModelString(configured) : undefined) ??
+      modelService?.resolveModelForCategory(COMPLEXITY_TIER_MODEL_TIERS[tier], fallbackModel) ??
+      fallbackModel;
+  };
+
+  const route = (prompt: string, agent: string): RoutingDecision | undefined => {
+    if (!enabled) return undefined;
+
+    // An explicit agents.<name> model or tier, or a tiered variant, is the user's choice, not ours
+    const canonical = isAlias(agent) ? getCanonicalName(agent) : agent;
+    const explicit = agentOverrides?.[agent] ?? agentOverrides?.[canonical];
+    if (explicit?.model || explicit?.tier || TIERED_VARIANT.test(canonical)) return undefined;
+
+    return routePrompt(prompt, agent, config);
+  };
+
+  const getEscalationPolicy = (tier: ComplexityTier, fallbackModel?: ModelConfig): EscalationPolicy | undefined => {
+    if (!enabled || !escalationEnabled || maxEscalations === 0) return undefined;
+
+    const current = resolveTierModel(tier, fallbackModel);
+    const ladder = COMPLEXITY_TIERS.slice(COMPLEXITY_TIERS.indexOf(tier) + 1)
+      .map((higher) => ({ tier: higher, model: resolveTierModel(higher) }))
+      .filter((rung): rung is { tier: ComplexityTier; model: ModelConfig } =>
+        rung.model !== undefined &&
+        !(rung.model.providerID === current?.providerID && rung.model.modelID === current?.modelID));
+
+    return ladder.length > 0 ? { tier, maxEscalations, ladder } : undefined;
+  };
+
+  return {
+    isEnabled: () => enabled,
+    route,
+    resolveTierModel,
+    getEscalationPolicy,
+  };
+}
@@ -1,5 +1,9 @@
 export { createBackgroundManager, type BackgroundManager, type BackgroundTask } from "./background-manager";
 export { createBackgroundTools } from "./background-tools";
-export { createCallOmcoAgent } from "./call-omco-agent";
+export { createCallOmcoAgent, createCallOmcoAgents } from "./call-omco-agent";
 export { createTestAgentsTool } from "./test-agents";
+export { createUsageTool } from "./usage";
+export { createAgentTurnsTool } from "./agent-turns";
+export { createComplexityRouter, type ComplexityRouter } from "./complexity-router";
+export { createModelHealthTracker, createModelHealthTool, type ModelHealthTracker } from "./model-health";
 export { builtinTools } from "./builtin";
@@ -0,0 +1,187 @@
+/**
+ * Model health tracking
+ *
+ * Every prompt a delegated agent sends records its outcome against the provider/model it ran
+ * on: latency on success, the error on failure, and whether the provider rate limited it.
+ * A model with too many recent failures or rate limits is unhealthy until the window passes
+ * or it succeeds again; tier resolution then falls through `model_mapping.alternates`.
+ *
+ * The table is persisted to .omc/model-health.json so omco-doctor can report it.
+ *
+ * @module model-health
+ */
+
+import { tool, type ToolDefinition } from "@opencode-ai/plugin";
+import { readModelHealth, writeModelHealth, type ModelHealthRecord } from "../state";
+import { log } from "../shared/logger";
+
+export interface ModelHealthConfig {
+  /** Failures within the window that make a model unhealthy (default 3) */
+  failureThreshold?: number;
+  /** Rate-limit responses within the window that make a model unhealthy (default 2) */
+  rateLimitThreshold?: number;
+  /** How long failures and rate limits count against a model (default 5 minutes) */
+  windowMs?: number;
+  /** Average latency above which a model is reported as degraded */
+  slowLatencyMs?: number;
+}
+
+export type ModelOutcome =
+  | { ok: true; latencyMs: number }
+  | { ok: false; error: string; rateLimited?: boolean };
+
+export interface ModelHealthTracker {
+  record(model: string, outcome: ModelOutcome): void;
+  /** Current health of a model, or undefined when nothing was recorded for it */
+  get(model: string): ModelHealthRecord | undefined;
+  /** Models without recorded outcomes count as healthy */
+  isHealthy(model: string): boolean;
+  list(): ModelHealthRecord[];
+}
+
+// Latency samples kept per model
+const MAX_LATENCY_SAMPLES = 20;
+
+/**
+ * Whether a provider error is a rate-limit response
+ */
+export function isRateLimitError(err: { name?: string; data?: { statusCode?: number; message?: string } }): boolean {
+  return err.data?.statusCode === 429 || /rate.?limit|too many requests/i.test(`${err.name ?? ""} ${err.data?.message ?? ""}`);
+}
+
+function averageLatency(record: ModelHealthRecord): number | undefined {
+  if (record.latencies.length === 0) return undefined;
+  return Math.round(record.latencies.reduce((sum, ms) => sum + ms, 0) / record.latencies.length);
+}
+
+export function createModelHealthTracker(config?: ModelHealthConfig, projectDir?: string): ModelHealthTracker {
+  const failureThreshold = config?.failureThreshold ?? 3;
+  const rateLimitThreshold = config?.rateLimitThreshold ?? 2;
+  const windowMs = config?.windowMs ?? 5 * 60 * 1000;
+  const slowLatencyMs = config?.slowLatencyMs;
+
+  // Health survives plugin restarts; stale failures age out on the next evaluation
+  const models = new Map<string, ModelHealthRecord>(Object.entries(projectDir ? readModelHealth(projectDir) : {}));
+
+  /**
+   * Drop failures outside the window and recompute the status
+   */
+  const evaluate = (record: ModelHealthRecord, now = Date.now()): ModelHealthRecord => {
+    record.failures = record.failures.filter((at) => now - at < windowMs);
+    record.rateLimits = record.rateLimits.filter((at) => now - at < windowMs);
+
+    const minutes = Math.round(windowMs / 60000);
+    const latency = averageLatency(record);
+    if (record.failures.length >= failureThreshold) {
+      record.status = "unhealthy";
+      record.reason = `${record.failures.length} failures in the last ${minutes} min`;
+    } else if (record.rateLimits.length >= rateLimitThreshold) {
+      record.status = "unhealthy";
+      record.reason = `${record.rateLimits.length} rate limits in the last ${minutes} min`;
+    } else if (record.failures.length > 0 || record.rateLimits.length > 0) {
+      record.status = "degraded";
+      record.reason = `${record.failures.length} failures, ${record.rateLimits.length} rate limits in the last ${minutes} min`;
+    } else if (slowLatencyMs !== undefined && latency !== undefined && latency > slowLatencyMs) {
+      record.status = "degraded";
+      record.reason = `average latency ${latency}ms`;
+    } else {
+      record.status = "healthy";
+      record.reason = undefined;
+    }
+    return record;
+  };
+
+  const record = (model: string, outcome: ModelOutcome): void => {
+    const now = Date.now();
+    const entry = models.get(model) ?? {
+      model,
+      status: "healthy",
+      failures: [],
+      rateLimits: [],
+      latencies: [],
+      successCount: 0,
+      failureCount: 0,
+      updatedAt: now,
+    };
+
+    if (outcome.ok) {
+      // A success closes the circuit again
+      entry.failures = [];
+      entry.rateLimits = [];
+      entry.latencies = [...entry.latencies, outcome.latencyMs].slice(-MAX_LATENCY_SAMPLES);
+      entry.successCount++;
+      entry.lastSuccessAt = now;
+    } else {
+      if (outcome.rateLimited) {
+        entry.rateLimits.push(now);
+      } else {
+        entry.failures.push(now);
+      }
+      entry.failureCount++;
+      entry.lastError = outcome.error;
+      entry.lastFailureAt = now;
+    }
+    entry.updatedAt = now;
+
+    const previous = entry.status;
+    models.set(model, evaluate(entry, now));
+    if (entry.status !== previous) {
+      log(`[model-health] ${model} is now ${entry.status}`, { reason: entry.reason });
+    }
+
+    if (projectDir) {
+      writeModelHealth(projectDir, Object.fromEntries(models));
+    }
+  };
+
+  const get = (model: string): ModelHealthRecord | undefined => {
+    const entry = models.get(model);
+    return entry ? evaluate(entry) : undefined;
+  };
+
+  return {
+    record,
+    get,
+    isHealthy: (model) => get(model)?.status !== "unhealthy",
+    list: () => [...models.values()].map((entry) => evaluate(entry)),
+  };
+}
+
+/**
+ * Create the `omco_model_health` tool
+ */
+export function createModelHealthTool(
+  tracker: ModelHealthTracker,
+  alternates?: Partial<Record<string, string[]>>
+): ToolDefinition {
+  return tool({
+    description: `Show the health of the models delegated agents ran on: recent failures, rate limits and latency.
+
+Unhealthy tier models are skipped in favour of the tier's configured alternates until they recover.`,
+    args: {
+      model: tool.schema.string().optional().describe("Only show this provider/model"),
+    },
+    async execute(args) {
+      const records = args.model
+        ? [tracker.get(args.model)].filter((r): r is ModelHealthRecord => r !== undefined)
+        : tracker.list();
+
+      return JSON.stringify({
+        models: records.map((r) => ({
+          model: r.model,
+          status: r.status,
+          reason: r.reason,
+          recent_failures: r.failures.length,
+          recent_rate_limits: r.rateLimits.length,
+          avg_latency_ms: averageLatency(r),
+          success_count: r.successCount,
+          failure_count: r.failureCount,
+          last_error: r.lastError,
+          last_success_at: r.lastSuccessAt ? new Date(r.lastSuccessAt).toISOString() : undefined,
+          last_failure_at: r.lastFailureAt ? new Date(r.lastFailureAt).toISOString() : undefined,
+        })),
+        alternates: alternates ?? {},
+      });
+    },
+  });
+}
@@ -10,6 +10,9 @@
  * 3. Agent definition tier → tierDefaults  
  * 4. Fallback to sonnet tier
  * 5. If all else fails, use parent session model
+ *
+ * Tier-mapped models are checked against the model health table: an unhealthy tier model is
+ * replaced by the first healthy entry of model_mapping.alternates for that tier.
  * 
  * Workaround:
  * - opusReadOnlyFallbackToSonnet: opus + readOnly agents → sonnet (OpenCode bug workaround)
@@ -18,6 +21,7 @@
 import { ModelResolver, type ModelTier, type AgentModelConfig, type ModelMappingConfig } from "../config/model-resolver";
 import { getAgent } from "../agents";
 import { log } from "../shared/logger";
+import { createModelHealthTracker, type ModelHealthTracker, type ModelOutcome } from "./model-health";
 
 export interface ModelConfig {
   providerID: string;
@@ -63,6 +67,24 @@ export interface ModelResolutionService {
     categoryTier: string,
     fallbackModel?: ModelConfig
   ): ModelConfig | undefined;
+
+  /**
+   * Resolve a model reference that is either a tier name (haiku, sonnet, opus)
+   * or a concrete "provider/model" string
+   * @param reference - Tier name or provider/model string
+   * @returns Resolved ModelConfig or undefined if the tier has no mapping
+   */
+  resolveModelReference(reference: string): ModelConfig | undefined;
+
+  /**
+   * Record the outcome of a prompt sent to a model in the health table
+   */
+  recordModelOutcome(model: ModelConfig, outcome: ModelOutcome): void;
+
+  /**
+   * Health table used to route around failing tier models
+   */
+  getModelHealth(): ModelHealthTracker;
 }
 
 /**
@@ -89,18 +111,39 @@ function parseModelString(model: string): ModelConfig | undefined {
  * 
  * @param modelMappingConfig - Config from omco.json model_mapping section
  * @param agentOverrides - Per-agent config overrides from omco.json agents section
+ * @param projectDir - Directory whose .omc/model-health.json persists the health table
  */
 export function createModelResolutionService(
   modelMappingConfig?: ModelMappingConfig,
-  agentOverrides?: Record<string, AgentModelConfig>
+  agentOverrides?: Record<string, AgentModelConfig>,
+  projectDir?: string
 ): ModelResolutionService {
   const resolver = new ModelResolver(modelMappingConfig);
   const debugLogging = modelMappingConfig?.debugLogging ?? false;
   const opusReadOnlyFallback = modelMappingConfig?.opusReadOnlyFallbackToSonnet ?? false;
+  const health = createModelHealthTracker(modelMappingConfig?.health, projectDir);
   
   // Check if any tierDefault has a real provider/model format
   const tierDefaults = resolver.getTierDefaults();
   const hasConfiguredTiers = Object.values(tierDefaults).some(m => m.includes("/"));
+
+  /**
+   * Keep a tier's model while it is healthy, otherwise use its first healthy alternate.
+   * Without a healthy alternate the tier model is kept.
+   */
+  const routeByHealth = (tier: ModelTier, model: string, context: string): string => {
+    if (!model.includes("/") || health.isHealthy(model)) {
+      return model;
+    }
+
+    const alternate = modelMappingConfig?.alternates?.[tier]
+      ?.find((candidate) => candidate !== model && parseModelString(candidate) && health.isHealthy(candidate));
+    log(`[model-resolution] ${context}: ${model} is unhealthy`, {
+      reason: health.get(model)?.reason,
+      alternate: alternate ?? "none",
+    });
+    return alternate ?? model;
+  };
   
   const resolveModelForAgent = (
     agentName: string,
@@ -125,13 +168,18 @@ export function createModelResolutionService(
     
     // Resolve via ModelResolver (handles priority chain)
     const resolution = resolver.resolve(agentName, effectiveTier, agentOverride);
+
+    // Explicit per-agent models are used as configured; tier models route around failures
+    const model = resolution.source === "per-agent-override"
+      ? resolution.model
+      : routeByHealth(resolution.originalTier ?? "sonnet", resolution.model, agentName);
     
     // Parse the resolved model string to ModelConfig
-    const modelConfig = parseModelString(resolution.model);
+    const modelConfig = parseModelString(model);
     
     if (modelConfig) {
       if (debugLogging) {
-        log(`[model-resolution] Resolved ${agentName}: ${resolution.model} (source: ${resolution.source})`);
+        log(`[model-resolution] Resolved ${agentName}: ${model} (source: ${resolution.source})`);
       }
       return modelConfig;
     }
@@ -193,7 +241,8 @@ export function createModelResolutionService(
   ): ModelConfig | undefined => {
     // Get the tier mapping from tierDefaults
     const tierDefaults = resolver.getTierDefaults();
-    const mappedModel = tierDefaults[categoryTier as ModelTier];
+    const tierModel = tierDefaults[categoryTier as ModelTier];
+    const mappedModel = tierModel && routeByHealth(categoryTier as ModelTier, tierModel, `category tier ${categoryTier}`);
 
     // Try to parse the mapped model to provider/model format
     if (mappedModel) {
@@ -217,10 +266,21 @@ export function createModelResolutionService(
     return fallbackModel;
   };
 
+  const resolveModelReference = (reference: string): ModelConfig | undefined => {
+    return parseModelString(reference) ?? resolveModelForCategory(reference);
+  };
+
+  const recordModelOutcome = (model: ModelConfig, outcome: ModelOutcome): void => {
+    health.record(`${model.providerID}/${model.modelID}`, outcome);
+  };
+
   return {
     resolveModelForAgent,
     resolveModelForAgentOrThrow,
     isTierMappingConfigured,
     resolveModelForCategory,
+    resolveModelReference,
+    recordModelOutcome,
+    getModelHealth: () => health,
   };
 }
@@ -0,0 +1,223 @@
+/**
+ * Structured output for delegated agents
+ *
+ * call_omco_agent accepts `output_schema`: the name of a registered schema or an inline
+ * JSON Schema. The agent is asked to answer with a JSON object, the answer is validated with
+ * zod, and on a mismatch the agent is re-prompted in the same session with the validation
+ * errors until it complies or the repair attempts run out.
+ *
+ * @module output-schemas
+ */
+
+import { z } from "zod";
+
+// Re-prompts after the first answer fails validation
+export const MAX_SCHEMA_REPAIRS = 2;
+
+export interface OutputSchemaDefinition {
+  description: string;
+  schema: z.ZodType;
+}
+
+/**
+ * Named schemas for common delegation results
+ */
+export const OUTPUT_SCHEMAS: Record<string, OutputSchemaDefinition> = {
+  "review-findings": {
+    description: "Code review verdict with individual findings",
+    schema: z.object({
+      verdict: z.enum(["approve", "request_changes"]),
+      summary: z.string(),
+      findings: z.array(z.object({
+        severity: z.enum(["critical", "major", "minor", "nit"]),
+        file: z.string().optional(),
+        line: z.number().int().optional(),
+        message: z.string(),
+      })),
+    }),
+  },
+  plan: {
+    description: "Implementation plan as ordered steps",
+    schema: z.object({
+      goal: z.string(),
+      steps: z.array(z.object({
+        id: z.string(),
+        description: z.string(),
+        files: z.array(z.string()).optional(),
+        dependsOn: z.array(z.string()).optional(),
+      })).min(1),
+      risks: z.array(z.string()).optional(),
+    }),
+  },
+  verification: {
+    description: "Verification verdict on a completion claim",
+    schema: z.object({
+      approved: z.boolean(),
+      feedback: z.string(),
+      missing: z.array(z.string()).optional(),
+    }),
+  },
+  prd: {
+    description: "Product requirements as prioritized user stories with acceptance criteria",
+    schema: z.object({
+      project: z.string(),
+      description: z.string(),
+      userStories: z.array(z.object({
+        id: z.string(),
+        title: z.string(),
+        description: z.string().optional(),
+        priority: z.number().int().min(1),
+        dependsOn: z.array(z.string()).optional(),
+        acceptanceCriteria: z.array(z.object({
+          description: z.string(),
+          assertion: z.discriminatedUnion("type", [
+            z.object({ type: z.literal("command"), command: z.string() }),
+            z.object({ type: z.literal("file_contains"), path: z.string(), pattern: z.string() }),
+          ]).optional(),
+        })).min(1),
+      })).min(1),
+    }),
+  },
+  "story-result": {
+    description: "Outcome of implementing one PRD user story, with evidence per acceptance criterion",
+    schema: z.object({
+      storyId: z.string(),
+      passes: z.boolean(),
+      summary: z.string(),
+      criteria: z.array(z.object({
+        id: z.string(),
+        evidence: z.object({
+          files: z.array(z.string()).optional(),
+          tests: z.array(z.string()).optional(),
+          output: z.string().optional(),
+          note: z.string().optional(),
+        }),
+      })),
+    }),
+  },
+};
+
+export interface ResolvedOutputSchema {
+  /** Registry name, or "custom" for an inline JSON Schema */
+  name: string;
+  schema: z.ZodType;
+  jsonSchema: unknown;
+}
+
+/**
+ * Resolve `output_schema` to a zod schema: a registry name or an inline JSON Schema string
+ */
+export function resolveOutputSchema(spec: string): ResolvedOutputSchema | { error: string } {
+  const named = OUTPUT_SCHEMAS[spec];
+  if (named) {
+    return { name: spec, schema: named.schema, jsonSchema: z.toJSONSchema(named.schema) };
+  }
+
+  let jsonSchema: unknown;
+  try {
+    jsonSchema = JSON.parse(spec);
+  } catch {
+    return {
+      error: `Unknown output schema: ${spec}. Use one of ${Object.keys(OUTPUT_SCHEMAS).join(", ")} or an inline JSON Schema.`,
+    };
+  }
+
+  try {
+    const schema = z.fromJSONSchema(jsonSchema as Parameters<typeof z.fromJSONSchema>[0]);
+    return { name: "custom", schema, jsonSchema };
+  } catch (err) {
+    return { error: `Invalid output schema: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+/**
+ * Instructions appended to the delegated prompt
+ */
+export function formatSchemaInstructions(resolved: ResolvedOutputSchema): string {
+  return `## Output Format
+Your final answer MUST be a single JSON object in a \`\`\`json code block, matching this JSON Schema:
+
+\`\`\`json
+${JSON.stringify(resolved.jsonSchema, null, 2)}
+\`\`\``;
+}
+
+/**
+ * Pull the JSON answer out of a reply: the last ```json block, else the outermost braces
+ */
+export function extractJson(text: string): string | undefined {
+  const fenced = [...text.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/g)];
+  if (fenced.length > 0) {
+    return fenced[fenced.length - 1][1].trim();
+  }
+
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return start !== -1 && end > start ? text.substring(start, end + 1) : undefined;
+}
+
+export function validateStructuredOutput(
+  text: string,
+  resolved: ResolvedOutputSchema
+): { success: true; data: unknown } | { success: false; error: string } {
+  const json = extractJson(text);
+  if (!json) {
+    return { success: false, error: "No JSON object found in the response" };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (err) {
+    return { success: false, error: `Invalid JSON: ${err instanceof Error ? err.message : String(err)}` };
+  }
+
+  const parsed = resolved.schema.safeParse(value);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.length ? issue.path.join(".") : "(root)"}: ${issue.message}`)
+      .join("; ");
+    return { success: false, error: `Schema validation failed: ${issues}` };
+  }
+
+  return { success: true, data: parsed.data };
+}
+
+/**
+ * Follow-up asking the agent to fix a non-conforming answer
+ */
+export function formatRepairPrompt(error: string, resolved: ResolvedOutputSchema): string {
+  return `Your previous answer did not match the required output format.
+
+${error}
+
+Reply again with ONLY the corrected JSON object in a \`\`\`json code block.
+
+${formatSchemaInstructions(resolved)}`;
+}
+
+/**
+ * Validate a reply and re-prompt through `reprompt` until it conforms. `reprompt` returns
+ * the next reply, or undefined when the run was aborted.
+ */
+export async function enforceOutputSchema(
+  resolved: ResolvedOutputSchema,
+  text: string,
+  reprompt: (prompt: string) => Promise<string | undefined>
+): Promise<{ data: unknown; text: string } | { error: string; text: string } | undefined> {
+  let current = text;
+
+  for (let repair = 0; ; repair++) {
+    const validation = validateStructuredOutput(current, resolved);
+    if (validation.success) {
+      return { data: validation.data, text: current };
+    }
+    if (repair >= MAX_SCHEMA_REPAIRS) {
+      return { error: `Output did not match schema "${resolved.name}": ${validation.error}`, text: current };
+    }
+
+    const next = await reprompt(formatRepairPrompt(validation.error, resolved));
+    if (next === undefined) return undefined;
+    current = next;
+  }
+}
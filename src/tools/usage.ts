@@ -0,0 +1,146 @@
+/**
+ * Token and cost accounting for background tasks
+ *
+ * Child sessions report tokens (and a provider-side cost) on each assistant message.
+ * The background manager sums them per task; this module prices them and exposes the
+ * per-session rollup through the `omco_usage` tool.
+ *
+ * @module usage
+ */
+
+import { tool, type ToolDefinition } from "@opencode-ai/plugin";
+import type { BackgroundManager, ModelConfig } from "./background-manager";
+import type { ModelPricingConfig } from "../config";
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  /** Estimated USD cost: price table when the model is listed, otherwise the provider-reported cost */
+  cost: number;
+}
+
+export interface SessionUsage {
+  taskCount: number;
+  total: TokenUsage;
+  /** Totals keyed by the "provider/model" each task ran on */
+  byModel: Record<string, TokenUsage>;
+}
+
+/**
+ * Token counts as reported on an OpenCode assistant message
+ */
+export interface MessageTokens {
+  input?: number;
+  output?: number;
+  reasoning?: number;
+  cache?: { read?: number; write?: number };
+}
+
+export function emptyUsage(): TokenUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    cost: 0,
+  };
+}
+
+export function addUsage(target: TokenUsage, usage: TokenUsage): TokenUsage {
+  target.inputTokens += usage.inputTokens;
+  target.outputTokens += usage.outputTokens;
+  target.reasoningTokens += usage.reasoningTokens;
+  target.cacheReadTokens += usage.cacheReadTokens;
+  target.cacheWriteTokens += usage.cacheWriteTokens;
+  target.cost += usage.cost;
+  return target;
+}
+
+/**
+ * Price one assistant message. Prices are USD per million tokens, keyed by
+ * "provider/model" or bare model ID. Reasoning tokens bill at the output rate and
+ * cache reads/writes fall back to the input rate when not listed.
+ */
+export function priceMessageUsage(
+  tokens: MessageTokens,
+  model: ModelConfig | undefined,
+  pricing?: ModelPricingConfig,
+  reportedCost?: number
+): TokenUsage {
+  const usage: TokenUsage = {
+    inputTokens: tokens.input ?? 0,
+    outputTokens: tokens.output ?? 0,
+    reasoningTokens: tokens.reasoning ?? 0,
+    cacheReadTokens: tokens.cache?.read ?? 0,
+    cacheWriteTokens: tokens.cache?.write ?? 0,
+    cost: reportedCost ?? 0,
+  };
+
+  const price = model
+    ? pricing?.[`${model.providerID}/${model.modelID}`] ?? pricing?.[model.modelID]
+    : undefined;
+
+  if (price) {
+    usage.cost = (
+      usage.inputTokens * price.input +
+      (usage.outputTokens + usage.reasoningTokens) * price.output +
+      usage.cacheReadTokens * (price.cacheRead ?? price.input) +
+      usage.cacheWriteTokens * (price.cacheWrite ?? price.input)
+    ) / 1_000_000;
+  }
+
+  return usage;
+}
+
+function roundCost(usage: TokenUsage): TokenUsage {
+  return { ...usage, cost: Math.round(usage.cost * 1_000_000) / 1_000_000 };
+}
+
+export function createUsageTool(manager: BackgroundManager): ToolDefinition {
+  return tool({
+    description: `Show token usage and estimated cost of background agent tasks in this session.
+
+Pass task_id for a single task; otherwise returns the session rollup with a per-task breakdown.`,
+    args: {
+      task_id: tool.schema.string().optional().describe("Only report this task"),
+    },
+    async execute(args, context) {
+      if (args.task_id) {
+        const task = manager.getTask(args.task_id);
+        if (!task) {
+          return JSON.stringify({ error: `Task ${args.task_id} not found` });
+        }
+        return JSON.stringify({
+          task_id: task.id,
+          status: task.status,
+          description: task.description,
+          usage: roundCost(task.usage ?? emptyUsage()),
+        });
+      }
+
+      const summary = manager.getSessionUsage(context.sessionID);
+      const byModel: Record<string, TokenUsage> = {};
+      for (const [model, usage] of Object.entries(summary.byModel)) {
+        byModel[model] = roundCost(usage);
+      }
+
+      return JSON.stringify({
+        session_id: context.sessionID,
+        task_count: summary.taskCount,
+        total: roundCost(summary.total),
+        by_model: byModel,
+        tasks: manager.getTasksByParentSession(context.sessionID).map((task) => ({
+          task_id: task.id,
+          description: task.description,
+          status: task.status,
+          model: task.model ? `${task.model.providerID}/${task.model.modelID}` : undefined,
+          usage: task.usage ? roundCost(task.usage) : undefined,
+        })),
+      });
+    },
+  });
+}
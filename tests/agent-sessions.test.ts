@@ -0,0 +1,230 @@
+/**
+ * Agent Session Continuation Tests
+ *
+ * Tests for multi-turn delegation through call_omco_agent's session_id and omco_agent_turns.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import type { PluginInput } from "@opencode-ai/plugin";
+import { createBackgroundManager } from "../src/tools/background-manager";
+import { createCallOmcoAgent } from "../src/tools/call-omco-agent";
+import { createModelResolutionService, type ModelResolutionService } from "../src/tools/model-resolution-service";
+import { createAgentTurnsTool, groupTurns } from "../src/tools/agent-turns";
+import { findAgentSession, saveAgentSession } from "../src/state/agent-session-state";
+
+const TEST_DIR = "/tmp/omco-agent-sessions-test";
+
+const MODEL = { providerID: "anthropic", modelID: "claude-opus-4" };
+
+const toolContext = { sessionID: "parent" } as never;
+
+function createSessionCtx(modelService?: ModelResolutionService) {
+  const created: string[] = [];
+  const prompts: Array<{ sessionID: string; text: string; model?: unknown }> = [];
+  const ctx = {
+    directory: TEST_DIR,
+    client: {
+      session: {
+        create: async () => {
+          created.push(`child-${created.length + 1}`);
+          return { data: { id: created[created.length - 1] } };
+        },
+        prompt: async (req: { path: { id: string }; body: { parts: Array<{ text: string }>; model?: unknown } }) => {
+          prompts.push({ sessionID: req.path.id, text: req.body.parts[0].text, model: req.body.model });
+          return {
+            data: {
+              info: { role: "assistant" },
+              parts: [{ type: "text", text: `reply ${prompts.length}` }],
+            },
+          };
+        },
+        messages: async () => ({
+          data: [
+            { info: { role: "user" }, parts: [{ type: "text", text: "Design the cache" }] },
+            { info: { role: "assistant", time: { completed: 1 } }, parts: [{ type: "text", text: "Use an LRU" }] },
+            { info: { role: "user" }, parts: [{ type: "text", text: "What about eviction?" }] },
+            { info: { role: "assistant" }, parts: [{ type: "text", text: "Thinking" }] },
+          ],
+        }),
+        abort: async () => ({}),
+      },
+      tui: { showToast: async () => ({}) },
+    },
+  } as unknown as PluginInput;
+
+  const manager = createBackgroundManager(ctx, { persistTasks: false }, modelService);
+  (manager as { getParentSessionModel: unknown }).getParentSessionModel = async () => MODEL;
+
+  return { ctx, manager, created, prompts };
+}
+
+describe("Agent session continuation", () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("should send a follow-up to the same session without re-injecting the agent prompt", async () => {
+    const { ctx, manager, created, prompts } = createSessionCtx();
+    const callOmcoAgent = createCallOmcoAgent(ctx, manager);
+
+    const first = JSON.parse(await callOmcoAgent.execute({
+      description: "design cache",
+      prompt: "Design the cache",
+      subagent_type: "architect",
+      run_in_background: false,
+    }, toolContext));
+    expect(first.turn).toBe(1);
+
+    const followUp = JSON.parse(await callOmcoAgent.execute({
+      description: "eviction",
+      prompt: "What about eviction?",
+      run_in_background: false,
+      session_id: first.session_id,
+    }, toolContext));
+
+    expect(followUp.status).toBe("completed");
+    expect(followUp.session_id).toBe(first.session_id);
+    expect(followUp.turn).toBe(2);
+    expect(followUp.result).toBe("reply 2");
+    expect(created).toHaveLength(1);
+    expect(prompts[0].text).toContain("Design the cache");
+    expect(prompts[0].text.length).toBeGreaterThan("Design the cache".length);
+    expect(prompts[1]).toEqual({ sessionID: first.session_id, text: "What about eviction?", model: prompts[0].model });
+    expect(findAgentSession(TEST_DIR, first.session_id)?.agent).toBe("architect");
+  });
+
+  it("should reject a different agent type or an unknown session", async () => {
+    const { ctx, manager } = createSessionCtx();
+    const callOmcoAgent = createCallOmcoAgent(ctx, manager);
+
+    const first = JSON.parse(await callOmcoAgent.execute({
+      description: "design cache",
+      prompt: "Design the cache",
+      subagent_type: "architect",
+      run_in_background: false,
+    }, toolContext));
+
+    const conflicting = JSON.parse(await callOmcoAgent.execute({
+      description: "switch",
+      prompt: "Now implement it",
+      subagent_type: "executor",
+      run_in_background: false,
+      session_id: first.session_id,
+    }, toolContext));
+    expect(conflicting.status).toBe("failed");
+    expect(conflicting.error).toContain("cannot change");
+
+    const unknown = JSON.parse(await callOmcoAgent.execute({
+      description: "nope",
+      prompt: "Hello",
+      run_in_background: false,
+      session_id: "ses_unknown",
+    }, toolContext));
+    expect(unknown.error).toContain("Unknown session_id");
+  });
+
+  it("should continue a background task's session by task_id", async () => {
+    const { ctx, manager, created, prompts } = createSessionCtx();
+    const callOmcoAgent = createCallOmcoAgent(ctx, manager);
+
+    const launched = JSON.parse(await callOmcoAgent.execute({
+      description: "explore",
+      prompt: "Find the routes",
+      subagent_type: "explore",
+      run_in_background: true,
+    }, toolContext));
+    await manager.waitForTask(launched.task_id, 2000);
+
+    const followUp = JSON.parse(await callOmcoAgent.execute({
+      description: "explore more",
+      prompt: "Now find the handlers",
+      run_in_background: true,
+      session_id: launched.task_id,
+    }, toolContext));
+    const finished = await manager.waitForTask(followUp.task_id, 2000);
+
+    expect(followUp.session_id).toBe("child-1");
+    expect(followUp.turn).toBe(2);
+    expect(finished.result).toBe("reply 2");
+    expect(created).toHaveLength(1);
+    expect(prompts[1].text).toBe("Now find the handlers");
+    expect(manager.getTask(launched.task_id)?.result).toBe("reply 1");
+  });
+
+  it("should keep the category model when continuing a category session in the background", async () => {
+    const modelService = createModelResolutionService({
+      tierDefaults: {
+        haiku: "anthropic/claude-haiku-4-5",
+        sonnet: "anthropic/claude-sonnet-4-5",
+        opus: "anthropic/claude-opus-4-5",
+      },
+    });
+    const { ctx, manager, prompts } = createSessionCtx(modelService);
+    const callOmcoAgent = createCallOmcoAgent(ctx, manager, modelService);
+
+    const launched = JSON.parse(await callOmcoAgent.execute({
+      description: "fix typo",
+      prompt: "Fix the typo in the header",
+      category: "quick",
+      run_in_background: true,
+    }, toolContext));
+    await manager.waitForTask(launched.task_id, 2000);
+
+    const followUp = JSON.parse(await callOmcoAgent.execute({
+      description: "fix footer",
+      prompt: "Fix the footer too",
+      run_in_background: true,
+      session_id: launched.task_id,
+    }, toolContext));
+    const finished = await manager.waitForTask(followUp.task_id, 2000);
+
+    const haiku = { providerID: "anthropic", modelID: "claude-haiku-4-5" };
+    expect(finished.status).toBe("completed");
+    expect(finished.model).toEqual(haiku);
+    expect(prompts.map((p) => p.model)).toEqual([haiku, haiku]);
+  });
+
+  it("should list turns since a given turn", async () => {
+    const { ctx, manager } = createSessionCtx();
+    const agentTurns = createAgentTurnsTool(ctx, manager);
+
+    const response = JSON.parse(await agentTurns.execute({ session_id: "child-1", since_turn: 1 }, toolContext));
+
+    expect(response.total_turns).toBe(2);
+    expect(response.turns).toEqual([
+      { turn: 2, prompt: "What about eviction?", response: "Thinking", pending: true },
+    ]);
+  });
+
+  it("should log rather than throw when the state directory cannot be created", () => {
+    // A file where the project directory should be makes mkdir fail
+    const blocked = `${TEST_DIR}/not-a-dir`;
+    fs.writeFileSync(blocked, "");
+
+    expect(() => saveAgentSession(blocked, {
+      session_id: "child-1",
+      parent_session_id: "parent",
+      agent: "architect",
+      turns: 1,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })).not.toThrow();
+  });
+
+  it("should group messages into prompt/reply turns", () => {
+    const turns = groupTurns([
+      { info: { role: "user" }, parts: [{ type: "text", text: "Q1" }] },
+      { info: { role: "assistant", error: { name: "APIError", data: { message: "overloaded" } } }, parts: [] },
+    ]);
+
+    expect(turns).toEqual([
+      { turn: 1, prompt: "Q1", response: "", pending: false, error: "[APIError] overloaded" },
+    ]);
+  });
+});
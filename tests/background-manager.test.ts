@@ -0,0 +1,1022 @@
+/**
+ * BackgroundManager Tests
+ *
+ * Tests for background task lifecycle and the persisted task journal.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as path from "path";
+import type { PluginInput } from "@opencode-ai/plugin";
+import { createBackgroundManager, type BackgroundTask } from "../src/tools/background-manager";
+import { createBackgroundTools } from "../src/tools/background-tools";
+import { createCallOmcoAgent, createCallOmcoAgents } from "../src/tools/call-omco-agent";
+import {
+  appendTaskJournalEntry,
+  readTaskJournal,
+  compactTaskJournal,
+} from "../src/state/background-task-state";
+
+const TEST_DIR = "/tmp/omco-background-manager-test";
+
+const MODEL = { providerID: "anthropic", modelID: "claude-sonnet-4" };
+
+function createMockCtx(messages: unknown[] = []): PluginInput {
+  return {
+    directory: TEST_DIR,
+    client: {
+      session: {
+        create: async () => ({ data: { id: "child-session" } }),
+        prompt: async () => ({
+          data: {
+            info: { role: "assistant" },
+            parts: [{ type: "text", text: "done" }],
+          },
+        }),
+        messages: async () => ({ data: messages }),
+        abort: async () => ({}),
+      },
+      tui: {
+        showToast: async () => ({}),
+      },
+    },
+  } as unknown as PluginInput;
+}
+
+function makeTask(overrides: Partial<BackgroundTask>): BackgroundTask {
+  return {
+    id: "bg_test_1",
+    status: "completed",
+    description: "test task",
+    parentSessionID: "parent",
+    startedAt: Date.now() - 1000,
+    completedAt: Date.now(),
+    ...overrides,
+  };
+}
+
+/**
+ * Mock context whose prompts stay pending until finishNext() resolves them in order
+ */
+function createControlledCtx() {
+  const prompts: string[] = [];
+  const aborted: string[] = [];
+  const pending: Array<(value: unknown) => void> = [];
+  let sessionCounter = 0;
+  const ctx = {
+    directory: TEST_DIR,
+    client: {
+      session: {
+        create: async () => ({ data: { id: `child-${++sessionCounter}` } }),
+        prompt: (req: { body: { parts: Array<{ text: string }> } }) => {
+          prompts.push(req.body.parts[0].text);
+          return new Promise((resolve) => pending.push(resolve));
+        },
+        abort: async (req: { path: { id: string } }) => {
+          aborted.push(req.path.id);
+          return {};
+        },
+      },
+      tui: { showToast: async () => ({}) },
+    },
+  } as unknown as PluginInput;
+
+  const finishNext = (text: string, error?: { name: string }) => {
+    const resolve = pending.shift();
+    resolve?.({
+      data: {
+        info: { role: "assistant", error },
+        parts: [{ type: "text", text }],
+      },
+    });
+  };
+
+  return { ctx, prompts, aborted, finishNext };
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error("waitFor timed out");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe("BackgroundManager", () => {
+  beforeEach(() => {
+    if (fs.existsSync(TEST_DIR)) {
+      fs.rmSync(TEST_DIR, { recursive: true });
+    }
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(TEST_DIR)) {
+      fs.rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+
+  describe("task journal", () => {
+    it("should replay the latest snapshot of each task", () => {
+      appendTaskJournalEntry(TEST_DIR, "created", makeTask({ status: "running", completedAt: undefined }));
+      appendTaskJournalEntry(TEST_DIR, "updated", makeTask({ status: "completed", result: "ok" }));
+
+      const tasks = readTaskJournal(TEST_DIR);
+      expect(tasks).toHaveLength(1);
+      expect(tasks[0].status).toBe("completed");
+      expect(tasks[0].result).toBe("ok");
+    });
+
+    it("should skip malformed lines", () => {
+      appendTaskJournalEntry(TEST_DIR, "created", makeTask({}));
+      fs.appendFileSync(path.join(TEST_DIR, ".omc", "background-tasks.jsonl"), "{not json\n");
+
+      expect(readTaskJournal(TEST_DIR)).toHaveLength(1);
+    });
+
+    it("should compact to one entry per task", () => {
+      appendTaskJournalEntry(TEST_DIR, "created", makeTask({ status: "running" }));
+      appendTaskJournalEntry(TEST_DIR, "updated", makeTask({ status: "completed" }));
+      compactTaskJournal(TEST_DIR, [makeTask({ status: "completed" })]);
+
+      const content = fs.readFileSync(path.join(TEST_DIR, ".omc", "background-tasks.jsonl"), "utf-8");
+      expect(content.trim().split("\n")).toHaveLength(1);
+    });
+  });
+
+  describe("persistence", () => {
+    it("should journal task creation and completion", async () => {
+      const manager = createBackgroundManager(createMockCtx());
+      const task = await manager.createTask("parent", "explore files", "Find files", "explore", MODEL);
+      await manager.waitForTask(task.id, 2000);
+
+      const persisted = readTaskJournal(TEST_DIR);
+      expect(persisted).toHaveLength(1);
+      expect(persisted[0].status).toBe("completed");
+      expect(persisted[0].sessionID).toBe("child-session");
+      expect(persisted[0].result).toBe("done");
+    });
+
+    it("should not write a journal when persistTasks is false", async () => {
+      const manager = createBackgroundManager(createMockCtx(), { persistTasks: false });
+      const task = await manager.createTask("parent", "explore files", "Find files", "explore", MODEL);
+      await manager.waitForTask(task.id, 2000);
+
+      expect(fs.existsSync(path.join(TEST_DIR, ".omc", "background-tasks.jsonl"))).toBe(false);
+    });
+
+    it("should rehydrate completed tasks on startup", () => {
+      appendTaskJournalEntry(TEST_DIR, "updated", makeTask({ result: "finished earlier" }));
+
+      const manager = createBackgroundManager(createMockCtx());
+      const task = manager.getTask("bg_test_1");
+      expect(task?.status).toBe("completed");
+      expect(task?.result).toBe("finished earlier");
+    });
+
+    it("should drop expired tasks on startup", () => {
+      const twoHoursAgo = Date.now() - 2 * 60 * 60 * 1000;
+      appendTaskJournalEntry(TEST_DIR, "updated", makeTask({ completedAt: twoHoursAgo }));
+
+      const manager = createBackgroundManager(createMockCtx());
+      expect(manager.getTask("bg_test_1")).toBeUndefined();
+    });
+
+    it("should reconcile running tasks against their finished child session", async () => {
+      appendTaskJournalEntry(TEST_DIR, "updated", makeTask({
+        status: "running",
+        sessionID: "child-session",
+        completedAt: undefined,
+      }));
+
+      const manager = createBackgroundManager(createMockCtx([
+        { info: { role: "user" }, parts: [{ type: "text", text: "prompt" }] },
+        {
+          info: { role: "assistant", time: { created: 1, completed: 2 } },
+          parts: [{ type: "text", text: "recovered result" }],
+        },
+      ]));
+
+      await waitFor(() => manager.getTask("bg_test_1")?.status !== "running");
+      const task = manager.getTask("bg_test_1");
+      expect(task?.status).toBe("completed");
+      expect(task?.result).toBe("recovered result");
+    });
+
+    it("should fail running tasks whose child session errored", async () => {
+      appendTaskJournalEntry(TEST_DIR, "updated", makeTask({
+        status: "running",
+        sessionID: "child-session",
+        completedAt: undefined,
+      }));
+
+      const manager = createBackgroundManager(createMockCtx([
+        {
+          info: {
+            role: "assistant",
+            time: { created: 1, completed: 2 },
+            error: { name: "ProviderAuthError", data: { message: "bad key" } },
+          },
+          parts: [],
+        },
+      ]));
+
+      await waitFor(() => manager.getTask("bg_test_1")?.status !== "running");
+      expect(manager.getTask("bg_test_1")?.error).toContain("bad key");
+    });
+
+    it("should fail running tasks that never created a session", () => {
+      appendTaskJournalEntry(TEST_DIR, "created", makeTask({ status: "running", completedAt: undefined }));
+
+      const manager = createBackgroundManager(createMockCtx());
+      const task = manager.getTask("bg_test_1");
+      expect(task?.status).toBe("failed");
+      expect(task?.error).toContain("restart");
+    });
+  });
+
+  describe("dependencies", () => {
+    it("should wait for dependencies and inject their results", async () => {
+      const { ctx, prompts, finishNext } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false });
+
+      const explore = await manager.createTask("parent", "explore", "Find files", "explore", MODEL);
+      const architect = await manager.createTask("parent", "architect", "Design it", "architect", MODEL, {
+        dependsOn: [explore.id],
+        injectDependencyResults: true,
+      });
+
+      expect(architect.status).toBe("waiting");
+      await waitFor(() => prompts.length === 1);
+
+      finishNext("found src/index.ts");
+      await waitFor(() => prompts.length === 2);
+
+      expect(manager.getTask(architect.id)?.status).toBe("running");
+      expect(prompts[1]).toContain("<dependency-results>");
+      expect(prompts[1]).toContain("found src/index.ts");
+
+      finishNext("design done");
+      const finished = await manager.waitForTask(architect.id, 2000);
+      expect(finished.status).toBe("completed");
+    });
+
+    it("should launch immediately when dependencies already completed", async () => {
+      const { ctx, prompts, finishNext } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false });
+
+      const explore = await manager.createTask("parent", "explore", "Find files", "explore", MODEL);
+      await waitFor(() => prompts.length === 1);
+      finishNext("found");
+      await manager.waitForTask(explore.id, 2000);
+
+      const next = await manager.createTask("parent", "executor", "Edit", "executor", MODEL, {
+        dependsOn: [explore.id],
+      });
+      expect(next.status).toBe("running");
+    });
+
+    it("should cascade cancellation when a dependency fails", async () => {
+      const { ctx, prompts, finishNext } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false });
+
+      const explore = await manager.createTask("parent", "explore", "Find files", "explore", MODEL);
+      const architect = await manager.createTask("parent", "architect", "Design", "architect", MODEL, {
+        dependsOn: [explore.id],
+      });
+      const executor = await manager.createTask("parent", "executor", "Build", "executor", MODEL, {
+        dependsOn: [architect.id],
+      });
+
+      await waitFor(() => prompts.length === 1);
+      finishNext("", { name: "ProviderAuthError" });
+      await manager.waitForTask(executor.id, 2000);
+
+      expect(manager.getTask(explore.id)?.status).toBe("failed");
+      expect(manager.getTask(architect.id)?.status).toBe("cancelled");
+      expect(manager.getTask(architect.id)?.error).toContain(`Dependency ${explore.id}`);
+      expect(manager.getTask(executor.id)?.status).toBe("cancelled");
+      expect(manager.getTask(executor.id)?.error).toContain(`Dependency ${architect.id}`);
+      expect(prompts).toHaveLength(1);
+    });
+
+    it("should fail tasks that depend on unknown task IDs", async () => {
+      const { ctx } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false });
+
+      const task = await manager.createTask("parent", "executor", "Build", "executor", MODEL, {
+        dependsOn: ["bg_missing"],
+      });
+
+      expect(task.status).toBe("failed");
+      expect(task.error).toContain("bg_missing");
+    });
+  });
+
+  describe("concurrency scheduler", () => {
+    const OPENAI = { providerID: "openai", modelID: "gpt-4o" };
+
+    it("should queue tasks over the global limit and start them in FIFO order", async () => {
+      const { ctx, prompts, finishNext } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false, defaultConcurrency: 1 });
+
+      const first = await manager.createTask("parent", "first", "one", "explore", MODEL);
+      const second = await manager.createTask("parent", "second", "two", "explore", MODEL);
+      const third = await manager.createTask("parent", "third", "three", "explore", MODEL);
+
+      expect(first.status).toBe("running");
+      expect(second.status).toBe("queued");
+      expect(manager.getQueuePosition(second.id)).toBe(1);
+      expect(manager.getQueuePosition(third.id)).toBe(2);
+
+      await waitFor(() => prompts.length === 1);
+      finishNext("done");
+      await waitFor(() => prompts.length === 2);
+
+      expect(manager.getTask(second.id)?.status).toBe("running");
+      expect(manager.getQueuePosition(third.id)).toBe(1);
+      expect(prompts[1]).toContain("two");
+    });
+
+    it("should not let a saturated provider block other providers", async () => {
+      const { ctx, prompts } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, {
+        persistTasks: false,
+        providerConcurrency: { anthropic: 1 },
+      });
+
+      await manager.createTask("parent", "a1", "a1", "explore", MODEL);
+      const a2 = await manager.createTask("parent", "a2", "a2", "explore", MODEL);
+      const o1 = await manager.createTask("parent", "o1", "o1", "explore", OPENAI);
+
+      expect(a2.status).toBe("queued");
+      expect(o1.status).toBe("running");
+      await waitFor(() => prompts.length === 2);
+    });
+
+    it("should enforce per-model limits", async () => {
+      const { ctx } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, {
+        persistTasks: false,
+        modelConcurrency: { "anthropic/claude-sonnet-4": 1 },
+      });
+
+      const first = await manager.createTask("parent", "m1", "m1", "explore", MODEL);
+      const second = await manager.createTask("parent", "m2", "m2", "explore", MODEL);
+
+      expect(first.status).toBe("running");
+      expect(second.status).toBe("queued");
+    });
+
+    it("should drop cancelled tasks from the queue", async () => {
+      const { ctx } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false, defaultConcurrency: 1 });
+
+      await manager.createTask("parent", "first", "one", "explore", MODEL);
+      const second = await manager.createTask("parent", "second", "two", "explore", MODEL);
+      const third = await manager.createTask("parent", "third", "three", "explore", MODEL);
+
+      expect(manager.cancelTask(second.id)).toBe(true);
+      expect(manager.getQueuePosition(second.id)).toBeUndefined();
+      expect(manager.getQueuePosition(third.id)).toBe(1);
+    });
+
+    it("should queue high-priority tasks ahead of normal and low ones", async () => {
+      const { ctx } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false, defaultConcurrency: 1 }, undefined, {
+        architect: { priority: "high" },
+      });
+
+      await manager.createTask("parent", "running", "zero", "explore", MODEL);
+      const low = await manager.createTask("parent", "speculative", "one", "explore", MODEL, { priority: "low" });
+      const normal = await manager.createTask("parent", "normal", "two", "explore", MODEL);
+      const verify = await manager.createTask("parent", "verify", "three", "architect", MODEL);
+
+      expect(verify.priority).toBe("high");
+      expect(manager.getQueuePosition(verify.id)).toBe(1);
+      expect(manager.getQueuePosition(normal.id)).toBe(2);
+      expect(manager.getQueuePosition(low.id)).toBe(3);
+    });
+
+    it("should pause a low-priority task for high-priority work and resume it in its session", async () => {
+      const { ctx, prompts, aborted, finishNext } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, {
+        persistTasks: false,
+        defaultConcurrency: 1,
+        preemptLowPriority: true,
+      });
+
+      const low = await manager.createTask("parent", "explore", "Map the repo", "explore", MODEL, { priority: "low" });
+      await waitFor(() => prompts.length === 1);
+      const high = await manager.createTask("parent", "verify", "Verify the fix", "architect", MODEL, { priority: "high" });
+
+      expect(high.status).toBe("running");
+      expect(manager.getTask(low.id)?.status).toBe("queued");
+      expect(manager.getTask(low.id)?.preemptions).toBe(1);
+      expect(aborted).toEqual([low.sessionID!]);
+
+      // The aborted prompt returns, then the high-priority task finishes and frees the slot
+      finishNext("");
+      await waitFor(() => prompts.length === 2);
+      finishNext("verified");
+      await waitFor(() => prompts.length === 3);
+
+      expect(manager.getTask(low.id)?.sessionID).toBe("child-1");
+      expect(prompts[2]).toContain("Continue the task where you left off");
+      finishNext("mapped");
+      const finished = await manager.waitForTask(low.id, 2000);
+      expect(finished.status).toBe("completed");
+      expect(finished.result).toBe("mapped");
+    });
+  });
+
+  describe("timeouts", () => {
+    it("should abort a task that exceeds its timeout and free its slot", async () => {
+      const { ctx, prompts, aborted } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false, defaultConcurrency: 1 });
+
+      const stuck = await manager.createTask("parent", "stuck", "one", "explore", MODEL, { timeoutMs: 50 });
+      const next = await manager.createTask("parent", "next", "two", "explore", MODEL);
+      expect(next.status).toBe("queued");
+
+      const finished = await manager.waitForTask(stuck.id, 2000);
+      expect(finished.status).toBe("timed_out");
+      expect(finished.error).toBe("Timed out after 50ms");
+      expect(aborted).toEqual(["child-1"]);
+
+      await waitFor(() => prompts.length === 2);
+      expect(manager.getTask(next.id)?.status).toBe("running");
+    });
+
+    it("should apply per-agent default timeouts", async () => {
+      const { ctx } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false }, undefined, {
+        explore: { timeout_ms: 50 },
+      });
+
+      const byDefault = await manager.createTask("parent", "default", "one", "explore", MODEL);
+      const explicit = await manager.createTask("parent", "explicit", "two", "explore", MODEL, { timeoutMs: 60000 });
+      const unlimited = await manager.createTask("parent", "unlimited", "three", "librarian", MODEL);
+
+      expect(byDefault.timeoutMs).toBe(50);
+      expect(explicit.timeoutMs).toBe(60000);
+      expect(unlimited.timeoutMs).toBeUndefined();
+
+      const finished = await manager.waitForTask(byDefault.id, 2000);
+      expect(finished.status).toBe("timed_out");
+      expect(manager.getTask(explicit.id)?.status).toBe("running");
+    });
+
+    it("should not time out tasks that finish in time", async () => {
+      const { ctx, aborted, finishNext } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false });
+
+      const task = await manager.createTask("parent", "quick", "one", "explore", MODEL, { timeoutMs: 100 });
+      await waitFor(() => task.sessionID !== undefined);
+      finishNext("done");
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      expect(manager.getTask(task.id)?.status).toBe("completed");
+      expect(aborted).toHaveLength(0);
+    });
+
+    it("should reject tool timeouts under one second", () => {
+      const { ctx } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false });
+      const timeoutArgs = [
+        createBackgroundTools(manager, ctx.client).background_task.args.timeout_ms,
+        createCallOmcoAgent(ctx, manager).args.timeout_ms,
+        createCallOmcoAgents(ctx, manager).args.agents.element.shape.timeout_ms,
+      ];
+
+      for (const timeoutMs of timeoutArgs) {
+        expect(timeoutMs.safeParse(0).success).toBe(false);
+        expect(timeoutMs.safeParse(-1).success).toBe(false);
+        expect(timeoutMs.safeParse(1000).success).toBe(true);
+        expect(timeoutMs.safeParse(undefined).success).toBe(true);
+      }
+    });
+  });
+
+  describe("task groups", () => {
+    const toolContext = { sessionID: "parent" } as never;
+
+    it("should launch a batch under one group and report invalid specs", async () => {
+      const { ctx, prompts } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false });
+      (manager as { getParentSessionModel: unknown }).getParentSessionModel = async () => MODEL;
+      const callOmcoAgents = createCallOmcoAgents(ctx, manager);
+
+      const response = JSON.parse(await callOmcoAgents.execute({
+        agents: [
+          { description: "find routes", prompt: "Find routes", subagent_type: "explore" },
+          { description: "find docs", prompt: "Find docs", subagent_type: "researcher" },
+          { description: "bad", prompt: "Nope", subagent_type: "no-such-agent" },
+        ],
+      }, toolContext));
+
+      expect(response.group_id).toMatch(/^grp_/);
+      expect(response.tasks).toHaveLength(3);
+      expect(response.tasks[2].status).toBe("failed");
+      expect(manager.getTasksByGroup(response.group_id)).toHaveLength(2);
+      await waitFor(() => prompts.length === 2);
+    });
+
+    it("should wait for the first N tasks of a group and return their results", async () => {
+      const { ctx, prompts, finishNext } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false });
+      const tools = createBackgroundTools(manager, ctx.client);
+
+      const first = await manager.createTask("parent", "first", "one", "explore", MODEL, { groupId: "grp_test" });
+      await manager.createTask("parent", "second", "two", "explore", MODEL, { groupId: "grp_test" });
+      await waitFor(() => prompts.length === 2);
+      finishNext("first result");
+
+      const partial = JSON.parse(await tools.background_output.execute(
+        { group_id: "grp_test", wait_for: 1, timeout: 2000 },
+        toolContext
+      ));
+      expect(partial.complete).toBe(true);
+      expect(partial.settled).toBe(1);
+      expect(partial.tasks[0]).toMatchObject({ task_id: first.id, status: "completed", result: "first result" });
+      expect(partial.tasks[1].status).toBe("running");
+
+      finishNext("second result");
+      const all = JSON.parse(await tools.background_output.execute({ group_id: "grp_test", timeout: 2000 }, toolContext));
+      expect(all.settled).toBe(2);
+      expect(all.tasks.map((t: { result: string }) => t.result)).toEqual(["first result", "second result"]);
+    });
+
+    it("should report an incomplete group when waiting times out", async () => {
+      const { ctx } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false });
+
+      await manager.createTask("parent", "slow", "one", "explore", MODEL, { groupId: "grp_slow" });
+      const group = await manager.waitForGroup("grp_slow", undefined, 100);
+
+      expect(group).toHaveLength(1);
+      expect(group[0].status).toBe("running");
+    });
+  });
+
+  describe("file conflicts", () => {
+    async function startTwoTasks(conflictPolicy?: "off" | "report" | "block") {
+      const { ctx, prompts } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false, conflictPolicy });
+      const first = await manager.createTask("parent", "first", "one", "executor", MODEL);
+      const second = await manager.createTask("parent", "second", "two", "executor", MODEL);
+      await waitFor(() => prompts.length === 2);
+      return { manager, prompts, first, second };
+    }
+
+    async function writeFile(manager: ReturnType<typeof createBackgroundManager>, task: BackgroundTask, callID: string, file: string) {
+      const input = { tool: "edit", sessionID: task.sessionID!, callID };
+      await manager["tool.execute.before"](input, { args: { filePath: file } });
+      await manager["tool.execute.after"](input, { title: file, output: "", metadata: {} });
+    }
+
+    it("should record touched files and report overlapping writes to the parent", async () => {
+      const { manager, prompts, first, second } = await startTwoTasks();
+
+      await writeFile(manager, first, "c1", path.join(TEST_DIR, "src/app.ts"));
+      await writeFile(manager, second, "c2", "src/app.ts");
+      await writeFile(manager, second, "c3", "src/app.ts");
+
+      expect(first.filesTouched).toEqual(["src/app.ts"]);
+      expect(second.conflicts).toHaveLength(1);
+      expect(second.conflicts?.[0]).toMatchObject({ file: "src/app.ts", taskId: first.id });
+
+      const reports = prompts.filter((p) => p.includes("<background-conflict>"));
+      expect(reports).toHaveLength(1);
+      expect(reports[0]).toContain(first.id);
+    });
+
+    it("should block the second writer when conflictPolicy is block", async () => {
+      const { manager, first, second } = await startTwoTasks("block");
+
+      await writeFile(manager, first, "c1", "src/app.ts");
+      await expect(writeFile(manager, second, "c2", "src/app.ts")).rejects.toThrow(/being modified by background task/);
+
+      expect(second.filesTouched).toBeUndefined();
+      expect(second.conflicts?.[0].blocked).toBe(true);
+    });
+
+    it("should only track files when conflictPolicy is off", async () => {
+      const { manager, prompts, first, second } = await startTwoTasks("off");
+
+      await writeFile(manager, first, "c1", "src/app.ts");
+      await writeFile(manager, second, "c2", "src/app.ts");
+
+      expect(second.filesTouched).toEqual(["src/app.ts"]);
+      expect(second.conflicts).toBeUndefined();
+      expect(prompts.some((p) => p.includes("<background-conflict>"))).toBe(false);
+    });
+  });
+
+  describe("category limits", () => {
+    it("should queue tasks beyond the category's max_concurrency", async () => {
+      const { ctx, prompts, finishNext } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false });
+      const options = { category: "quick", categoryConcurrency: 1 };
+
+      const first = await manager.createTask("parent", "first", "one", "executor", MODEL, options);
+      const second = await manager.createTask("parent", "second", "two", "executor", MODEL, options);
+      const other = await manager.createTask("parent", "other", "three", "executor", MODEL, { category: "writing" });
+      await waitFor(() => prompts.length === 2);
+
+      expect(first.status).toBe("running");
+      expect(second.status).toBe("queued");
+      expect(other.status).toBe("running");
+
+      finishNext("done");
+      await waitFor(() => second.status === "running");
+      expect(prompts[2]).toContain("two");
+    });
+
+    it("should pass the tool map and category agent to the prompt and block other tools", async () => {
+      const bodies: Array<{ agent?: string; tools?: Record<string, boolean> }> = [];
+      const ctx = createMockCtx();
+      (ctx.client.session as { prompt: unknown }).prompt = (req: { body: { agent?: string; tools?: Record<string, boolean> } }) => {
+        bodies.push(req.body);
+        return new Promise(() => {});
+      };
+      const manager = createBackgroundManager(ctx, { persistTasks: false });
+
+      const task = await manager.createTask("parent", "review", "Review it", "architect", MODEL, {
+        category: "review",
+        tools: { "*": false, read: true },
+        sessionAgent: "category-review",
+      });
+      await waitFor(() => bodies.length === 1);
+
+      expect(bodies[0]).toMatchObject({ agent: "category-review", tools: { "*": false, read: true } });
+      const input = { tool: "edit", sessionID: task.sessionID!, callID: "c1" };
+      await expect(manager["tool.execute.before"](input, { args: { filePath: "src/app.ts" } }))
+        .rejects.toThrow(/not allowed for category review/);
+      await manager["tool.execute.before"]({ ...input, tool: "read" }, { args: {} });
+      manager.cancelTask(task.id);
+    });
+
+    it("should hold synchronous delegations to the category's max_concurrency and tool map", async () => {
+      const { ctx, prompts, finishNext } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false });
+      const callOmcoAgent = createCallOmcoAgent(ctx, manager, undefined, {
+        quick: { max_concurrency: 1, tools: { deny: ["edit"] } },
+      });
+      const toolContext = { sessionID: "parent" } as never;
+      const delegation = { description: "fix", prompt: "Fix the typo", category: "quick" };
+
+      await callOmcoAgent.execute({ ...delegation, run_in_background: true }, toolContext);
+      await waitFor(() => prompts.length === 1);
+      const sync = callOmcoAgent.execute({ ...delegation, run_in_background: false }, toolContext);
+
+      // The sync call waits for the background task's slot
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(prompts).toHaveLength(1);
+      finishNext("background done");
+      await waitFor(() => prompts.length === 2);
+
+      const input = { tool: "edit", sessionID: "child-2", callID: "c1" };
+      await expect(manager["tool.execute.before"](input, { args: { filePath: "src/app.ts" } }))
+        .rejects.toThrow(/not allowed for category quick/);
+
+      finishNext("sync done");
+      expect(JSON.parse(await sync)).toMatchObject({ status: "completed", result: "sync done" });
+      // The slot is released with the call
+      await manager["tool.execute.before"](input, { args: { filePath: "src/app.ts" } });
+    });
+  });
+
+  describe("streaming output", () => {
+    const partEvent = (part: Record<string, unknown>) => ({
+      event: { type: "message.part.updated", properties: { part } },
+    });
+
+    async function startStreamingTask() {
+      const { ctx, prompts } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false });
+      const task = await manager.createTask("parent", "research", "Research", "researcher", MODEL);
+      await waitFor(() => prompts.length === 1);
+
+      await manager.event({
+        event: {
+          type: "message.updated",
+          properties: { info: { id: "msg-a", sessionID: task.sessionID, role: "assistant" } },
+        },
+      });
+      return { manager, task };
+    }
+
+    it("should capture incremental assistant text behind a cursor", async () => {
+      const { manager, task } = await startStreamingTask();
+
+      await manager.event(partEvent({ id: "p1", sessionID: task.sessionID, messageID: "msg-a", type: "text", text: "Hello" }));
+      await manager.event(partEvent({ id: "p1", sessionID: task.sessionID, messageID: "msg-a", type: "text", text: "Hello world" }));
+
+      const first = manager.getTaskOutput(task.id, 0)!;
+      expect(first.chunks.map((c) => c.text).join("")).toBe("Hello world");
+      expect(first.progress?.outputChars).toBe(11);
+
+      await manager.event(partEvent({ id: "p1", sessionID: task.sessionID, messageID: "msg-a", type: "text", text: "Hello world!" }));
+      const next = manager.getTaskOutput(task.id, first.cursor)!;
+      expect(next.chunks).toHaveLength(1);
+      expect(next.chunks[0].text).toBe("!");
+    });
+
+    it("should ignore text from the prompt message", async () => {
+      const { manager, task } = await startStreamingTask();
+
+      await manager.event(partEvent({ id: "u1", sessionID: task.sessionID, messageID: "msg-user", type: "text", text: "Research" }));
+
+      expect(manager.getTaskOutput(task.id, 0)!.chunks).toHaveLength(0);
+    });
+
+    it("should summarize completed tool calls once", async () => {
+      const { manager, task } = await startStreamingTask();
+      const toolPart = {
+        id: "t1",
+        sessionID: task.sessionID,
+        messageID: "msg-a",
+        type: "tool",
+        tool: "grep",
+      };
+
+      await manager.event(partEvent({ ...toolPart, state: { status: "running" } }));
+      expect(manager.getTask(task.id)?.progress?.currentTool).toBe("grep");
+
+      await manager.event(partEvent({ ...toolPart, state: { status: "completed", title: "auth" } }));
+      await manager.event(partEvent({ ...toolPart, state: { status: "completed", title: "auth" } }));
+
+      const output = manager.getTaskOutput(task.id, 0)!;
+      expect(output.chunks).toHaveLength(1);
+      expect(output.chunks[0]).toMatchObject({ type: "tool", text: "grep: auth" });
+      expect(output.progress?.toolCalls).toBe(1);
+      expect(output.progress?.currentTool).toBeUndefined();
+    });
+  });
+
+  describe("usage accounting", () => {
+    const PRICING = { "anthropic/claude-sonnet-4": { input: 3, output: 15, cacheRead: 0.3 } };
+
+    const messageEvent = (sessionID: string, id: string, tokens: Record<string, unknown>, extra = {}) => ({
+      event: {
+        type: "message.updated",
+        properties: {
+          info: { id, sessionID, role: "assistant", providerID: "anthropic", modelID: "claude-sonnet-4", tokens, ...extra },
+        },
+      },
+    });
+
+    it("should price message tokens from the pricing table without double counting updates", async () => {
+      const { ctx, prompts } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false, pricing: PRICING });
+      const task = await manager.createTask("parent", "research", "Research", "researcher", MODEL);
+      await waitFor(() => prompts.length === 1);
+
+      await manager.event(messageEvent(task.sessionID!, "msg-a", { input: 500, output: 100 }));
+      await manager.event(messageEvent(task.sessionID!, "msg-a", { input: 1000, output: 200, cache: { read: 10000 } }));
+      await manager.event(messageEvent(task.sessionID!, "msg-b", { input: 1000, output: 0, reasoning: 100 }));
+
+      expect(task.usage?.inputTokens).toBe(2000);
+      expect(task.usage?.outputTokens).toBe(200);
+      expect(task.usage?.cacheReadTokens).toBe(10000);
+      // (2000 * 3 + 300 * 15 + 10000 * 0.3) / 1M
+      expect(task.usage?.cost).toBeCloseTo(0.0135, 10);
+    });
+
+    it("should fall back to the provider-reported cost for unpriced models", async () => {
+      const { ctx, prompts } = createControlledCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false });
+      const task = await manager.createTask("parent", "research", "Research", "researcher", MODEL);
+      await waitFor(() => prompts.length === 1);
+
+      await manager.event(messageEvent(task.sessionID!, "msg-a", { input: 100, output: 10 }, { cost: 0.02 }));
+
+      expect(task.usage?.cost).toBe(0.02);
+    });
+
+    it("should record usage from the prompt response and roll up per parent session", async () => {
+      const ctx = createMockCtx();
+      (ctx.client.session as unknown as { prompt: unknown }).prompt = async () => ({
+        data: {
+          info: { id: "msg-1", role: "assistant", tokens: { input: 1000000, output: 0 } },
+          parts: [{ type: "text", text: "done" }],
+        },
+      });
+      const manager = createBackgroundManager(ctx, { persistTasks: false, pricing: PRICING });
+
+      const first = await manager.createTask("parent", "one", "one", "explore", MODEL);
+      const second = await manager.createTask("parent", "two", "two", "explore", MODEL);
+      await manager.createTask("other", "three", "three", "explore", MODEL);
+      await manager.waitForTask(first.id, 2000);
+      await manager.waitForTask(second.id, 2000);
+
+      const summary = manager.getSessionUsage("parent");
+      expect(summary.taskCount).toBe(2);
+      expect(summary.total.inputTokens).toBe(2000000);
+      expect(summary.total.cost).toBe(6);
+      expect(summary.byModel["anthropic/claude-sonnet-4"].cost).toBe(6);
+    });
+  });
+
+  describe("parent notifications", () => {
+    function createNotifyingCtx() {
+      const notices: Array<{ sessionID: string; noReply?: boolean; text: string }> = [];
+      const ctx = {
+        directory: TEST_DIR,
+        client: {
+          session: {
+            create: async () => ({ data: { id: "child-session" } }),
+            prompt: async (req: { path: { id: string }; body: { noReply?: boolean; parts: Array<{ text: string }> } }) => {
+              if (req.path.id === "parent") {
+                notices.push({ sessionID: req.path.id, noReply: req.body.noReply, text: req.body.parts[0].text });
+                return {};
+              }
+              if (req.body.parts[0].text.includes("break")) {
+                return { data: { info: { role: "assistant", error: { name: "UnknownError" } }, parts: [] } };
+              }
+              return { data: { info: { role: "assistant" }, parts: [{ type: "text", text: "Found 3 routes" }] } };
+            },
+            abort: async () => ({}),
+          },
+          tui: { showToast: async () => ({}) },
+        },
+      } as unknown as PluginInput;
+      return { ctx, notices };
+    }
+
+    it("should post one silent notice for tasks finishing together", async () => {
+      const { ctx, notices } = createNotifyingCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false, notifyBatchMs: 50 });
+
+      const ok = await manager.createTask("parent", "find routes", "Find routes", "explore", MODEL);
+      const broken = await manager.createTask("parent", "broken", "break", "explore", MODEL);
+      await manager.waitForTask(ok.id, 2000);
+      await manager.waitForTask(broken.id, 2000);
+      await waitFor(() => notices.length === 1);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(notices).toHaveLength(1);
+      expect(notices[0].noReply).toBe(true);
+      expect(notices[0].text).toContain("2 background tasks finished");
+      expect(notices[0].text).toContain(`[completed] ${ok.id} "find routes"`);
+      expect(notices[0].text).toContain("Found 3 routes");
+      expect(notices[0].text).toContain(`[failed] ${broken.id}`);
+    });
+
+    it("should wake the parent once its last task finishes in wake mode", async () => {
+      const { ctx, notices } = createNotifyingCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false, notifyParent: "wake", notifyBatchMs: 0 });
+
+      const task = await manager.createTask("parent", "find routes", "Find routes", "explore", MODEL);
+      await manager.waitForTask(task.id, 2000);
+      await waitFor(() => notices.length === 1);
+
+      expect(notices[0].noReply).toBe(false);
+    });
+
+    it("should not notify for tasks the parent cancelled or when disabled", async () => {
+      const { ctx, notices } = createNotifyingCtx();
+      const manager = createBackgroundManager(ctx, { persistTasks: false, notifyBatchMs: 0 });
+      const quiet = createBackgroundManager(ctx, { persistTasks: false, notifyParent: "off" });
+
+      const task = await manager.createTask("parent", "find routes", "Find routes", "explore", MODEL);
+      manager.cancelTask(task.id);
+      const other = await quiet.createTask("parent", "find routes", "Find routes", "explore", MODEL);
+      await quiet.waitForTask(other.id, 2000);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(notices).toHaveLength(0);
+    });
+  });
+
+  describe("retry policy", () => {
+    type ScriptedResponse = { text?: string; error?: Record<string, unknown> };
+
+    function createScriptedCtx(responses: ScriptedResponse[]) {
+      const models: string[] = [];
+      const ctx = {
+        directory: TEST_DIR,
+        client: {
+          session: {
+            create: async () => ({ data: { id: "child-session" } }),
+            prompt: async (req: { body: { model: { providerID: string; modelID: string } } }) => {
+              models.push(`${req.body.model.providerID}/${req.body.model.modelID}`);
+              const next = responses.shift() ?? { text: "done" };
+              return {
+                data: {
+                  info: { role: "assistant", error: next.error },
+                  parts: next.text ? [{ type: "text", text: next.text }] : [],
+                },
+              };
+            },
+            abort: async () => ({}),
+          },
+          tui: { showToast: async () => ({}) },
+        },
+      } as unknown as PluginInput;
+      return { ctx, models };
+    }
+
+    const RATE_LIMITED = { name: "APIError", data: { message: "Rate limit exceeded", statusCode: 429, isRetryable: true } };
+
+    it("should retry a transient error on the same model and report the attempts", async () => {
+      const { ctx, models } = createScriptedCtx([{ error: RATE_LIMITED }, { text: "recovered" }]);
+      const manager = createBackgroundManager(ctx, {
+        persistTasks: false,
+        retry: { maxAttempts: 3, backoffMs: 0, fallbackModels: ["openai/gpt-4o"] },
+      });
+      const tools = createBackgroundTools(manager, ctx.client);
+      const toolContext = { sessionID: "parent" } as never;
+
+      const task = await manager.createTask("parent", "research", "Research", "researcher", MODEL);
+      await manager.waitForTask(task.id, 2000);
+      const response = JSON.parse(await tools.background_output.execute({ task_id: task.id }, toolContext));
+
+      expect(response.status).toBe("completed");
+      expect(response.result).toBe("recovered");
+      expect(models).toEqual(["anthropic/claude-sonnet-4", "anthropic/claude-sonnet-4"]);
+      expect(response.model).toEqual({ providerID: "anthropic", modelID: "claude-sonnet-4" });
+      expect(response.attempts).toHaveLength(2);
+      expect(response.attempts[0]).toMatchObject({ attempt: 1, outcome: "transient" });
+      expect(response.attempts[0].error).toContain("Rate limit");
+      expect(response.attempts[1]).toMatchObject({ attempt: 2, outcome: "success" });
+    });
+
+    it("should fall back to the next model once retries on the current model are used up", async () => {
+      const { ctx, models } = createScriptedCtx([{ error: RATE_LIMITED }, { error: RATE_LIMITED }, { text: "recovered" }]);
+      const manager = createBackgroundManager(ctx, {
+        persistTasks: false,
+        retry: { maxAttempts: 2, backoffMs: 0, fallbackModels: ["openai/gpt-4o"] },
+      });
+
+      const task = await manager.createTask("parent", "research", "Research", "researcher", MODEL);
+      const finished = await manager.waitForTask(task.id, 2000);
+
+      expect(finished.status).toBe("completed");
+      expect(finished.result).toBe("recovered");
+      expect(models).toEqual(["anthropic/claude-sonnet-4", "anthropic/claude-sonnet-4", "openai/gpt-4o"]);
+      expect(finished.attempts?.map((a) => a.outcome)).toEqual(["transient", "transient", "success"]);
+      expect(finished.model).toEqual({ providerID: "openai", modelID: "gpt-4o" });
+    });
+
+    it("should fail without retrying when no retry policy is configured", async () => {
+      const { ctx, models } = createScriptedCtx([{ error: RATE_LIMITED }]);
+      const manager = createBackgroundManager(ctx, { persistTasks: false });
+
+      const task = await manager.createTask("parent", "research", "Research", "researcher", MODEL);
+      const finished = await manager.waitForTask(task.id, 2000);
+
+      expect(finished.status).toBe("failed");
+      expect(finished.error).toContain("Rate limit");
+      expect(models).toHaveLength(1);
+    });
+
+    it("should fall back on model errors without consuming attempts", async () => {
+      const { ctx, models } = createScriptedCtx([
+        { error: { name: "ProviderModelNotFoundError", data: { message: "no such model" } } },
+        { text: "ok" },
+      ]);
+      const manager = createBackgroundManager(ctx, {
+        persistTasks: false,
+        retry: { fallbackModels: ["openai/gpt-4o"] },
+      });
+
+      const task = await manager.createTask("parent", "research", "Research", "researcher", MODEL);
+      const finished = await manager.waitForTask(task.id, 2000);
+
+      expect(finished.status).toBe("completed");
+      expect(models).toEqual(["anthropic/claude-sonnet-4", "openai/gpt-4o"]);
+    });
+
+    it("should not retry fatal errors", async () => {
+      const { ctx, models } = createScriptedCtx([
+        { error: { name: "MessageAbortedError", data: { message: "aborted" } } },
+      ]);
+      const manager = createBackgroundManager(ctx, {
+        persistTasks: false,
+        retry: { maxAttempts: 3, backoffMs: 0, fallbackModels: ["openai/gpt-4o"] },
+      });
+
+      const task = await manager.createTask("parent", "research", "Research", "researcher", MODEL);
+      const finished = await manager.waitForTask(task.id, 2000);
+
+      expect(finished.status).toBe("failed");
+      expect(models).toHaveLength(1);
+    });
+
+    it("should retry empty responses while attempts remain", async () => {
+      const { ctx } = createScriptedCtx([{}, { text: "second try" }]);
+      const manager = createBackgroundManager(ctx, {
+        persistTasks: false,
+        retry: { maxAttempts: 2, backoffMs: 0 },
+      });
+
+      const task = await manager.createTask("parent", "research", "Research", "researcher", MODEL);
+      const finished = await manager.waitForTask(task.id, 2000);
+
+      expect(finished.result).toBe("second try");
+      expect(finished.attempts?.[0].error).toBe("Empty response");
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Budget Guard Tests
+ *
+ * Tests for session token/cost budgets and the background task cap.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { createBudgetGuard, formatBudgetError } from "../src/tools/budget-guard";
+
+const sessionCreated = (id: string, parentID: string) => ({
+  event: { type: "session.created", properties: { info: { id, parentID } } },
+});
+
+const assistantMessage = (sessionID: string, id: string, tokens: Record<string, unknown>, cost?: number) => ({
+  event: {
+    type: "message.updated",
+    properties: {
+      info: { id, sessionID, role: "assistant", providerID: "anthropic", modelID: "claude-sonnet-4", tokens, cost },
+    },
+  },
+});
+
+describe("BudgetGuard", () => {
+  it("should never block without a budget config", async () => {
+    const guard = createBudgetGuard();
+    await guard.event(assistantMessage("root", "m1", { input: 10_000_000, output: 0 }));
+
+    expect(guard.check("root")).toBeUndefined();
+    expect(guard.checkNewWork("root", true)).toBeUndefined();
+  });
+
+  it("should stop at the token budget, excluding cache tokens", async () => {
+    const guard = createBudgetGuard({ maxTokensPerSession: 1000 });
+
+    await guard.event(assistantMessage("root", "m1", { input: 400, output: 100, cache: { read: 50_000 } }));
+    expect(guard.check("root")).toBeUndefined();
+
+    // Later updates of the same message replace, not add to, its counts
+    await guard.event(assistantMessage("root", "m1", { input: 800, output: 200 }));
+    const violation = guard.check("root");
+    expect(violation?.limit).toBe("maxTokensPerSession");
+    expect(violation?.used).toBe(1000);
+  });
+
+  it("should attribute child session spend to the root session", async () => {
+    const guard = createBudgetGuard(
+      { maxCostPerSession: 1 },
+      { "anthropic/claude-sonnet-4": { input: 3, output: 15 } }
+    );
+
+    await guard.event(sessionCreated("child", "root"));
+    await guard.event(sessionCreated("grandchild", "child"));
+    await guard.event(assistantMessage("root", "m1", { input: 100_000, output: 0 }));
+    await guard.event(assistantMessage("grandchild", "m2", { input: 200_000, output: 10_000 }));
+
+    expect(guard.getSessionUsage("child").cost).toBeCloseTo(1.05, 10);
+    expect(guard.check("root")?.limit).toBe("maxCostPerSession");
+    expect(guard.checkNewWork("grandchild", false)?.limit).toBe("maxCostPerSession");
+  });
+
+  it("should use the provider-reported cost for unpriced models", async () => {
+    const guard = createBudgetGuard({ maxCostPerSession: 0.5 });
+    await guard.event(assistantMessage("root", "m1", { input: 10, output: 10 }, 0.75));
+
+    expect(guard.check("root")?.used).toBe(0.75);
+  });
+
+  it("should cap background tasks launched from a session tree", async () => {
+    const guard = createBudgetGuard({ maxBackgroundTasks: 3 });
+    await guard.event(sessionCreated("child", "root"));
+
+    expect(guard.checkNewWork("root", true)).toBeUndefined();
+    expect(guard.checkNewWork("root", true)).toBeUndefined();
+    expect(guard.checkNewWork("child", true)).toBeUndefined();
+    // Sync calls and plain checks are not launches
+    expect(guard.check("root")).toBeUndefined();
+    expect(guard.checkNewWork("root", false)).toBeUndefined();
+    expect(guard.checkNewWork("child", true)).toMatchObject({ limit: "maxBackgroundTasks", used: 3 });
+  });
+
+  it("should format a structured budget error", () => {
+    const response = JSON.parse(formatBudgetError({
+      limit: "maxBackgroundTasks",
+      used: 3,
+      max: 3,
+      message: "Session background task budget exhausted: 3 of 3 tasks launched",
+    }));
+
+    expect(response.status).toBe("budget_exceeded");
+    expect(response.budget).toEqual({ limit: "maxBackgroundTasks", used: 3, max: 3 });
+  });
+});
@@ -5,8 +5,13 @@ import {
   DEFAULT_CATEGORIES,
   CATEGORY_PROMPT_APPENDS,
   CATEGORY_DESCRIPTIONS,
+  classifyCategory,
+  getCategoryChain,
+  buildToolPermissions,
+  isToolAllowed,
 } from "../src/categories";
 import type { CategoriesConfig } from "../src/categories/types";
+import { CategoriesConfigSchema } from "../src/config";
 
 describe("Categories", () => {
   describe("DEFAULT_CATEGORIES", () => {
@@ -159,6 +164,51 @@ describe("Categories", () => {
     });
   });
 
+  describe("category inheritance", () => {
+    const userCategories: CategoriesConfig = {
+      quick: { prompt_append: "Keep diffs under 20 lines." },
+      "quick-docs": { extends: "quick", model: "openai/gpt-4o-mini", prompt_append: "Only touch Markdown." },
+      "quick-docs-strict": { extends: "quick-docs", temperature: 0, prompt_append: "No new files." },
+    };
+
+    it("should inherit fields and let descendants override them", () => {
+      const result = resolveCategoryConfig("quick-docs-strict", userCategories);
+
+      expect(result?.model).toBe("openai/gpt-4o-mini");
+      expect(result?.config.description).toBe(DEFAULT_CATEGORIES.quick.description);
+      expect(result?.config.temperature).toBe(0);
+    });
+
+    it("should concatenate prompt appends from the root ancestor down", () => {
+      const promptAppend = resolveCategoryConfig("quick-docs-strict", userCategories)?.promptAppend ?? "";
+      const order = [
+        CATEGORY_PROMPT_APPENDS.quick,
+        "Keep diffs under 20 lines.",
+        "Only touch Markdown.",
+        "No new files.",
+      ].map((part) => promptAppend.indexOf(part));
+
+      expect(order.every((index) => index >= 0)).toBe(true);
+      expect([...order].sort((a, b) => a - b)).toEqual(order);
+    });
+
+    it("should report unknown parents and cycles", () => {
+      expect(getCategoryChain("quick-docs-strict", userCategories)).toEqual(["quick", "quick-docs", "quick-docs-strict"]);
+      expect(getCategoryChain("nope", userCategories)).toBeNull();
+      expect(getCategoryChain("a", { a: { extends: "missing" } }))
+        .toEqual({ error: 'Category "a" extends unknown category "missing"' });
+
+      const cyclic: CategoriesConfig = { a: { extends: "b" }, b: { extends: "a" } };
+      expect(getCategoryChain("a", cyclic)).toEqual({ error: "Category inheritance cycle: a -> b -> a" });
+      expect(() => resolveCategoryConfig("a", cyclic)).toThrow(/inheritance cycle/);
+
+      const parsed = CategoriesConfigSchema.safeParse(cyclic);
+      expect(parsed.success).toBe(false);
+      expect(parsed.error?.issues[0].path).toEqual(["a", "extends"]);
+      expect(parsed.error?.issues[0].message).toBe("Category inheritance cycle: a -> b -> a");
+    });
+  });
+
   describe("getAvailableCategories()", () => {
     it("should return all default categories", () => {
       const categories = getAvailableCategories();
@@ -193,4 +243,73 @@ describe("Categories", () => {
       expect(quickCount).toBe(1); // Should not duplicate
     });
   });
+
+  describe("classifyCategory()", () => {
+    it("should pick quick for trivial edits", () => {
+      const result = classifyCategory("Fix the typo in src/index.ts: 'recieve' should be 'receive'");
+      expect(result.category).toBe("quick");
+      expect(result.rationale).toContain("typo");
+    });
+
+    it("should pick a specialised category from keywords", () => {
+      expect(classifyCategory("Restyle the settings page layout with Tailwind and add a hover animation").category)
+        .toBe("visual-engineering");
+      expect(classifyCategory("Update the README and write release notes for 0.8").category).toBe("writing");
+      expect(classifyCategory("Find the root cause of the deadlock in the job scheduler and propose an architecture fix").category)
+        .toBe("ultrabrain");
+    });
+
+    it("should fall back on prompt size without a keyword match", () => {
+      const steps = Array.from({ length: 6 }, (_, i) => `${i + 1}. Handle case ${i + 1} of the importer`).join("\n");
+      expect(classifyCategory(`Implement the importer:\n${steps}`).category).toBe("unspecified-high");
+      expect(classifyCategory("Add a --json flag to the export command. ".repeat(10)).category).toBe("unspecified-low");
+    });
+
+    it("should consider user category descriptions", () => {
+      const userCategories: CategoriesConfig = {
+        database: { model: "anthropic/claude-sonnet-4-5", description: "SQL queries, schema migrations, indexes" },
+      };
+
+      const result = classifyCategory("Add an index for the orders query and write the migration", userCategories);
+      expect(result.category).toBe("database");
+      expect(result.scores.database).toBeGreaterThan(0);
+    });
+  });
+
+  describe("tool policy", () => {
+    it("should keep tools, temperature and limits from user overrides", () => {
+      const userCategories: CategoriesConfig = {
+        quick: {
+          model: "anthropic/claude-haiku-4-5",
+          temperature: 0.1,
+          timeout_ms: 60000,
+          max_concurrency: 2,
+          tools: { deny: ["webfetch"] },
+        },
+      };
+
+      const config = resolveCategoryConfig("quick", userCategories)?.config;
+      expect(config?.temperature).toBe(0.1);
+      expect(config?.timeout_ms).toBe(60000);
+      expect(config?.max_concurrency).toBe(2);
+      expect(config?.tools).toEqual({ deny: ["webfetch"] });
+    });
+
+    it("should turn allow lists into a closed permission map", () => {
+      expect(buildToolPermissions()).toBeUndefined();
+      expect(buildToolPermissions({ allow: ["read", "grep"], deny: ["bash"] }))
+        .toEqual({ "*": false, read: true, grep: true, bash: false });
+      expect(buildToolPermissions({ deny: ["bash"] })).toEqual({ bash: false });
+    });
+
+    it("should let the most specific pattern decide", () => {
+      const permissions = buildToolPermissions({ allow: ["read", "omco_*"], deny: ["omco_ralph_*"] });
+
+      expect(isToolAllowed("read", permissions)).toBe(true);
+      expect(isToolAllowed("edit", permissions)).toBe(false);
+      expect(isToolAllowed("omco_agent_turns", permissions)).toBe(true);
+      expect(isToolAllowed("omco_ralph_start", permissions)).toBe(false);
+      expect(isToolAllowed("edit")).toBe(true);
+    });
+  });
 });
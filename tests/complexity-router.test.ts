@@ -0,0 +1,192 @@
+/**
+ * Complexity Router Tests
+ *
+ * Tests for complexity-based tier routing and escalation of failed or insufficient tasks.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import type { PluginInput } from "@opencode-ai/plugin";
+import { createComplexityRouter, nextEscalation, routePrompt } from "../src/tools/complexity-router";
+import { createBackgroundManager } from "../src/tools/background-manager";
+import { createCallOmcoAgent } from "../src/tools/call-omco-agent";
+import { createModelResolutionService } from "../src/tools/model-resolution-service";
+import { resolveOutputSchema, type ResolvedOutputSchema } from "../src/tools/output-schemas";
+
+const TEST_DIR = "/tmp/omco-complexity-router-test";
+
+const ROUTING = {
+  enabled: true,
+  tierModels: {
+    LOW: "anthropic/claude-haiku-4-5",
+    MEDIUM: "anthropic/claude-sonnet-4-5",
+    HIGH: "anthropic/claude-opus-4-5",
+  },
+  escalationKeywords: ["architecture", "race condition"],
+  simplificationKeywords: ["typo", "rename"],
+};
+
+const HAIKU = { providerID: "anthropic", modelID: "claude-haiku-4-5" };
+
+const toolContext = { sessionID: "parent" } as never;
+
+/**
+ * Session mock whose replies depend on the model the prompt ran on
+ */
+function createSessionCtx(reply: (modelID: string, text: string) => unknown) {
+  const prompts: Array<{ text: string; modelID: string }> = [];
+  const ctx = {
+    directory: TEST_DIR,
+    client: {
+      session: {
+        create: async () => ({ data: { id: "child-session" } }),
+        prompt: async (req: { body: { parts: Array<{ text: string }>; model: { modelID: string } } }) => {
+          prompts.push({ text: req.body.parts[0].text, modelID: req.body.model.modelID });
+          return { data: reply(req.body.model.modelID, req.body.parts[0].text) };
+        },
+        messages: async () => ({ data: [] }),
+        abort: async () => ({}),
+      },
+      tui: { showToast: async () => ({}) },
+    },
+  } as unknown as PluginInput;
+  return { ctx, prompts };
+}
+
+function textReply(text: string) {
+  return { info: { role: "assistant" }, parts: [{ type: "text", text }] };
+}
+
+function resolve(spec: string): ResolvedOutputSchema {
+  const resolved = resolveOutputSchema(spec);
+  if ("error" in resolved) throw new Error(resolved.error);
+  return resolved;
+}
+
+describe("Complexity router", () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("should score prompts into tiers and pin agents from agentOverrides", () => {
+    expect(routePrompt("Fix the typo in the header", "executor", ROUTING).tier).toBe("LOW");
+
+    const steps = Array.from({ length: 5 }, (_, i) => `${i + 1}. Update module ${i}`).join("\n");
+    const complex = routePrompt(`Review the architecture for a race condition:\n${steps}`, "executor", ROUTING);
+    expect(complex.tier).toBe("HIGH");
+    expect(complex.reasons).toContain('+2 "architecture"');
+    expect(complex.reasons).toContain("+2 5 steps");
+
+    const neutral = "Add a loading spinner to the settings page while the profile request is in flight, and hide it on error.";
+    expect(routePrompt(neutral, "executor", ROUTING).tier).toBe("MEDIUM");
+    expect(routePrompt(neutral, "executor", { ...ROUTING, defaultTier: "LOW" }).tier).toBe("LOW");
+
+    const pinned = routePrompt("Fix the typo", "architect", {
+      ...ROUTING,
+      agentOverrides: { architect: { tier: "HIGH", reason: "always deep" } },
+    });
+    expect(pinned).toEqual({ tier: "HIGH", score: 0, reasons: ["always deep"], pinned: true });
+  });
+
+  it("should only route when enabled and the agent has no explicit model", () => {
+    expect(createComplexityRouter({ ...ROUTING, enabled: false }).route("Fix the typo", "executor")).toBeUndefined();
+
+    const router = createComplexityRouter(ROUTING, undefined, { executor: { model: "openai/gpt-5" } });
+    expect(router.route("Fix the typo", "executor")).toBeUndefined();
+    expect(router.route("Fix the typo", "explore")?.tier).toBe("LOW");
+    expect(router.route("Fix the typo", "architect-medium")).toBeUndefined();
+    expect(router.resolveTierModel("LOW")).toEqual(HAIKU);
+  });
+
+  it("should build an escalation ladder of the higher tiers", () => {
+    const router = createComplexityRouter({ ...ROUTING, maxEscalations: 1 });
+    const policy = router.getEscalationPolicy("LOW");
+
+    expect(policy?.ladder.map((rung) => rung.tier)).toEqual(["MEDIUM", "HIGH"]);
+    expect(nextEscalation(policy!, [])?.tier).toBe("MEDIUM");
+    expect(nextEscalation(policy!, [{ from: "LOW", to: "MEDIUM", reason: "boom", at: 0 }])).toBeUndefined();
+
+    expect(router.getEscalationPolicy("HIGH")).toBeUndefined();
+    expect(createComplexityRouter({ ...ROUTING, escalationEnabled: false }).getEscalationPolicy("LOW")).toBeUndefined();
+  });
+
+  it("should escalate a background task whose output does not match its schema", async () => {
+    const { ctx, prompts } = createSessionCtx((modelID) => modelID === "claude-opus-4-5"
+      ? textReply('```json\n{"approved": true, "feedback": "All criteria met"}\n```')
+      : textReply("Looks fine"));
+    const manager = createBackgroundManager(ctx, { persistTasks: false });
+    const router = createComplexityRouter({ ...ROUTING, tierModels: { LOW: ROUTING.tierModels.LOW, HIGH: ROUTING.tierModels.HIGH } });
+
+    const task = await manager.createTask("parent", "verify", "Verify the change", "architect", HAIKU, {
+      outputSchema: resolve("verification"),
+      routingTier: "LOW",
+      escalation: router.getEscalationPolicy("LOW"),
+    });
+    const done = await manager.waitForTask(task.id, 2000);
+
+    expect(done.status).toBe("completed");
+    expect(done.routingTier).toBe("HIGH");
+    expect(done.output).toEqual({ approved: true, feedback: "All criteria met" });
+    expect(done.escalations).toHaveLength(1);
+    expect(done.escalations?.[0]).toMatchObject({ from: "LOW", to: "HIGH" });
+    expect(done.escalations?.[0].reason).toContain('schema "verification"');
+    expect(prompts.at(-1)?.text).toContain("flagged as insufficient");
+  });
+
+  it("should route and escalate a synchronous delegation", async () => {
+    const { ctx, prompts } = createSessionCtx((modelID) => modelID === "claude-haiku-4-5"
+      ? { info: { role: "assistant", error: { name: "APIError", data: { message: "overloaded" } } }, parts: [] }
+      : textReply("Renamed"));
+    const manager = createBackgroundManager(ctx, { persistTasks: false });
+    const callOmcoAgent = createCallOmcoAgent(ctx, manager, undefined, undefined, undefined, undefined, createComplexityRouter(ROUTING));
+
+    const result = JSON.parse(await callOmcoAgent.execute({
+      description: "rename",
+      prompt: "Rename foo to bar",
+      subagent_type: "executor",
+      run_in_background: false,
+    }, toolContext));
+
+    expect(result.status).toBe("completed");
+    expect(result.result).toBe("Renamed");
+    expect(result.routing_tier).toBe("MEDIUM");
+    expect(result.escalations).toMatchObject([{ from: "LOW", to: "MEDIUM", reason: "[APIError] overloaded" }]);
+    expect(prompts.map((p) => p.modelID)).toEqual(["claude-haiku-4-5", "claude-sonnet-4-5"]);
+    expect(result.model).toMatchObject({ modelID: "claude-sonnet-4-5" });
+    expect(result.attempts.map((a: { outcome: string }) => a.outcome)).toEqual(["transient", "success"]);
+    // A failed prompt is sent again as-is
+    expect(prompts[1].text).toBe(prompts[0].text);
+  });
+
+  it("should run a routed background delegation on its tier model", async () => {
+    const { ctx, prompts } = createSessionCtx(() => textReply("Renamed"));
+    const modelService = createModelResolutionService({
+      tierDefaults: {
+        haiku: "anthropic/claude-haiku-4-5",
+        sonnet: "anthropic/claude-sonnet-4-5",
+        opus: "anthropic/claude-opus-4-5",
+      },
+    });
+    const manager = createBackgroundManager(ctx, { persistTasks: false }, modelService);
+    const router = createComplexityRouter({ ...ROUTING, tierModels: undefined }, modelService);
+    const callOmcoAgent = createCallOmcoAgent(ctx, manager, modelService, undefined, undefined, undefined, router);
+
+    const launched = JSON.parse(await callOmcoAgent.execute({
+      description: "rename",
+      prompt: "Rename foo to bar",
+      subagent_type: "executor",
+      run_in_background: true,
+    }, toolContext));
+    const done = await manager.waitForTask(launched.task_id, 2000);
+
+    expect(launched.routing_tier).toBe("LOW");
+    expect(done.status).toBe("completed");
+    expect(done.model).toEqual(HAIKU);
+    expect(prompts.map((p) => p.modelID)).toEqual(["claude-haiku-4-5"]);
+  });
+});
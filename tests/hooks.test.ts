@@ -194,6 +194,27 @@ describe("Ralph Loop", () => {
     const stateAfterCancel = hook.getState("test-session");
     expect(stateAfterCancel).toBeNull();
   });
+
+  it("should stop the loop when the session budget is exhausted", async () => {
+    const { createRalphLoopHook } = await import("../src/hooks/ralph-loop");
+
+    const hook = createRalphLoopHook(mockCtx as never, {
+      checkBudget: () => ({
+        limit: "maxCostPerSession",
+        used: 5.5,
+        max: 5,
+        message: "Session cost budget exhausted: $5.5 of $5 spent",
+      }),
+    });
+
+    hook.startLoop("budget-session", "test task");
+    mockClient.session.prompt.mockClear();
+
+    await hook.event({ event: { type: "session.idle", properties: { sessionID: "budget-session" } } });
+
+    expect(hook.getState("budget-session")).toBeNull();
+    expect(mockClient.session.prompt).not.toHaveBeenCalled();
+  });
 });
 
 describe("Prompts", () => {
@@ -0,0 +1,148 @@
+/**
+ * Model Health Tests
+ *
+ * Tests for the model health table and health-based fallback in tier resolution.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import type { PluginInput } from "@opencode-ai/plugin";
+import { createModelHealthTracker, createModelHealthTool, isRateLimitError } from "../src/tools/model-health";
+import { createModelResolutionService } from "../src/tools/model-resolution-service";
+import { createBackgroundManager } from "../src/tools/background-manager";
+import { readModelHealth } from "../src/state/model-health-state";
+
+const TEST_DIR = "/tmp/omco-model-health-test";
+
+const MODEL_MAPPING = {
+  tierDefaults: {
+    haiku: "anthropic/claude-haiku-4-5",
+    sonnet: "anthropic/claude-sonnet-4-5",
+    opus: "anthropic/claude-opus-4-5",
+  },
+  alternates: {
+    opus: ["openai/gpt-5", "google/gemini-3-pro"],
+  },
+  health: { failureThreshold: 2, rateLimitThreshold: 1 },
+};
+
+const toolContext = { sessionID: "parent" } as never;
+
+describe("Model health", () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("should mark a model unhealthy after repeated failures and recover on success", () => {
+    const tracker = createModelHealthTracker({ failureThreshold: 2 });
+
+    tracker.record("anthropic/claude-opus-4-5", { ok: false, error: "[APIError] overloaded" });
+    expect(tracker.get("anthropic/claude-opus-4-5")?.status).toBe("degraded");
+    expect(tracker.isHealthy("anthropic/claude-opus-4-5")).toBe(true);
+
+    tracker.record("anthropic/claude-opus-4-5", { ok: false, error: "[APIError] overloaded" });
+    expect(tracker.get("anthropic/claude-opus-4-5")?.status).toBe("unhealthy");
+    expect(tracker.get("anthropic/claude-opus-4-5")?.reason).toBe("2 failures in the last 5 min");
+
+    tracker.record("anthropic/claude-opus-4-5", { ok: true, latencyMs: 1200 });
+    const recovered = tracker.get("anthropic/claude-opus-4-5");
+    expect(recovered?.status).toBe("healthy");
+    expect(recovered?.failureCount).toBe(2);
+    expect(recovered?.latencies).toEqual([1200]);
+    expect(tracker.isHealthy("openai/gpt-5")).toBe(true);
+  });
+
+  it("should forget failures outside the window and flag slow or rate limited models", async () => {
+    const tracker = createModelHealthTracker({ failureThreshold: 1, rateLimitThreshold: 2, windowMs: 50, slowLatencyMs: 500 });
+
+    tracker.record("a/slow", { ok: true, latencyMs: 900 });
+    tracker.record("a/limited", { ok: false, error: "429", rateLimited: true });
+    tracker.record("a/failing", { ok: false, error: "boom" });
+
+    expect(tracker.get("a/slow")?.reason).toBe("average latency 900ms");
+    expect(tracker.get("a/limited")?.status).toBe("degraded");
+    expect(tracker.isHealthy("a/failing")).toBe(false);
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(tracker.isHealthy("a/failing")).toBe(true);
+  });
+
+  it("should detect rate-limit errors", () => {
+    expect(isRateLimitError({ name: "APIError", data: { statusCode: 429 } })).toBe(true);
+    expect(isRateLimitError({ name: "APIError", data: { message: "Rate limit exceeded" } })).toBe(true);
+    expect(isRateLimitError({ name: "APIError", data: { statusCode: 500, message: "Internal error" } })).toBe(false);
+  });
+
+  it("should resolve a tier to its first healthy alternate and persist the table", () => {
+    const service = createModelResolutionService(MODEL_MAPPING, {}, TEST_DIR);
+    const opus = { providerID: "anthropic", modelID: "claude-opus-4-5" };
+
+    expect(service.resolveModelForAgent("architect")).toEqual(opus);
+
+    service.recordModelOutcome(opus, { ok: false, error: "[APIError] overloaded" });
+    service.recordModelOutcome(opus, { ok: false, error: "[APIError] overloaded" });
+    service.recordModelOutcome({ providerID: "openai", modelID: "gpt-5" }, { ok: false, error: "429", rateLimited: true });
+
+    expect(service.resolveModelForAgent("architect")).toEqual({ providerID: "google", modelID: "gemini-3-pro" });
+    expect(service.resolveModelForCategory("opus")).toEqual({ providerID: "google", modelID: "gemini-3-pro" });
+    // Tiers without alternates keep their model
+    expect(service.resolveModelForCategory("haiku")).toEqual({ providerID: "anthropic", modelID: "claude-haiku-4-5" });
+
+    const persisted = readModelHealth(TEST_DIR);
+    expect(persisted["anthropic/claude-opus-4-5"].status).toBe("unhealthy");
+    expect(persisted["openai/gpt-5"].rateLimits).toHaveLength(1);
+
+    // A new service picks up the persisted table
+    const restarted = createModelResolutionService(MODEL_MAPPING, {}, TEST_DIR);
+    expect(restarted.getModelHealth().isHealthy("anthropic/claude-opus-4-5")).toBe(false);
+  });
+
+  it("should keep per-agent model overrides even when unhealthy", () => {
+    const service = createModelResolutionService(MODEL_MAPPING, { architect: { model: "anthropic/claude-opus-4-5" } });
+    const opus = { providerID: "anthropic", modelID: "claude-opus-4-5" };
+
+    service.recordModelOutcome(opus, { ok: false, error: "boom" });
+    service.recordModelOutcome(opus, { ok: false, error: "boom" });
+
+    expect(service.resolveModelForAgent("architect")).toEqual(opus);
+  });
+
+  it("should record background task outcomes and report them through omco_model_health", async () => {
+    const service = createModelResolutionService(MODEL_MAPPING, {});
+    const ctx = {
+      directory: TEST_DIR,
+      client: {
+        session: {
+          create: async () => ({ data: { id: "child-session" } }),
+          prompt: async (req: { body: { model: { modelID: string } } }) => ({
+            data: req.body.model.modelID === "claude-opus-4-5"
+              ? { info: { role: "assistant", error: { name: "APIError", data: { statusCode: 429, message: "Too many requests" } } }, parts: [] }
+              : { info: { role: "assistant" }, parts: [{ type: "text", text: "done" }] },
+          }),
+          abort: async () => ({}),
+        },
+        tui: { showToast: async () => ({}) },
+      },
+    } as unknown as PluginInput;
+
+    const manager = createBackgroundManager(ctx, {
+      persistTasks: false,
+      retry: { maxAttempts: 2, backoffMs: 0, fallbackModels: ["openai/gpt-5"] },
+    }, service);
+    const task = await manager.createTask("parent", "plan", "Plan it", "architect", { providerID: "anthropic", modelID: "claude-opus-4-5" });
+    await manager.waitForTask(task.id, 2000);
+
+    const healthTool = createModelHealthTool(service.getModelHealth(), MODEL_MAPPING.alternates);
+    const report = JSON.parse(await healthTool.execute({}, toolContext));
+    const byModel = Object.fromEntries(report.models.map((m: { model: string }) => [m.model, m]));
+
+    expect(byModel["anthropic/claude-opus-4-5"]).toMatchObject({ status: "unhealthy", recent_rate_limits: 2 });
+    expect(byModel["openai/gpt-5"]).toMatchObject({ status: "healthy", success_count: 1 });
+    expect(report.alternates).toEqual(MODEL_MAPPING.alternates);
+  });
+});
@@ -5,7 +5,8 @@
  * Covers agent registry, config handler, and call-omco-agent tool.
  */
 
-import { describe, it, expect, mock, beforeEach } from "bun:test";
+import { describe, it, expect, mock, beforeEach, afterAll } from "bun:test";
+import * as fs from "fs";
 import type { PluginInput } from "@opencode-ai/plugin";
 import { createConfigHandler } from "../src/plugin-handlers/config-handler";
 import { createCallOmcoAgent } from "../src/tools/call-omco-agent";
@@ -18,6 +19,13 @@ import {
   getCanonicalName,
 } from "../src/agents";
 
+// Agent calls record their sessions under <directory>/.omc
+const TEST_DIR = "/tmp/omco-orchestrator-test";
+
+afterAll(() => {
+  fs.rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
 // Mock config for testing
 const mockPluginConfig: OmoOmcsConfig = {
   omco_agent: {
@@ -183,7 +191,7 @@ describe("Orchestrator Integration", () => {
 
       // Mock PluginInput
       mockContext = {
-        directory: "/test/dir",
+        directory: TEST_DIR,
         client: {
           session: {
             create: mock(() =>
@@ -350,6 +358,31 @@ describe("Orchestrator Integration", () => {
       expect(executorPrompt).toBeDefined();
       expect(executorPrompt).toContain("OMCO-Junior");
     });
+
+    it("should register agents for categories with a temperature or tool lists", async () => {
+      const handler = createConfigHandler({
+        ctx: mockContext,
+        pluginConfig: {
+          ...mockPluginConfig,
+          categories: {
+            review: {
+              model: "anthropic/claude-opus-4-5",
+              temperature: 0.2,
+              tools: { allow: ["read", "grep"] },
+            },
+            quick: { model: "anthropic/claude-haiku-4-5" },
+          },
+        },
+      });
+
+      await handler(mockConfig);
+
+      const reviewAgent = mockConfig.agent?.["category-review"];
+      expect(reviewAgent?.mode).toBe("subagent");
+      expect(reviewAgent?.temperature).toBe(0.2);
+      expect(reviewAgent?.tools).toEqual({ "*": false, read: true, grep: true });
+      expect(mockConfig.agent?.["category-quick"]).toBeUndefined();
+    });
   });
 
   describe("Agent Calling System", () => {
@@ -359,7 +392,7 @@ describe("Orchestrator Integration", () => {
     beforeEach(() => {
       // Mock session creation
       mockContext = {
-        directory: "/test/dir",
+        directory: TEST_DIR,
         client: {
           session: {
             create: mock(() =>
@@ -489,7 +522,7 @@ describe("Orchestrator Integration", () => {
     it("should handle agent execution errors gracefully", async () => {
       // Mock session creation to throw error
       const errorContext = {
-        directory: "/test/dir",
+        directory: TEST_DIR,
         client: {
           session: {
             create: mock(() => Promise.reject(new Error("Session creation failed"))),
@@ -530,6 +563,27 @@ describe("Orchestrator Integration", () => {
       expect(tool.description).toContain("oracle");
       expect(tool.description).toContain("alias for architect");
     });
+
+    it("should classify category auto and record the decision on the task", async () => {
+      const tool = createCallOmcoAgent(mockContext, mockManager);
+
+      await tool.execute(
+        {
+          description: "Fix typo",
+          prompt: "Fix the typo 'recieve' in src/index.ts",
+          category: "auto",
+          run_in_background: true,
+        },
+        { sessionID: "test-session" } as any
+      );
+
+      const createTask = mockManager.createTask as unknown as ReturnType<typeof mock>;
+      const [, , prompt, agent, model, options] = createTask.mock.calls[0] as unknown[];
+      expect(agent).toBe("category:quick");
+      expect(prompt).toContain("SMALL / QUICK");
+      expect(model).toEqual({ providerID: "anthropic", modelID: "claude-haiku-4-5" });
+      expect(options).toMatchObject({ category: "quick", categoryRationale: expect.stringContaining("typo") });
+    });
   });
 
   describe("Model Tier Resolution", () => {
@@ -540,7 +594,7 @@ describe("Orchestrator Integration", () => {
       };
 
       const mockContext = {
-        directory: "/test/dir",
+        directory: TEST_DIR,
         client: {} as any,
       } as PluginInput;
 
@@ -599,7 +653,7 @@ describe("Orchestrator Integration", () => {
       };
 
       const mockContext = {
-        directory: "/test/dir",
+        directory: TEST_DIR,
         client: {} as any,
       } as PluginInput;
 
@@ -620,7 +674,7 @@ describe("Orchestrator Integration", () => {
   describe("Error Handling", () => {
     it("should handle missing required parameters in callOmoAgent", async () => {
       const mockContext = {
-        directory: "/test/dir",
+        directory: TEST_DIR,
         client: {} as any,
       } as PluginInput;
 
@@ -653,7 +707,7 @@ describe("Orchestrator Integration", () => {
       };
 
       const mockContext = {
-        directory: "/test/dir",
+        directory: TEST_DIR,
         client: {} as any,
       } as PluginInput;
 
@@ -685,7 +739,7 @@ describe("Orchestrator Integration", () => {
       };
 
       const mockContext = {
-        directory: "/test/dir",
+        directory: TEST_DIR,
         client: {} as any,
       } as PluginInput;
 
@@ -738,7 +792,7 @@ describe("Orchestrator Integration", () => {
       };
 
       const mockContext = {
-        directory: "/test/dir",
+        directory: TEST_DIR,
         client: {} as any,
       } as PluginInput;
 
@@ -767,7 +821,7 @@ describe("Orchestrator Integration", () => {
       };
 
       const mockContext = {
-        directory: "/test/dir",
+        directory: TEST_DIR,
         client: {} as any,
       } as PluginInput;
 
@@ -797,7 +851,7 @@ describe("Orchestrator Integration", () => {
       };
 
       const mockContext = {
-        directory: "/test/dir",
+        directory: TEST_DIR,
         client: {} as any,
       } as PluginInput;
 
@@ -822,7 +876,7 @@ describe("Orchestrator Integration", () => {
       };
 
       const mockContext = {
-        directory: "/test/dir",
+        directory: TEST_DIR,
         client: {} as any,
       } as PluginInput;
 
@@ -843,7 +897,7 @@ describe("Orchestrator Integration", () => {
       };
 
       const mockContext = {
-        directory: "/test/dir",
+        directory: TEST_DIR,
         client: {} as any,
       } as PluginInput;
 
@@ -0,0 +1,109 @@
+/**
+ * Structured Output Tests
+ *
+ * Tests for output schema resolution, validation and re-prompting of delegated agents.
+ */
+
+import { describe, it, expect } from "bun:test";
+import type { PluginInput } from "@opencode-ai/plugin";
+import {
+  MAX_SCHEMA_REPAIRS,
+  enforceOutputSchema,
+  extractJson,
+  resolveOutputSchema,
+  validateStructuredOutput,
+  type ResolvedOutputSchema,
+} from "../src/tools/output-schemas";
+import { createBackgroundManager } from "../src/tools/background-manager";
+
+const MODEL = { providerID: "anthropic", modelID: "claude-sonnet-4" };
+
+function resolve(spec: string): ResolvedOutputSchema {
+  const resolved = resolveOutputSchema(spec);
+  if ("error" in resolved) throw new Error(resolved.error);
+  return resolved;
+}
+
+describe("Output schemas", () => {
+  it("should resolve named and inline schemas and reject unknown names", () => {
+    expect(resolve("review-findings").name).toBe("review-findings");
+
+    const inline = resolve(JSON.stringify({
+      type: "object",
+      properties: { count: { type: "integer" } },
+      required: ["count"],
+    }));
+    expect(inline.name).toBe("custom");
+    expect(validateStructuredOutput('{"count": 3}', inline)).toEqual({ success: true, data: { count: 3 } });
+
+    const unknown = resolveOutputSchema("no-such-schema");
+    expect("error" in unknown && unknown.error).toContain("Unknown output schema");
+  });
+
+  it("should extract the last fenced JSON block from a reply", () => {
+    const text = 'Example:\n```json\n{"a": 1}\n```\nFinal:\n```json\n{"a": 2}\n```';
+    expect(extractJson(text)).toBe('{"a": 2}');
+    expect(extractJson('Verdict: {"approved": true} done')).toBe('{"approved": true}');
+    expect(extractJson("no json here")).toBeUndefined();
+  });
+
+  it("should report schema issues with their paths", () => {
+    const result = validateStructuredOutput('{"approved": "yes"}', resolve("verification"));
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain("approved");
+    expect(!result.success && result.error).toContain("feedback");
+  });
+
+  it("should re-prompt until the reply conforms", async () => {
+    const repairs: string[] = [];
+    const enforced = await enforceOutputSchema(resolve("verification"), "Looks good to me", async (prompt) => {
+      repairs.push(prompt);
+      return '```json\n{"approved": true, "feedback": "All criteria met"}\n```';
+    });
+
+    expect(repairs).toHaveLength(1);
+    expect(repairs[0]).toContain("No JSON object found");
+    expect(enforced && "data" in enforced && enforced.data).toEqual({ approved: true, feedback: "All criteria met" });
+  });
+
+  it("should give up after the repair attempts run out", async () => {
+    let calls = 0;
+    const enforced = await enforceOutputSchema(resolve("verification"), "{}", async () => {
+      calls++;
+      return "{}";
+    });
+
+    expect(calls).toBe(MAX_SCHEMA_REPAIRS);
+    expect(enforced && "error" in enforced && enforced.error).toContain('schema "verification"');
+  });
+
+  it("should validate a background task result and expose the parsed output", async () => {
+    const replies = ["I approve", '{"approved": false, "feedback": "Tests missing", "missing": ["tests"]}'];
+    const prompts: string[] = [];
+    const ctx = {
+      directory: "/tmp/omco-output-schemas-test",
+      client: {
+        session: {
+          create: async () => ({ data: { id: "child-session" } }),
+          prompt: async (req: { body: { parts: Array<{ text: string }> } }) => {
+            prompts.push(req.body.parts[0].text);
+            return { data: { info: { role: "assistant" }, parts: [{ type: "text", text: replies.shift() }] } };
+          },
+          abort: async () => ({}),
+        },
+        tui: { showToast: async () => ({}) },
+      },
+    } as unknown as PluginInput;
+
+    const manager = createBackgroundManager(ctx, { persistTasks: false });
+    const task = await manager.createTask("parent", "verify", "Verify the fix", "architect", MODEL, {
+      outputSchema: resolve("verification"),
+    });
+    const finished = await manager.waitForTask(task.id, 2000);
+
+    expect(finished.status).toBe("completed");
+    expect(finished.outputSchema).toBe("verification");
+    expect(finished.output).toEqual({ approved: false, feedback: "Tests missing", missing: ["tests"] });
+    expect(prompts[1]).toContain("did not match the required output format");
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * PRD Tests
+ *
+ * Tests for structured acceptance criteria, evidence requirements and assertion checks,
+ * agent-drafted PRDs awaiting approval, and story dependencies with parallel execution.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as path from "path";
+import type { PluginInput } from "@opencode-ai/plugin";
+import {
+  readPrd,
+  writePrd,
+  markStoryComplete,
+  getReadyStories,
+  getNextStory,
+  normalizeCriteria,
+  getOutstandingCriteria,
+  formatOutstandingCriteria,
+  generateStoryContextPrompt,
+  type PRD,
+} from "../src/prd/prd-manager";
+import { verifyClaimedStories } from "../src/prd/criteria-checker";
+import { createRalphLoopHook } from "../src/hooks/ralph-loop";
+import { createBackgroundManager } from "../src/tools/background-manager";
+import { getAgent } from "../src/agents";
+import { createBudgetGuard } from "../src/tools/budget-guard";
+import { readRalphState } from "../src/state/ralph-state";
+
+const TEST_DIR = "/tmp/omco-prd-test";
+
+function createPrd(): PRD {
+  return {
+    project: "Auth",
+    description: "Add login",
+    userStories: [
+      {
+        id: "US-001",
+        title: "Login form",
+        acceptanceCriteria: normalizeCriteria([
+          "Form renders",
+          {
+            description: "Route is registered",
+            assertion: { type: "file_contains", path: "src/routes.ts", pattern: "/login" },
+          },
+        ]),
+        priority: 1,
+        passes: false,
+      },
+      {
+        id: "US-002",
+        title: "Session cookie",
+        acceptanceCriteria: normalizeCriteria([
+          { description: "Tests pass", assertion: { type: "command", command: "exit 1" } },
+        ]),
+        priority: 2,
+        passes: false,
+      },
+    ],
+  };
+}
+
+describe("PRD acceptance criteria", () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(path.join(TEST_DIR, "src"), { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("should read legacy string criteria as pending criteria", () => {
+    fs.mkdirSync(path.join(TEST_DIR, ".omc"), { recursive: true });
+    fs.writeFileSync(path.join(TEST_DIR, ".omc", "prd.json"), JSON.stringify({
+      project: "Legacy",
+      description: "Old format",
+      userStories: [{ id: "US-001", title: "Old", acceptanceCriteria: ["Works"], priority: 1, passes: false }],
+    }));
+
+    expect(readPrd(TEST_DIR)?.userStories[0].acceptanceCriteria).toEqual([
+      { id: "AC-1", description: "Works", status: "pending" },
+    ]);
+  });
+
+  it("should refuse to complete a story until every criterion has evidence", () => {
+    const prd = createPrd();
+    writePrd(TEST_DIR, prd);
+
+    expect(markStoryComplete(TEST_DIR, "US-001")).toBe(false);
+    expect(getOutstandingCriteria(readPrd(TEST_DIR)!.userStories[0]).map((c) => c.id)).toEqual(["AC-1", "AC-2"]);
+
+    // Evidence alone does not satisfy a criterion whose assertion has not passed
+    prd.userStories[0].acceptanceCriteria[0].evidence = { files: ["src/LoginForm.tsx"] };
+    prd.userStories[0].acceptanceCriteria[1].evidence = { note: "Added the route" };
+    writePrd(TEST_DIR, prd);
+    expect(markStoryComplete(TEST_DIR, "US-001")).toBe(false);
+
+    prd.userStories[0].acceptanceCriteria[1].status = "met";
+    writePrd(TEST_DIR, prd);
+    expect(markStoryComplete(TEST_DIR, "US-001")).toBe(true);
+
+    const story = readPrd(TEST_DIR)!.userStories[0];
+    expect(story.passes).toBe(true);
+    expect(story.acceptanceCriteria.map((c) => c.status)).toEqual(["met", "met"]);
+  });
+
+  it("should check assertions of stories marked as passing and revert failing ones", async () => {
+    const prd = createPrd();
+    prd.userStories[0].passes = true;
+    prd.userStories[0].acceptanceCriteria[0].evidence = { tests: ["login form renders"] };
+    prd.userStories[1].passes = true;
+    prd.userStories[1].acceptanceCriteria[0].evidence = { note: "All green" };
+    writePrd(TEST_DIR, prd);
+    fs.writeFileSync(path.join(TEST_DIR, "src", "routes.ts"), 'router.get("/login", login);\n');
+
+    const results = await verifyClaimedStories(TEST_DIR);
+
+    expect(results.map((r) => [r.storyId, r.passes])).toEqual([["US-001", true], ["US-002", false]]);
+    const updated = readPrd(TEST_DIR)!;
+    expect(updated.userStories[0].acceptanceCriteria[1]).toMatchObject({
+      status: "met",
+      evidence: { output: "src/routes.ts matches //login/" },
+    });
+    expect(updated.userStories[0].completedAt).toBeDefined();
+    expect(updated.userStories[1].passes).toBe(false);
+    expect(updated.userStories[1].acceptanceCriteria[0].status).toBe("failed");
+    expect(updated.userStories[1].acceptanceCriteria[0].evidence?.output).toContain("`exit 1` exited 1");
+  });
+
+  it("should surface outstanding criteria in the story context", () => {
+    const prd = createPrd();
+    prd.userStories[0].acceptanceCriteria[0].evidence = { files: ["src/LoginForm.tsx"] };
+
+    const context = generateStoryContextPrompt(prd);
+    expect(context).toContain("[ ] AC-1: Form renders");
+    expect(context).toContain("[ ] AC-2: Route is registered (src/routes.ts must match //login/) - needs evidence");
+
+    const outstanding = formatOutstandingCriteria(prd);
+    expect(outstanding).toContain("- US-001 [ ] AC-2");
+    expect(outstanding).toContain("- US-002 [ ] AC-1: Tests pass (must pass: `exit 1`) - needs evidence");
+  });
+});
+
+/**
+ * Session mock: prompts to child sessions (PRD agents) are answered by `answer` (never, when it
+ * returns undefined), prompts to the loop session are recorded
+ */
+function createSessionCtx(answer: (prompt: string) => string | undefined) {
+  const prompts: Array<{ text: string; noReply?: boolean }> = [];
+  let childCount = 0;
+  const ctx = {
+    directory: TEST_DIR,
+    client: {
+      session: {
+        create: async () => ({ data: { id: `child-${++childCount}` } }),
+        prompt: async (req: { path: { id: string }; body: { noReply?: boolean; parts: Array<{ text: string }> } }) => {
+          if (req.path.id.startsWith("child-")) {
+            const text = answer(req.body.parts[0].text);
+            if (text === undefined) return new Promise(() => {});
+            return { data: { info: { role: "assistant" }, parts: [{ type: "text", text }] } };
+          }
+          prompts.push({ text: req.body.parts[0].text, noReply: req.body.noReply });
+          return {};
+        },
+        // The agents run on the loop session's model
+        messages: async () => ({ data: [{ info: { role: "assistant", providerID: "anthropic", modelID: "claude-sonnet-4-5" }, parts: [] }] }),
+        abort: async () => ({}),
+      },
+      tui: { showToast: async () => ({}) },
+    },
+  } as unknown as PluginInput;
+  return { ctx, prompts };
+}
+
+function prdReply(stories: Array<{ id: string; title: string; priority: number }>): string {
+  return `\`\`\`json\n${JSON.stringify({
+    project: "Auth",
+    description: "Add login",
+    userStories: stories.map((s) => ({
+      ...s,
+      acceptanceCriteria: [{ description: "Tests pass", assertion: { type: "command", command: "bun test" } }],
+    })),
+  })}\n\`\`\``;
+}
+
+function userMessage(text: string) {
+  return { parts: [{ type: "text", text }] };
+}
+
+describe("PRD generation", () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("should draft and review the PRD, then hold iteration 1 until the user approves", async () => {
+    const childPrompts: string[] = [];
+    const { ctx, prompts } = createSessionCtx((prompt) => {
+      childPrompts.push(prompt);
+      return prompt.includes("## Draft PRD")
+        ? prdReply([{ id: "US-001", title: "Session cookie", priority: 2 }, { id: "US-002", title: "Login form", priority: 1 }])
+        : prdReply([{ id: "US-001", title: "Login form", priority: 1 }]);
+    });
+    const manager = createBackgroundManager(ctx, { persistTasks: false });
+    const loop = createRalphLoopHook(ctx, { manager });
+
+    expect(loop.startLoop("ses-gen", "Add login")).toBe(true);
+    const first = userMessage("[RALPH LOOP ACTIVATED]");
+    await loop["chat.message"]({ sessionID: "ses-gen" }, first);
+    expect(first.parts[1].text).toContain("[PRD GENERATION IN PROGRESS]");
+
+    await loop.waitForPrd("ses-gen");
+
+    expect(manager.getTasksByParentSession("ses-gen").map((t) => t.description))
+      .toEqual(["generate PRD: planner", "generate PRD: analyst"]);
+    const plannerPrompt = childPrompts.find((prompt) => prompt.includes("Write the PRD"))!;
+    expect(plannerPrompt.split(getAgent("planner")!.systemPrompt)).toHaveLength(2);
+    const prd = readPrd(TEST_DIR)!;
+    expect(prd.userStories.map((s) => [s.id, s.priority, s.passes])).toEqual([["US-002", 1, false], ["US-001", 2, false]]);
+    expect(prd.userStories[0].acceptanceCriteria[0]).toMatchObject({ id: "AC-1", status: "pending" });
+
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0].noReply).toBe(true);
+    expect(prompts[0].text).toContain("[PRD READY FOR REVIEW] planner drafted .omc/prd.json and analyst reviewed it.");
+    expect(prompts[0].text).toContain("- **US-002** (priority 1) Login form\n  - AC-1: Tests pass (must pass: `bun test`)");
+    expect(readRalphState(TEST_DIR)?.prd_phase).toBe("awaiting_approval");
+
+    await loop.event({ event: { type: "session.idle", properties: { sessionID: "ses-gen" } } });
+    expect(prompts).toHaveLength(1);
+    expect(loop.getState("ses-gen")?.iteration).toBe(0);
+
+    // Other replies leave the gate closed, including an approval that asks for changes
+    for (const text of ["Split US-001 into two stories", "approve, but split US-001 first"]) {
+      const reply = userMessage(text);
+      await loop["chat.message"]({ sessionID: "ses-gen" }, reply);
+      expect(reply.parts[1].text).toContain("[PRD AWAITING APPROVAL]");
+      expect(loop.getState("ses-gen")?.prdPhase).toBe("awaiting_approval");
+    }
+
+    const approval = userMessage(" Approved! ");
+    await loop["chat.message"]({ sessionID: "ses-gen" }, approval);
+    expect(approval.parts[1].text).toContain("[PRD APPROVED]");
+    expect(readRalphState(TEST_DIR)?.prd_phase).toBeUndefined();
+
+    await loop.event({ event: { type: "session.idle", properties: { sessionID: "ses-gen" } } });
+    expect(loop.getState("ses-gen")?.iteration).toBe(1);
+    expect(prompts[1].text).toContain("US-002 - Login form");
+  });
+
+  it("should fall back to the placeholder PRD when the planner fails", async () => {
+    const { ctx, prompts } = createSessionCtx(() => "I need more details before planning.");
+    const manager = createBackgroundManager(ctx, { persistTasks: false });
+    const loop = createRalphLoopHook(ctx, { manager, config: { prd_generation: { reviewer: null } } });
+
+    loop.startLoop("ses-fallback", "Add login");
+    await loop.waitForPrd("ses-fallback");
+
+    expect(manager.getTasksByParentSession("ses-fallback")).toHaveLength(1);
+    expect(readPrd(TEST_DIR)?.userStories.map((s) => s.title)).toEqual(["Complete the requested task"]);
+    expect(prompts[0].text).toContain("[PRD GENERATION FAILED] planner task failed");
+    expect(loop.approvePrd("ses-fallback")).toBe(true);
+  });
+
+  it("should not launch PRD agents past the background task budget", async () => {
+    const { ctx, prompts } = createSessionCtx(() => prdReply([{ id: "US-001", title: "Login form", priority: 1 }]));
+    const manager = createBackgroundManager(ctx, { persistTasks: false });
+    const guard = createBudgetGuard({ maxBackgroundTasks: 1 });
+    const loop = createRalphLoopHook(ctx, { manager, checkNewWork: guard.checkNewWork });
+
+    loop.startLoop("ses-budget", "Add login");
+    await loop.waitForPrd("ses-budget");
+
+    // The planner takes the only launch; the review is refused and the draft kept
+    expect(manager.getTasksByParentSession("ses-budget").map((t) => t.description)).toEqual(["generate PRD: planner"]);
+    expect(prompts[0].text).toContain("(the review failed: Session background task budget exhausted: 1 of 1 tasks launched)");
+  });
+
+  it("should cancel the PRD agent task when the loop is cancelled", async () => {
+    const { ctx, prompts } = createSessionCtx(() => undefined);
+    const manager = createBackgroundManager(ctx, { persistTasks: false });
+    const loop = createRalphLoopHook(ctx, { manager });
+
+    loop.startLoop("ses-cancel", "Add login");
+    for (let i = 0; i < 40 && manager.getTasksByParentSession("ses-cancel")[0]?.status !== "running"; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 25));
+    }
+    expect(loop.cancelLoop("ses-cancel")).toBe(true);
+    await loop.waitForPrd("ses-cancel");
+
+    expect(manager.getTasksByParentSession("ses-cancel").map((t) => [t.description, t.status]))
+      .toEqual([["generate PRD: planner", "cancelled"]]);
+    expect(readPrd(TEST_DIR)).toBeNull();
+    expect(prompts).toHaveLength(0);
+  });
+});
+
+describe("PRD story dependencies", () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  function story(id: string, priority: number, dependsOn?: string[]) {
+    return { id, title: `Story ${id}`, acceptanceCriteria: normalizeCriteria(["Works"]), priority, dependsOn, passes: false };
+  }
+
+  it("should only offer stories whose dependencies pass", () => {
+    const prd: PRD = {
+      project: "Auth",
+      description: "Add login",
+      userStories: [story("US-001", 1), story("US-002", 2, ["US-001"]), story("US-003", 3, ["US-999"])],
+    };
+
+    expect(getReadyStories(prd).map((s) => s.id)).toEqual(["US-001", "US-003"]);
+    expect(getNextStory(prd)?.id).toBe("US-001");
+    expect(getNextStory(prd, ["US-001"])?.id).toBe("US-003");
+    expect(getNextStory(prd, ["US-001", "US-003"])).toBeNull();
+    expect(generateStoryContextPrompt(prd, ["US-001", "US-003"])).toContain("Every ready story is being implemented in parallel");
+
+    prd.userStories[0].passes = true;
+    expect(getReadyStories(prd).map((s) => s.id)).toEqual(["US-002", "US-003"]);
+
+    // A cycle leaves nothing ready; priority order takes over
+    const cyclic: PRD = { ...prd, userStories: [story("US-001", 1, ["US-002"]), story("US-002", 2, ["US-001"])] };
+    expect(getReadyStories(cyclic)).toEqual([]);
+    expect(getNextStory(cyclic)?.id).toBe("US-001");
+  });
+
+  it("should dispatch independent ready stories to executors in ultrawork-ralph and merge their results", async () => {
+    writePrd(TEST_DIR, {
+      project: "Auth",
+      description: "Add login",
+      userStories: [story("US-001", 1), story("US-002", 2), story("US-003", 3), story("US-004", 4, ["US-001"])],
+    });
+    const childPrompts: string[] = [];
+    const { ctx, prompts } = createSessionCtx((prompt) => {
+      childPrompts.push(prompt);
+      const id = prompt.match(/### (US-\d+) - /)?.[1] ?? "";
+      return `\`\`\`json\n${JSON.stringify({
+        storyId: id,
+        passes: id === "US-002",
+        summary: id === "US-002" ? "Implemented" : "Blocked on a missing API key",
+        criteria: [{ id: "AC-1", evidence: { files: [`src/${id}.ts`] } }],
+      })}\n\`\`\``;
+    });
+    const manager = createBackgroundManager(ctx, { persistTasks: false });
+    const loop = createRalphLoopHook(ctx, { manager, config: { parallel_stories: { enabled: true, max_parallel: 2 } } });
+    loop.startLoop("ses-par", "Add login", { mode: "ultrawork-ralph" });
+
+    await loop.event({ event: { type: "session.idle", properties: { sessionID: "ses-par" } } });
+
+    // The session keeps US-001; US-004 waits for it
+    expect(manager.getTasksByParentSession("ses-par").map((t) => t.description))
+      .toEqual(["story US-002: Story US-002", "story US-003: Story US-003"]);
+    expect(prompts[0].text).toContain("### Current Story: US-001");
+    expect(prompts[0].text).toMatch(/### Parallel Stories\n.*\n- US-002 \(\S+\)\n- US-003 \(\S+\)/);
+
+    await loop.waitForStories("ses-par");
+    expect(childPrompts[0].split(getAgent("executor")!.systemPrompt)).toHaveLength(2);
+
+    const prd = readPrd(TEST_DIR)!;
+    expect(prd.userStories[1]).toMatchObject({ passes: true, notes: "Implemented" });
+    expect(prd.userStories[1].acceptanceCriteria[0].evidence).toEqual({ files: ["src/US-002.ts"] });
+    expect(prd.userStories[2]).toMatchObject({ passes: false, notes: "Blocked on a missing API key" });
+    expect(loop.getState("ses-par")?.storyTasks.size).toBe(0);
+
+    // A story the executor gave up on is not dispatched again
+    await loop.event({ event: { type: "session.idle", properties: { sessionID: "ses-par" } } });
+    expect(manager.getTasksByParentSession("ses-par")).toHaveLength(2);
+    expect(readPrd(TEST_DIR)!.userStories[1].acceptanceCriteria[0].status).toBe("met");
+  });
+});
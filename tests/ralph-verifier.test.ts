@@ -0,0 +1,251 @@
+/**
+ * Ralph Verifier Tests
+ *
+ * Tests for evidence-based verification of ralph loop completion claims and verification panels.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import type { PluginInput } from "@opencode-ai/plugin";
+import { createRalphVerifierHook, isQuorumApproved, mergePanelFeedback } from "../src/hooks/ralph-verifier";
+import { createRalphLoopHook } from "../src/hooks/ralph-loop";
+import { createBackgroundManager } from "../src/tools/background-manager";
+import { getAgent } from "../src/agents";
+import { runVerificationCommands, formatCommandEvidence } from "../src/shared/verification-commands";
+import { readVerificationState } from "../src/state/verification-state";
+
+const TEST_DIR = "/tmp/omco-ralph-verifier-test";
+
+/**
+ * Session mock whose last assistant message is set by the test. Prompts to child sessions
+ * (verification panel reviewers) are answered by `review`.
+ */
+function createSessionCtx(review?: (prompt: string) => string) {
+  const prompts: string[] = [];
+  let messageCount = 0;
+  let childCount = 0;
+  let messages: Array<{ info: Record<string, string>; parts: Array<{ type: string; text: string }> }> = [];
+  const ctx = {
+    directory: TEST_DIR,
+    client: {
+      session: {
+        create: async () => ({ data: { id: `child-${++childCount}` } }),
+        prompt: async (req: { path: { id: string }; body: { parts: Array<{ text: string }> } }) => {
+          if (req.path.id.startsWith("child-")) {
+            return { data: { info: { role: "assistant" }, parts: [{ type: "text", text: review?.(req.body.parts[0].text) ?? "" }] } };
+          }
+          prompts.push(req.body.parts[0].text);
+          return {};
+        },
+        messages: async () => ({ data: messages }),
+        abort: async () => ({}),
+      },
+      tui: { showToast: async () => ({}) },
+    },
+  } as unknown as PluginInput;
+
+  const reply = (text: string) => {
+    messages = [...messages, {
+      info: { id: `msg-${++messageCount}`, role: "assistant", providerID: "anthropic", modelID: "claude-sonnet-4-5" },
+      parts: [{ type: "text", text }],
+    }];
+  };
+  return { ctx, prompts, reply };
+}
+
+function messageEvent(sessionID: string) {
+  return { event: { type: "message.updated", properties: { info: { sessionID, role: "assistant" } } } };
+}
+
+describe("Ralph verifier", () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("should run commands in build, test, lint order and keep the tail of long output", async () => {
+    const evidence = await runVerificationCommands(
+      { lint: "echo lint-ok", build: "echo building; exit 3", test: "printf 'x%.0s' $(seq 1 50)" },
+      TEST_DIR,
+      { maxOutputChars: 20 }
+    );
+
+    expect(evidence.map((e) => e.name)).toEqual(["build", "test", "lint"]);
+    expect(evidence[0]).toMatchObject({ exitCode: 3, passed: false, output: "building" });
+    expect(evidence[1]).toMatchObject({ exitCode: 0, passed: true, truncated: true });
+    expect(evidence[1].output).toHaveLength(20);
+    expect(evidence[2]).toMatchObject({ exitCode: 0, passed: true, output: "lint-ok" });
+
+    const formatted = formatCommandEvidence(evidence);
+    expect(formatted).toContain("### build: `echo building; exit 3` - exit 3 (FAIL");
+    expect(formatted).toContain("[output truncated, showing the end]");
+    expect(formatCommandEvidence([])).toContain("No build/test/lint commands are configured");
+  });
+
+  it("should attach command evidence to the verification prompt and approve on a verdict", async () => {
+    const { ctx, prompts, reply } = createSessionCtx();
+    const verified: string[] = [];
+    const verifier = createRalphVerifierHook(ctx, {
+      commands: { test: "echo '3 pass 0 fail'" },
+      getOriginalTask: () => "Add the login form",
+      onVerified: (sessionID) => verified.push(sessionID),
+    });
+
+    reply("All done <promise>TASK_COMPLETE</promise>");
+    await verifier.event(messageEvent("ses-ok"));
+    // Streaming updates of the same message don't start another verification
+    await verifier.event(messageEvent("ses-ok"));
+    await verifier.waitForVerification("ses-ok");
+
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain("Add the login form");
+    expect(prompts[0]).toContain("### test: `echo '3 pass 0 fail'` - exit 0 (PASS");
+    expect(prompts[0]).toContain("3 pass 0 fail");
+    expect(verifier.isPendingVerification("ses-ok")).toBe(true);
+    expect(readVerificationState(TEST_DIR)?.evidence?.[0].exitCode).toBe(0);
+
+    reply("<oracle-approved>VERIFIED_COMPLETE</oracle-approved>");
+    await verifier.event(messageEvent("ses-ok"));
+
+    expect(verified).toEqual(["ses-ok"]);
+    expect(verifier.isPendingVerification()).toBe(false);
+  });
+
+  it("should turn an approval into a rejection when a command failed", async () => {
+    const { ctx, prompts, reply } = createSessionCtx();
+    const verified: string[] = [];
+    const rejected: string[] = [];
+    const verifier = createRalphVerifierHook(ctx, {
+      commands: { build: "echo 'error TS2322' && exit 2" },
+      onVerified: (sessionID) => verified.push(sessionID),
+      onRejected: (_sessionID, feedback) => rejected.push(feedback),
+    });
+
+    reply("<promise>TASK_COMPLETE</promise>");
+    await verifier.event(messageEvent("ses-fail"));
+    await verifier.waitForVerification("ses-fail");
+    expect(prompts[0]).toContain("exit 2 (FAIL");
+
+    reply("<oracle-approved>VERIFIED_COMPLETE</oracle-approved>");
+    await verifier.event(messageEvent("ses-fail"));
+
+    expect(verified).toEqual([]);
+    expect(rejected[0]).toContain("- build: `echo 'error TS2322' && exit 2` exited 2");
+    expect(prompts[1]).toContain("[ORACLE VERIFICATION REJECTED]");
+    expect(readVerificationState(TEST_DIR)).toMatchObject({ pending: false, verification_attempts: 1 });
+
+    // The next claim is verified again
+    reply("Fixed <promise>TASK_COMPLETE</promise>");
+    await verifier.event(messageEvent("ses-fail"));
+    await verifier.waitForVerification("ses-fail");
+    expect(prompts).toHaveLength(3);
+    expect(prompts[2]).toContain("[ORACLE VERIFICATION REQUEST]");
+  });
+
+  it("should combine panel verdicts by quorum rule and merge their feedback", () => {
+    const verdicts = [
+      { reviewer: "architect", approved: true, feedback: "Design is sound" },
+      { reviewer: "code-reviewer", approved: null, feedback: "No verdict: task timed_out" },
+      { reviewer: "security-reviewer", approved: false, feedback: "Token is logged", missing: ["Redact the token"] },
+    ];
+
+    expect(isQuorumApproved(verdicts, "unanimous")).toBe(false);
+    expect(isQuorumApproved(verdicts, "majority")).toBe(false);
+    expect(isQuorumApproved(verdicts, "any-reject-blocks")).toBe(false);
+
+    const withoutRejection = verdicts.slice(0, 2);
+    expect(isQuorumApproved(withoutRejection, "unanimous")).toBe(false);
+    expect(isQuorumApproved(withoutRejection, "majority")).toBe(false);
+    expect(isQuorumApproved(withoutRejection, "any-reject-blocks")).toBe(true);
+    expect(isQuorumApproved([verdicts[0], verdicts[0], verdicts[2]], "majority")).toBe(true);
+
+    const merged = mergePanelFeedback(verdicts);
+    expect(merged.indexOf("### security-reviewer (rejected)")).toBe(0);
+    expect(merged).toContain("Missing:\n- Redact the token");
+    expect(merged.indexOf("### code-reviewer (no verdict)")).toBeLessThan(merged.indexOf("### architect (approved)"));
+  });
+
+  it("should reject a claim when the panel misses its quorum", async () => {
+    const verdict = (approved: boolean, feedback: string) => `\`\`\`json\n${JSON.stringify({ approved, feedback })}\n\`\`\``;
+    const reviewerPrompts: string[] = [];
+    const { ctx, prompts, reply } = createSessionCtx((prompt) => {
+      reviewerPrompts.push(prompt);
+      return prompt.includes("your own specialty as security-reviewer")
+        ? verdict(false, "The session token is written to the log")
+        : verdict(true, "Looks complete");
+    });
+    const manager = createBackgroundManager(ctx, { persistTasks: false });
+    const rejected: string[] = [];
+    const verifier = createRalphVerifierHook(ctx, {
+      panel: { reviewers: ["architect", "code-reviewer", "security-reviewer"], quorum: "any-reject-blocks" },
+      manager,
+      onRejected: (_sessionID, feedback) => rejected.push(feedback),
+    });
+
+    reply("<promise>TASK_COMPLETE</promise>");
+    await verifier.event(messageEvent("ses-panel"));
+    await verifier.waitForVerification("ses-panel");
+
+    expect(manager.getTasksByParentSession("ses-panel").map((t) => t.description).sort())
+      .toEqual(["verify completion: architect", "verify completion: code-reviewer", "verify completion: security-reviewer"]);
+    expect(readVerificationState(TEST_DIR)?.panel_verdicts?.map((v) => v.approved)).toEqual([true, true, false]);
+    expect(rejected[0]).toContain("Verification panel (any-reject-blocks) rejected the claim.");
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain("[ORACLE VERIFICATION REJECTED]");
+    expect(prompts[0]).toContain("### security-reviewer (rejected)\nThe session token is written to the log");
+    expect(prompts[0]).toContain("### architect (approved)\nLooks complete");
+    // Each reviewer gets its system prompt once, from the manager
+    const systemPrompt = getAgent("security-reviewer")!.systemPrompt;
+    const securityPrompt = reviewerPrompts.find((prompt) => prompt.includes("your own specialty as security-reviewer"))!;
+    expect(securityPrompt.split(systemPrompt)).toHaveLength(2);
+  });
+
+  it("should keep the ralph loop running until the claim is verified", async () => {
+    const { ctx, prompts, reply } = createSessionCtx();
+    let pending = false;
+    const loop = createRalphLoopHook(ctx, { isVerificationPending: () => pending });
+    loop.startLoop("ses-loop", "Ship the feature");
+
+    reply("<promise>TASK_COMPLETE</promise>");
+    await loop.event(messageEvent("ses-loop"));
+    expect(loop.getState("ses-loop")).not.toBeNull();
+
+    pending = true;
+    await loop.event({ event: { type: "session.idle", properties: { sessionID: "ses-loop" } } });
+    expect(prompts).toHaveLength(0);
+
+    expect(loop.completeLoop("ses-loop")).toBe(true);
+    expect(loop.getState("ses-loop")).toBeNull();
+  });
+
+  it("should send only the rejection feedback on the idle after a rejection", async () => {
+    const { ctx, prompts, reply } = createSessionCtx();
+    const verifier = createRalphVerifierHook(ctx, {});
+    const loop = createRalphLoopHook(ctx, { isVerificationPending: (sessionID) => verifier.isPendingVerification(sessionID) });
+    const idle = { event: { type: "session.idle", properties: { sessionID: "ses-rej" } } };
+    loop.startLoop("ses-rej", "Ship the feature");
+
+    reply("<promise>TASK_COMPLETE</promise>");
+    await verifier.event(messageEvent("ses-rej"));
+    await verifier.waitForVerification("ses-rej");
+    reply("<oracle-rejected>The tests are missing</oracle-rejected>");
+    await verifier.event(messageEvent("ses-rej"));
+    expect(prompts[1]).toContain("[ORACLE VERIFICATION REJECTED]");
+
+    await loop.event(idle);
+    expect(prompts).toHaveLength(2);
+
+    // Once the session answers the feedback, the loop continues
+    reply("Added the tests");
+    const answer = messageEvent("ses-rej");
+    (answer.event.properties.info as Record<string, unknown>).time = { created: Date.now() };
+    await verifier.event(answer);
+    await loop.event(idle);
+    expect(prompts).toHaveLength(3);
+    expect(prompts[2]).not.toContain("[ORACLE VERIFICATION REJECTED]");
+  });
+});
@@ -35,6 +35,7 @@ const mockManager: BackgroundManager = {
   }),
   getTask: () => undefined,
   getTasksByParentSession: () => [],
+  getTasksByGroup: () => [],
   cancelTask: () => false,
   cancelAllTasks: () => 0,
   waitForTask: async () => ({
@@ -45,6 +46,24 @@ const mockManager: BackgroundManager = {
     startedAt: Date.now(),
     completedAt: Date.now(),
   }),
+  waitForGroup: async () => [],
+  getQueuePosition: () => undefined,
+  getTaskOutput: () => undefined,
+  getSessionUsage: () => ({
+    taskCount: 0,
+    total: {
+      inputTokens: 0,
+      outputTokens: 0,
+      reasoningTokens: 0,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      cost: 0,
+    },
+    byModel: {},
+  }),
+  event: async () => {},
+  "tool.execute.before": async () => {},
+  "tool.execute.after": async () => {},
   getParentSessionModel: async () => ({
     providerID: "anthropic",
     modelID: "claude-sonnet-4",
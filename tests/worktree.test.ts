@@ -0,0 +1,151 @@
+/**
+ * Worktree Isolation Tests
+ *
+ * Tests for git worktree creation, diff collection and cleanup for isolated agents.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import type { PluginInput } from "@opencode-ai/plugin";
+import { createWorktree, finalizeWorktree, formatWorktreeResult } from "../src/shared/worktree";
+import { createBackgroundManager } from "../src/tools/background-manager";
+import { createBackgroundTools } from "../src/tools/background-tools";
+
+const REPO_DIR = "/tmp/omco-worktree-test";
+
+function git(args: string[], cwd = REPO_DIR): string {
+  return execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@localhost", ...args], {
+    cwd,
+    encoding: "utf-8",
+  });
+}
+
+function listBranches(): string[] {
+  return git(["branch", "--format=%(refname:short)"]).trim().split("\n");
+}
+
+describe("Worktree isolation", () => {
+  beforeEach(() => {
+    fs.rmSync(REPO_DIR, { recursive: true, force: true });
+    fs.mkdirSync(REPO_DIR, { recursive: true });
+    git(["init", "-q"]);
+    fs.writeFileSync(path.join(REPO_DIR, "app.ts"), "export const a = 1;\n");
+    git(["add", "-A"]);
+    git(["commit", "-q", "-m", "initial"]);
+  });
+
+  afterEach(() => {
+    git(["worktree", "prune"]);
+    fs.rmSync(REPO_DIR, { recursive: true, force: true });
+  });
+
+  it("should return the diff and keep the branch when the agent changed files", async () => {
+    const worktree = await createWorktree(REPO_DIR, "bg_test_1");
+    expect(fs.existsSync(path.join(worktree.path, "app.ts"))).toBe(true);
+
+    fs.writeFileSync(path.join(worktree.path, "app.ts"), "export const a = 2;\n");
+    const result = await finalizeWorktree(worktree, "executor: bump a");
+
+    expect(result.changed).toBe(true);
+    expect(result.diff).toContain("+export const a = 2;");
+    expect(fs.existsSync(worktree.worktreeRoot)).toBe(false);
+    expect(listBranches()).toContain("omco/bg_test_1");
+    // The main working tree is untouched
+    expect(fs.readFileSync(path.join(REPO_DIR, "app.ts"), "utf-8")).toBe("export const a = 1;\n");
+    expect(formatWorktreeResult(result, "Bumped a")).toContain("git merge omco/bg_test_1");
+  });
+
+  it("should delete the branch when nothing changed", async () => {
+    const worktree = await createWorktree(REPO_DIR, "bg_test_2");
+    const result = await finalizeWorktree(worktree, "explore: look around");
+
+    expect(result.changed).toBe(false);
+    expect(listBranches()).not.toContain("omco/bg_test_2");
+    expect(formatWorktreeResult(result)).toContain("No changes were made");
+  });
+
+  it("should scope an isolated background task to its worktree and return the diff", async () => {
+    const directories: string[] = [];
+    const ctx = {
+      directory: REPO_DIR,
+      client: {
+        session: {
+          create: async (req: { query: { directory: string } }) => {
+            directories.push(req.query.directory);
+            return { data: { id: "child-session" } };
+          },
+          prompt: async (req: { query: { directory: string } }) => {
+            fs.writeFileSync(path.join(req.query.directory, "feature.ts"), "export const feature = true;\n");
+            return { data: { info: { role: "assistant" }, parts: [{ type: "text", text: "Added feature" }] } };
+          },
+          abort: async () => ({}),
+        },
+        tui: { showToast: async () => ({}) },
+      },
+    } as unknown as PluginInput;
+
+    const manager = createBackgroundManager(ctx, { persistTasks: false });
+    const task = await manager.createTask(
+      "parent",
+      "add feature",
+      "Add the feature",
+      "executor",
+      { providerID: "anthropic", modelID: "claude-sonnet-4" },
+      { isolation: "worktree" }
+    );
+    const finished = await manager.waitForTask(task.id, 10000);
+
+    expect(finished.status).toBe("completed");
+    expect(directories[0]).toBe(finished.worktree?.path);
+    expect(finished.result).toContain("Added feature");
+    expect(finished.result).toContain("+export const feature = true;");
+    expect(fs.existsSync(path.join(REPO_DIR, "feature.ts"))).toBe(false);
+    expect(listBranches()).toContain(`omco/${task.id}`);
+  });
+
+  it("should remove the worktree and keep the partial branch when all tasks are cancelled", async () => {
+    let prompted = false;
+    const ctx = {
+      directory: REPO_DIR,
+      client: {
+        session: {
+          create: async () => ({ data: { id: "child-session" } }),
+          prompt: async (req: { query: { directory: string } }) => {
+            fs.writeFileSync(path.join(req.query.directory, "partial.ts"), "export const partial = true;\n");
+            prompted = true;
+            return new Promise(() => {});
+          },
+          abort: async () => ({}),
+        },
+        tui: { showToast: async () => ({}) },
+      },
+    } as unknown as PluginInput;
+
+    const manager = createBackgroundManager(ctx, { persistTasks: false });
+    const tools = createBackgroundTools(manager, ctx.client);
+    const task = await manager.createTask(
+      "parent",
+      "add feature",
+      "Add the feature",
+      "executor",
+      { providerID: "anthropic", modelID: "claude-sonnet-4" },
+      { isolation: "worktree" }
+    );
+    for (let i = 0; i < 100 && !prompted; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+
+    const response = JSON.parse(await tools.background_cancel.execute({ all: true }, { sessionID: "parent" } as never));
+    expect(response.cancelled).toBe(1);
+
+    const worktreeRoot = task.worktree!.worktreeRoot;
+    for (let i = 0; i < 100 && fs.existsSync(worktreeRoot); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    expect(fs.existsSync(worktreeRoot)).toBe(false);
+    expect(listBranches()).toContain(`omco/${task.id}`);
+    expect(manager.getTask(task.id)?.error).toContain(`Partial changes kept on branch omco/${task.id}`);
+  });
+});